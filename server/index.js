@@ -0,0 +1,340 @@
+// Proxy server for team deployments. The browser sends OpenAI-style chat
+// completion requests to /api/generate; the proxy checks the user's access
+// token and rate limits, then forwards the request to an upstream provider
+// using keys that never leave the server. It can also serve the built app
+// (dist/), so the app and the API share one origin.
+//
+// Usage: npm run proxy [-- path/to/proxy.config.json]
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, extname, join, normalize, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const SERVER_DIR = dirname(fileURLToPath(import.meta.url));
+const CONFIG_PATH = resolve(process.argv[2] || process.env.PROXY_CONFIG || join(SERVER_DIR, "proxy.config.json"));
+
+const DEFAULTS = {
+  port: 8787,
+  host: "127.0.0.1",
+  allowedOrigins: [],
+  staticDir: "../dist",
+  maxTokensPerRequest: 8000,
+  maxBodyBytes: 512 * 1024,
+  rateLimit: { requestsPerMinute: 10, requestsPerDay: 300 },
+  users: {},
+  upstreams: {},
+};
+
+// Request fields passed on to the upstream; anything else the client sends
+// (n, logprobs, max_completion_tokens, ...) is dropped so it cannot raise
+// the cost of a request past the proxy's limits
+const FORWARDED_FIELDS = ["messages", "temperature", "max_tokens", "stream", "stream_options", "response_format"];
+
+const MIME_TYPES = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".mid": "audio/midi",
+  ".mp3": "audio/mpeg",
+  ".ico": "image/x-icon",
+};
+
+// Load the config file; upstream keys may also come from the environment,
+// e.g. "apiKeyEnv": "OPENAI_API_KEY"
+const loadConfig = () => {
+  if (!existsSync(CONFIG_PATH)) {
+    console.error(`No proxy config at ${CONFIG_PATH}. Copy server/proxy.config.example.json to get started.`);
+    process.exit(1);
+  }
+
+  const config = { ...DEFAULTS, ...JSON.parse(readFileSync(CONFIG_PATH, "utf8")) };
+  config.rateLimit = { ...DEFAULTS.rateLimit, ...config.rateLimit };
+
+  for (const [name, upstream] of Object.entries(config.upstreams)) {
+    upstream.apiKey = upstream.apiKey || (upstream.apiKeyEnv && process.env[upstream.apiKeyEnv]) || "";
+    if (!upstream.baseUrl || !Array.isArray(upstream.models) || upstream.models.length === 0) {
+      throw new Error(`Upstream "${name}" needs a baseUrl and a list of models`);
+    }
+  }
+  if (!config.upstreams[config.defaultUpstream]) {
+    throw new Error(`defaultUpstream "${config.defaultUpstream}" is not one of the configured upstreams`);
+  }
+  return config;
+};
+
+const config = loadConfig();
+
+// Upstream and model for a requested model name; "default" picks the
+// default upstream's first model
+const resolveModel = (model) => {
+  if (!model || model === "default") {
+    const upstream = config.upstreams[config.defaultUpstream];
+    return { upstream, model: upstream.models[0] };
+  }
+  for (const upstream of Object.values(config.upstreams)) {
+    if (upstream.models.includes(model)) return { upstream, model };
+  }
+  return null;
+};
+
+// ---- Rate limiting -------------------------------------------------------
+
+// Requests in the last minute and today, per user
+const usage = new Map();
+
+// Whether a user may make another request; returns the wait in seconds if not
+const checkRateLimit = (userId, limits) => {
+  const now = Date.now();
+  const today = new Date().toDateString();
+  const entry = usage.get(userId) ?? { recent: [], day: today, dayCount: 0 };
+  if (entry.day !== today) {
+    entry.day = today;
+    entry.dayCount = 0;
+  }
+  entry.recent = entry.recent.filter((time) => now - time < 60_000);
+  usage.set(userId, entry);
+
+  if (entry.dayCount >= limits.requestsPerDay) {
+    return { allowed: false, daily: true };
+  }
+  if (entry.recent.length >= limits.requestsPerMinute) {
+    return { allowed: false, retryAfter: Math.ceil((60_000 - (now - entry.recent[0])) / 1000) };
+  }
+
+  entry.recent.push(now);
+  entry.dayCount++;
+  return { allowed: true };
+};
+
+// ---- HTTP helpers --------------------------------------------------------
+
+const setCorsHeaders = (req, res) => {
+  const origin = req.headers.origin;
+  if (origin && (config.allowedOrigins.includes("*") || config.allowedOrigins.includes(origin))) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Expose-Headers", "Retry-After");
+  }
+};
+
+// Errors use the OpenAI error shape, so the app classifies them like
+// errors from OpenAI itself
+const sendError = (res, status, message, code, headers = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ error: { message, code } }));
+};
+
+const readJsonBody = (req) =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(Object.assign(new Error("Request body too large"), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      let body;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        reject(Object.assign(new Error("Request body is not valid JSON"), { status: 400 }));
+        return;
+      }
+      if (!body || typeof body !== "object" || Array.isArray(body)) {
+        reject(Object.assign(new Error("Request body must be a JSON object"), { status: 400 }));
+        return;
+      }
+      resolveBody(body);
+    });
+    req.on("error", reject);
+  });
+
+// Compare tokens in constant time; hashing first gives equal-length inputs
+const tokensMatch = (a, b) =>
+  timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+
+// Who is calling: a configured user by access token, or the client address
+// when no users are configured
+const identifyUser = (req) => {
+  const token = (req.headers.authorization ?? "").replace(/^Bearer\s+/i, "");
+  const users = Object.entries(config.users);
+  if (users.length === 0) {
+    return { id: `ip:${req.socket.remoteAddress}`, limits: config.rateLimit };
+  }
+
+  const match = users.find(([, user]) => typeof user.token === "string" && tokensMatch(user.token, token));
+  if (!token || !match) return null;
+  const [name, user] = match;
+  return { id: `user:${name}`, limits: { ...config.rateLimit, ...user.rateLimit } };
+};
+
+// ---- Endpoints -----------------------------------------------------------
+
+const handleGenerate = async (req, res) => {
+  const user = identifyUser(req);
+  if (!user) {
+    sendError(res, 401, "Missing or unknown access token", "invalid_api_key");
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  if (!Array.isArray(body.messages)) {
+    sendError(res, 400, "messages must be an array", "invalid_request");
+    return;
+  }
+  if (body.max_tokens !== undefined && !(Number.isInteger(body.max_tokens) && body.max_tokens > 0)) {
+    sendError(res, 400, "max_tokens must be a positive whole number", "invalid_request");
+    return;
+  }
+
+  const resolved = resolveModel(body.model);
+  if (!resolved) {
+    sendError(res, 404, `The model ${body.model} is not available on this proxy`, "model_not_found");
+    return;
+  }
+  const { upstream, model } = resolved;
+
+  // Only requests that will be forwarded count against the limits
+  const limit = checkRateLimit(user.id, user.limits);
+  if (!limit.allowed) {
+    if (limit.daily) {
+      sendError(res, 429, `Daily quota of ${user.limits.requestsPerDay} requests reached`, "insufficient_quota");
+    } else {
+      sendError(res, 429, "Too many requests, slow down", "rate_limit_exceeded", {
+        "Retry-After": String(limit.retryAfter),
+      });
+    }
+    return;
+  }
+
+  const upstreamBody = Object.fromEntries(
+    FORWARDED_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]]),
+  );
+  Object.assign(upstreamBody, {
+    model,
+    n: 1,
+    max_tokens: Math.min(body.max_tokens || config.maxTokensPerRequest, config.maxTokensPerRequest),
+  });
+  // Local servers support json_schema output but not always strict mode or usage in streams
+  if (upstream.strictSchema === false) {
+    delete upstreamBody.stream_options;
+    if (upstreamBody.response_format?.json_schema) {
+      upstreamBody.response_format.json_schema.strict = false;
+    }
+  }
+
+  // Stop the upstream request if the browser goes away
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  console.log(`${user.id} -> ${model}${body.stream ? " (streaming)" : ""}`);
+  const upstreamResponse = await fetch(`${upstream.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(upstream.apiKey && { Authorization: `Bearer ${upstream.apiKey}` }),
+    },
+    body: JSON.stringify(upstreamBody),
+    signal: controller.signal,
+  });
+
+  // Pass the answer (or error) through as it arrives, including streams
+  const headers = { "Content-Type": upstreamResponse.headers.get("content-type") ?? "application/json" };
+  const retryAfter = upstreamResponse.headers.get("retry-after");
+  if (retryAfter) headers["Retry-After"] = retryAfter;
+  res.writeHead(upstreamResponse.status, headers);
+
+  if (!upstreamResponse.body) {
+    res.end();
+    return;
+  }
+  for await (const chunk of upstreamResponse.body) {
+    res.write(chunk);
+  }
+  res.end();
+};
+
+const handleModels = (req, res) => {
+  const models = Object.values(config.upstreams).flatMap((upstream) => upstream.models);
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ default: resolveModel("default").model, models }));
+};
+
+// Serve the built app, falling back to index.html for client-side routes
+const handleStatic = async (req, res) => {
+  const root = resolve(SERVER_DIR, config.staticDir);
+  let path;
+  try {
+    path = normalize(decodeURIComponent(new URL(req.url, "http://localhost").pathname));
+  } catch {
+    sendError(res, 400, "Malformed URL", "invalid_request");
+    return;
+  }
+  let file = join(root, path);
+  if (!file.startsWith(root) || !existsSync(root)) {
+    sendError(res, 404, "Not found", "not_found");
+    return;
+  }
+  if (!existsSync(file) || path.endsWith("/")) {
+    file = join(root, "index.html");
+  }
+
+  try {
+    const content = await readFile(file);
+    res.writeHead(200, { "Content-Type": MIME_TYPES[extname(file)] ?? "application/octet-stream" });
+    res.end(content);
+  } catch {
+    sendError(res, 404, "Not found", "not_found");
+  }
+};
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(req, res);
+  const { pathname } = new URL(req.url, "http://localhost");
+
+  try {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+    } else if (pathname === "/api/generate" && req.method === "POST") {
+      await handleGenerate(req, res);
+    } else if (pathname === "/api/models" && req.method === "GET") {
+      handleModels(req, res);
+    } else if (pathname.startsWith("/api/")) {
+      sendError(res, 404, "Not found", "not_found");
+    } else if (req.method === "GET") {
+      await handleStatic(req, res);
+    } else {
+      sendError(res, 405, "Method not allowed", "method_not_allowed");
+    }
+  } catch (error) {
+    if (error.name === "AbortError") return;
+    console.error("Proxy error:", error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendError(res, error.status ?? 502, error.status ? error.message : "Could not reach the upstream provider", "proxy_error");
+    }
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`AI Piano Performer proxy listening on http://${config.host}:${config.port}`);
+  console.log(`Upstreams: ${Object.keys(config.upstreams).join(", ")} (default: ${config.defaultUpstream})`);
+  if (Object.keys(config.users).length === 0) {
+    console.log("No users configured: rate limits apply per client address");
+  }
+});
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AbcTune, formatAbcError, parseAbc } from "@/lib/abcNotation";
+import { formatTimeSignature } from "@/lib/musicUtils";
+
+interface AbcImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLoad: (tune: AbcTune) => Promise<void>;
+}
+
+// Errors listed below the text box; the rest are counted
+const SHOWN_ERRORS = 5;
+
+const EXAMPLE = `X:1
+T:Twinkle, Twinkle
+M:4/4
+L:1/4
+Q:1/4=100
+K:C
+V:R
+C C G G | A A G2 | F F E E | D D C2 |]
+V:L clef=bass
+[C,E,G,]2 [C,E,G,]2 | [F,A,C]2 [C,E,G,]2 | [D,F,A,]2 [C,E,G,]2 | [G,,B,,D,]2 [C,E,G,]2 |]`;
+
+const AbcImportDialog = ({
+  open = false,
+  onOpenChange = () => {},
+  onLoad = async () => {},
+}: AbcImportDialogProps) => {
+  const [text, setText] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const result = useMemo(() => (text.trim() ? parseAbc(text) : null), [text]);
+  const tune = result?.tune;
+
+  const handleLoad = async () => {
+    if (!tune || tune.notes.length === 0) return;
+
+    setLoading(true);
+    try {
+      await onLoad(tune);
+      onOpenChange(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Paste an ABC Tune</DialogTitle>
+          <DialogDescription>
+            Paste a tune in ABC notation to play it, download it as MIDI or
+            refine it. Voices named bass or left, and every voice after the
+            first, are played by the left hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={EXAMPLE}
+          className="min-h-[240px] font-mono text-xs"
+          spellCheck={false}
+        />
+
+        {result && !result.found && (
+          <p className="text-sm text-red-500">
+            No ABC tune found. A tune starts with header fields such as X:1 and K:C.
+          </p>
+        )}
+        {result?.found && tune && (
+          <p className="text-sm text-muted-foreground">
+            {tune.title ? `${tune.title}: ` : ""}
+            {tune.notes.length} notes
+            {tune.key && ` · key ${tune.key}`} · {formatTimeSignature(tune.timeSignature)} ·{" "}
+            {tune.tempo} BPM
+          </p>
+        )}
+        {result && result.errors.length > 0 && (
+          <div className="text-xs text-red-500 space-y-1">
+            {result.errors.slice(0, SHOWN_ERRORS).map((error) => (
+              <p key={`${error.line}:${error.column}:${error.message}`}>{formatAbcError(error)}</p>
+            ))}
+            {result.errors.length > SHOWN_ERRORS && (
+              <p>and {result.errors.length - SHOWN_ERRORS} more</p>
+            )}
+            {tune && tune.notes.length > 0 && (
+              <p className="text-muted-foreground">
+                The tune can still be loaded; the parts with errors are skipped.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleLoad} disabled={loading || !tune || tune.notes.length === 0}>
+            Load tune
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AbcImportDialog;
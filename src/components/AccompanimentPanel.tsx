@@ -0,0 +1,302 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { FileUp, Library, Loader2, Music2, Undo2 } from "lucide-react";
+import { NoteSequence, TimeSignature } from "@/services/openai";
+import { MAX_TEMPO, MIN_TEMPO } from "@/services/compositionSchema";
+import {
+  ACCOMPANIMENT_STYLES,
+  AccompanimentStyle,
+} from "@/services/accompaniment";
+import { readNoteSequenceFromMidi } from "@/services/midiBuilder";
+import { CorpusTune, searchTunes } from "@/services/tuneCorpus";
+import { formatMelody, parseMelody } from "@/lib/melodyNotation";
+import { formatTimeSignature, getVoiceNotes } from "@/lib/musicUtils";
+
+interface AccompanimentPanelProps {
+  // The melody as typed text (see melodyNotation)
+  melody: string;
+  onMelodyChange: (melody: string) => void;
+  // While recording, keys clicked on the virtual piano are appended
+  recording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  // The current piece, whose right hand can be used as the melody
+  currentPiece?: NoteSequence | null;
+  onAccompany: (melody: NoteSequence, style: AccompanimentStyle) => Promise<void>;
+  isAccompanying?: boolean;
+  disabled?: boolean;
+}
+
+const TIME_SIGNATURES: TimeSignature[] = [[4, 4], [3, 4], [2, 4], [6, 8]];
+const DEFAULT_MELODY_TEMPO = 100;
+
+const AccompanimentPanel = ({
+  melody = "",
+  onMelodyChange = () => {},
+  recording = false,
+  onRecordingChange = () => {},
+  currentPiece = null,
+  onAccompany = async () => {},
+  isAccompanying = false,
+  disabled = false,
+}: AccompanimentPanelProps) => {
+  const [style, setStyle] = useState<AccompanimentStyle>("alberti");
+  const [tempo, setTempo] = useState(DEFAULT_MELODY_TEMPO);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>([4, 4]);
+  const [importError, setImportError] = useState("");
+  const [tuneQuery, setTuneQuery] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parseMelody(melody), [melody]);
+  const tuneMatches = useMemo(() => searchTunes(tuneQuery), [tuneQuery]);
+
+  // Put an existing piece's tune in the text box, to edit before accompanying
+  const loadMelody = (sequence: NoteSequence) => {
+    const rightHand = getVoiceNotes(sequence.notes, "right");
+    onMelodyChange(formatMelody(rightHand.length > 0 ? rightHand : sequence.notes));
+    setTempo(sequence.tempo);
+    setTimeSignature(sequence.timeSignature ?? [4, 4]);
+  };
+
+  // Start from a tune in the tune library, with its usual tempo and style
+  const loadTune = (tune: CorpusTune) => {
+    onMelodyChange(tune.melody.replace(/\s+/g, " "));
+    setTempo(tune.tempo);
+    setTimeSignature(tune.timeSignature);
+    setStyle(tune.style);
+    setTuneQuery("");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImportError("");
+    try {
+      const sequence = readNoteSequenceFromMidi(await file.arrayBuffer());
+      if (sequence.notes.length === 0) {
+        throw new Error("The file has no notes");
+      }
+      loadMelody(sequence);
+    } catch (error) {
+      console.error("Error importing MIDI file:", error);
+      setImportError(
+        `Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsed.notes.length === 0 || parsed.errors.length > 0) return;
+
+    onRecordingChange(false);
+    await onAccompany({ notes: parsed.notes, tempo, timeSignature }, style);
+  };
+
+  const busy = disabled || isAccompanying;
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="tune-search">Find a well-known tune</Label>
+        <Input
+          id="tune-search"
+          placeholder="Ode to Joy, Frère Jacques, Silent Night..."
+          value={tuneQuery}
+          onChange={(e) => setTuneQuery(e.target.value)}
+          disabled={busy}
+        />
+        {tuneQuery.trim() && (
+          <div className="flex flex-wrap gap-2">
+            {tuneMatches.length === 0 && (
+              <p className="text-xs text-muted-foreground">No tune in the library matches.</p>
+            )}
+            {tuneMatches.map(({ tune }) => (
+              <Button
+                key={tune.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => loadTune(tune)}
+                disabled={busy}
+                title={tune.origin}
+                className="flex items-center gap-1"
+              >
+                <Library className="h-4 w-4" />
+                {tune.title}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="melody-text">Melody</Label>
+        <Textarea
+          id="melody-text"
+          placeholder="E4 D4 C4 D4 | E4 E4 E4:2 | D4:1 D4 D4:2 | E4:1 G4 G4:2"
+          value={melody}
+          onChange={(e) => onMelodyChange(e.target.value)}
+          className="min-h-[80px] resize-y font-mono text-sm"
+          disabled={busy}
+        />
+        <p className="text-xs text-muted-foreground">
+          Pitches such as C4, F#5 or Bb3, and R for a rest. Add a length in
+          beats after a colon (E4:2); without one, a note lasts as long as the
+          one before it.
+        </p>
+        {parsed.errors.length > 0 && (
+          <ul className="text-xs text-red-500">
+            {parsed.errors.slice(0, 3).map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+            {parsed.errors.length > 3 && <li>and {parsed.errors.length - 3} more</li>}
+          </ul>
+        )}
+        {importError && <p className="text-xs text-red-500">{importError}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-2">
+          <Switch
+            id="record-melody"
+            checked={recording}
+            onCheckedChange={onRecordingChange}
+            disabled={busy}
+          />
+          <Label htmlFor="record-melody" className="text-sm">
+            Add notes from the virtual piano
+          </Label>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".mid,.midi,audio/midi"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1"
+        >
+          <FileUp className="h-4 w-4" />
+          Import MIDI
+        </Button>
+        {currentPiece && currentPiece.notes.length > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => loadMelody(currentPiece)}
+            disabled={busy}
+            className="flex items-center gap-1"
+          >
+            <Undo2 className="h-4 w-4" />
+            Use the current piece's melody
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Style</Label>
+          <Select
+            value={style}
+            onValueChange={(value) => setStyle(value as AccompanimentStyle)}
+            disabled={busy}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACCOMPANIMENT_STYLES) as AccompanimentStyle[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {ACCOMPANIMENT_STYLES[option].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="melody-tempo">Tempo (BPM)</Label>
+          <Input
+            id="melody-tempo"
+            type="number"
+            min={MIN_TEMPO}
+            max={MAX_TEMPO}
+            value={tempo}
+            onChange={(e) =>
+              setTempo(Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Number(e.target.value) || MIN_TEMPO)))
+            }
+            disabled={busy}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Time signature</Label>
+          <Select
+            value={formatTimeSignature(timeSignature)}
+            onValueChange={(meter) =>
+              setTimeSignature(
+                TIME_SIGNATURES.find((signature) => formatTimeSignature(signature) === meter) ??
+                  [4, 4],
+              )
+            }
+            disabled={busy}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_SIGNATURES.map((signature) => (
+                <SelectItem
+                  key={formatTimeSignature(signature)}
+                  value={formatTimeSignature(signature)}
+                >
+                  {formatTimeSignature(signature)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        disabled={busy || parsed.notes.length === 0 || parsed.errors.length > 0}
+        className="flex items-center gap-2"
+      >
+        {isAccompanying ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Writing accompaniment...
+          </>
+        ) : (
+          <>
+            <Music2 className="h-4 w-4" />
+            Write {ACCOMPANIMENT_STYLES[style].label.toLowerCase()} accompaniment
+          </>
+        )}
+      </Button>
+    </form>
+  );
+};
+
+export default AccompanimentPanel;
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -10,12 +10,36 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { setApiKey, hasApiKey } from "@/services/openai";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PROVIDER_IDS,
+  ProviderId,
+  clearProviderCredentials,
+  getActiveProviderId,
+  getProvider,
+  getProviderCredentials,
+  setActiveProvider,
+  setProviderCredentials,
+} from "@/services/providers";
+import {
+  isVaultUnlocked,
+  loadLastUsedProfiles,
+  saveKeyProfile,
+} from "@/services/keyVault";
+import KeyVaultPanel from "./KeyVaultPanel";
+
+const DEFAULT_PROFILE_NAME = "Default";
 
 interface ApiKeyModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onApiKeySet: () => void;
+  onApiKeySet: (providerId: ProviderId) => void;
 }
 
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
@@ -23,25 +47,105 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   onOpenChange,
   onApiKeySet,
 }) => {
+  const [providerId, setProviderId] = useState<ProviderId>(
+    getActiveProviderId(),
+  );
   const [apiKey, setApiKeyState] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
   const [error, setError] = useState("");
+  const [remember, setRemember] = useState(false);
+  const [profileName, setProfileName] = useState(DEFAULT_PROFILE_NAME);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const provider = getProvider(providerId);
+
+  // Show the current settings of the selected provider
+  const showCredentials = (id: ProviderId) => {
+    const credentials = getProviderCredentials(id);
+    setApiKeyState(credentials.apiKey ?? "");
+    setBaseUrl(credentials.baseUrl ?? "");
+    setError("");
+  };
+
+  useEffect(() => {
+    showCredentials(providerId);
+  }, [providerId, open]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Put the keys last used with the vault back in memory
+  const handleVaultUnlocked = async () => {
+    const restored = await loadLastUsedProfiles();
+    for (const [id, credentials] of Object.entries(restored)) {
+      setProviderCredentials(id as ProviderId, credentials);
+    }
+    showCredentials(providerId);
+  };
+
+  // A locked vault means its keys are no longer usable
+  const handleVaultLocked = () => {
+    PROVIDER_IDS.forEach(clearProviderCredentials);
+    showCredentials(providerId);
+  };
+
+  // Start from the active provider whenever the modal opens
+  useEffect(() => {
+    if (open) {
+      setProviderId(getActiveProviderId());
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!apiKey.trim()) {
-      setError("Please enter your OpenAI API key");
+    const trimmedKey = apiKey.trim();
+    const trimmedBaseUrl = baseUrl.trim();
+
+    if (provider.requiresApiKey && !trimmedKey) {
+      setError(`Please enter your ${provider.name} API key`);
       return;
     }
 
-    if (!apiKey.startsWith("sk-")) {
-      setError("Invalid API key format. OpenAI keys start with 'sk-'");
+    if (trimmedKey && provider.keyPrefix && !trimmedKey.startsWith(provider.keyPrefix)) {
+      setError(
+        `Invalid API key format. ${provider.name} keys start with '${provider.keyPrefix}'`,
+      );
       return;
     }
 
-    // Store the API key in memory
-    setApiKey(apiKey.trim());
-    onApiKeySet();
+    if (
+      (provider.requiresBaseUrl || trimmedBaseUrl) &&
+      !/^https?:\/\//.test(trimmedBaseUrl)
+    ) {
+      setError("Please enter a base URL starting with http:// or https://");
+      return;
+    }
+
+    if (remember && !isVaultUnlocked()) {
+      setError("Create or unlock the encrypted vault to remember this key");
+      return;
+    }
+
+    const credentials = {
+      apiKey: trimmedKey || undefined,
+      baseUrl: trimmedBaseUrl || undefined,
+    };
+
+    // Encrypt the settings on this device if asked to
+    if (remember) {
+      setIsSaving(true);
+      try {
+        await saveKeyProfile(profileName.trim() || DEFAULT_PROFILE_NAME, providerId, credentials);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not save the key");
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
+    // Store the settings in memory
+    setProviderCredentials(providerId, credentials);
+    setActiveProvider(providerId);
+    onApiKeySet(providerId);
     onOpenChange(false);
   };
 
@@ -49,36 +153,111 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>OpenAI API Key</DialogTitle>
+          <DialogTitle>AI Provider</DialogTitle>
           <DialogDescription>
-            Enter your OpenAI API key to enable AI music generation. Your key
-            will be stored in memory only and not saved anywhere.
+            Choose the AI provider used for music generation and enter its
+            connection details. Keys are kept in memory only, unless you
+            choose to remember them on this device encrypted with a passphrase.
+            Without a provider, new pieces are written by the built-in offline
+            composer.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
             <div className="grid gap-2">
-              <Label htmlFor="apiKey">API Key</Label>
-              <Input
-                id="apiKey"
-                type="password"
-                placeholder="sk-..."
-                value={apiKey}
-                onChange={(e) => {
-                  setApiKeyState(e.target.value);
-                  if (error) setError("");
+              <Label htmlFor="provider">Provider</Label>
+              <Select
+                value={providerId}
+                onValueChange={(value) => setProviderId(value as ProviderId)}
+              >
+                <SelectTrigger id="provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDER_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {getProvider(id).name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(provider.requiresBaseUrl || provider.baseUrlPlaceholder) && (
+              <div className="grid gap-2">
+                <Label htmlFor="baseUrl">
+                  Base URL{!provider.requiresBaseUrl && " (optional)"}
+                </Label>
+                <Input
+                  id="baseUrl"
+                  placeholder={provider.baseUrlPlaceholder}
+                  value={baseUrl}
+                  onChange={(e) => {
+                    setBaseUrl(e.target.value);
+                    if (error) setError("");
+                  }}
+                />
+                {provider.baseUrlHelp && (
+                  <p className="text-xs text-muted-foreground">{provider.baseUrlHelp}</p>
+                )}
+              </div>
+            )}
+
+            {provider.id !== "mock" && (
+              <div className="grid gap-2">
+                <Label htmlFor="apiKey">
+                  {provider.keyLabel ?? "API Key"}
+                  {!provider.requiresApiKey && " (optional)"}
+                </Label>
+                <Input
+                  id="apiKey"
+                  type="password"
+                  placeholder={provider.keyPlaceholder}
+                  value={apiKey}
+                  onChange={(e) => {
+                    setApiKeyState(e.target.value);
+                    if (error) setError("");
+                  }}
+                  className="col-span-3"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Your API key is used only for requests to {provider.name} and
+                  is never stored unencrypted.
+                </p>
+              </div>
+            )}
+
+            {provider.id !== "mock" && (
+              <KeyVaultPanel
+                providerId={providerId}
+                remember={remember}
+                onRememberChange={setRemember}
+                profileName={profileName}
+                onProfileNameChange={setProfileName}
+                onLoadProfile={(credentials, profile) => {
+                  setApiKeyState(credentials.apiKey ?? "");
+                  setBaseUrl(credentials.baseUrl ?? "");
+                  setProfileName(profile.name);
+                  setError("");
                 }}
-                className="col-span-3"
+                onUnlocked={handleVaultUnlocked}
+                onLocked={handleVaultLocked}
               />
-              {error && <p className="text-sm text-red-500">{error}</p>}
-              <p className="text-xs text-muted-foreground">
-                Your API key is used only for requests to OpenAI and is never
-                stored permanently.
+            )}
+
+            {provider.id === "mock" && (
+              <p className="text-sm text-muted-foreground">
+                The offline demo composes simple pieces locally without any
+                network access. The same prompt always gives the same piece.
               </p>
-            </div>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
           </div>
           <DialogFooter>
-            <Button type="submit">Save API Key</Button>
+            <Button type="submit" disabled={isSaving}>
+              Save
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
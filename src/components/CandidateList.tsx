@@ -0,0 +1,105 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { cn } from "@/lib/utils";
+import { Check, Play, XCircle } from "lucide-react";
+import { GeneratedComposition } from "@/services/openai";
+import {
+  formatKey,
+  getPitchRange,
+  getSequenceLengthInBeats,
+  inferKey,
+} from "@/lib/musicUtils";
+
+// One take of a multi-candidate generation: the piece, or why it failed
+export interface Candidate {
+  id: number;
+  composition?: GeneratedComposition;
+  error?: string;
+}
+
+interface CandidateListProps {
+  candidates: Candidate[];
+  auditioningId: number | null;
+  onAudition: (id: number) => void;
+  onKeep: (id: number) => void;
+  disabled?: boolean;
+}
+
+const CandidateList = ({
+  candidates = [],
+  auditioningId = null,
+  onAudition = () => {},
+  onKeep = () => {},
+  disabled = false,
+}: CandidateListProps) => {
+  return (
+    <div className="space-y-2 rounded-lg border p-4">
+      <p className="text-sm font-medium">
+        Candidates: audition each take and keep the one you like
+      </p>
+      <ul className="space-y-2">
+        {candidates.map(({ id, composition, error }) => {
+          if (!composition) {
+            return (
+              <li key={id} className="flex items-center gap-2 text-sm text-red-500">
+                <XCircle className="h-4 w-4" />
+                Take {id} failed: {error}
+              </li>
+            );
+          }
+
+          const seconds = Math.round(
+            (getSequenceLengthInBeats(composition.notes) * 60) / composition.tempo,
+          );
+          const range = getPitchRange(composition.notes);
+
+          return (
+            <li
+              key={id}
+              className={cn(
+                "flex items-center justify-between gap-2 rounded-md p-2",
+                id === auditioningId && "bg-muted",
+              )}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Take {id}</span>
+                  {id === auditioningId && <Badge variant="secondary">Loaded</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {seconds}s · {formatKey(inferKey(composition.notes))} ·{" "}
+                  {range ? `${range.lowest}-${range.highest}` : "no range"} ·{" "}
+                  {composition.notes.length} notes · {composition.tempo} BPM
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Audition take ${id}`}
+                  onClick={() => onAudition(id)}
+                  disabled={disabled}
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onKeep(id)}
+                  disabled={disabled}
+                  className="flex items-center gap-1"
+                >
+                  <Check className="h-3 w-3" />
+                  Keep
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default CandidateList;
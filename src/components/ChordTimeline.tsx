@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import { formatKey } from "@/lib/musicUtils";
+import {
+  ChordSegment,
+  HarmonicFunction,
+  HarmonyAnalysis,
+  HarmonyResolution,
+} from "@/lib/harmony";
+
+interface ChordTimelineProps {
+  analysis: HarmonyAnalysis;
+  // Playback position in beats, or null when nothing is playing
+  currentBeat?: number | null;
+  resolution?: HarmonyResolution;
+  onResolutionChange?: (resolution: HarmonyResolution) => void;
+}
+
+// Width of one beat on the timeline
+const PIXELS_PER_BEAT = 28;
+
+const FUNCTION_STYLES: Record<HarmonicFunction, { label: string; className: string }> = {
+  tonic: { label: "Tonic", className: "bg-blue-50 border-blue-300 text-blue-900" },
+  predominant: { label: "Predominant", className: "bg-amber-50 border-amber-300 text-amber-900" },
+  dominant: { label: "Dominant", className: "bg-rose-50 border-rose-300 text-rose-900" },
+  other: { label: "Other", className: "bg-gray-50 border-gray-300 text-gray-700" },
+};
+
+const RESOLUTIONS: Array<{ value: HarmonyResolution; label: string }> = [
+  { value: "bar", label: "By bar" },
+  { value: "beat", label: "By beat" },
+];
+
+const ChordTimeline = ({
+  analysis,
+  currentBeat = null,
+  resolution = "bar",
+  onResolutionChange = () => {},
+}: ChordTimelineProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { chords } = analysis;
+  const length = chords.length > 0 ? chords[chords.length - 1].end : 0;
+
+  const isCurrent = (chord: ChordSegment) =>
+    currentBeat !== null && currentBeat >= chord.start && currentBeat < chord.end;
+  const current = chords.find(isCurrent);
+
+  // Keep the sounding chord in view while the piece plays
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !current) return;
+    const left = current.start * PIXELS_PER_BEAT;
+    if (left < container.scrollLeft || left > container.scrollLeft + container.clientWidth - 80) {
+      container.scrollLeft = Math.max(0, left - container.clientWidth / 3);
+    }
+  }, [current]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium">Harmony in {formatKey(analysis.key)}</span>
+          {(Object.keys(FUNCTION_STYLES) as HarmonicFunction[]).map((fn) => (
+            <span key={fn} className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span className={cn("h-3 w-3 rounded-sm border", FUNCTION_STYLES[fn].className)} />
+              {FUNCTION_STYLES[fn].label}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {RESOLUTIONS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={resolution === value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onResolutionChange(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {chords.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No chords found: the piece has no passages with two or more notes sounding together.
+        </p>
+      ) : (
+        <div ref={scrollRef} className="overflow-x-auto pb-2">
+          <div className="relative h-14" style={{ width: length * PIXELS_PER_BEAT }}>
+            {chords.map((chord) => (
+              <div
+                key={chord.start}
+                title={`Beats ${chord.start}-${chord.end}: ${chord.symbol} (${chord.numeral}, ${FUNCTION_STYLES[chord.function].label.toLowerCase()})`}
+                className={cn(
+                  "absolute top-0 h-full rounded-md border px-1.5 py-1 overflow-hidden transition-shadow",
+                  FUNCTION_STYLES[chord.function].className,
+                  isCurrent(chord) && "ring-2 ring-primary shadow-md",
+                )}
+                style={{
+                  left: chord.start * PIXELS_PER_BEAT,
+                  width: (chord.end - chord.start) * PIXELS_PER_BEAT - 2,
+                }}
+              >
+                <div className="text-sm font-semibold leading-tight truncate">{chord.symbol}</div>
+                <div className="text-xs leading-tight truncate">{chord.numeral}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChordTimeline;
@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Loader2, ListPlus } from "lucide-react";
+
+interface ContinuationControlsProps {
+  onContinue: (bars: number) => Promise<void>;
+  isContinuing?: boolean;
+  disabled?: boolean;
+}
+
+const BAR_OPTIONS = [4, 8, 16];
+
+const ContinuationControls = ({
+  onContinue = async () => {},
+  isContinuing = false,
+  disabled = false,
+}: ContinuationControlsProps) => {
+  const [bars, setBars] = useState<number>(8);
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Extend by</span>
+        <Select
+          value={String(bars)}
+          onValueChange={(value) => setBars(Number(value))}
+          disabled={disabled || isContinuing}
+        >
+          <SelectTrigger className="w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BAR_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option} bars
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        variant="outline"
+        onClick={() => onContinue(bars)}
+        disabled={disabled || isContinuing}
+        className="flex items-center gap-2"
+      >
+        {isContinuing ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Continuing...
+          </>
+        ) : (
+          <>
+            <ListPlus className="h-4 w-4" />
+            Continue this piece
+          </>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default ContinuationControls;
@@ -0,0 +1,63 @@
+import React from "react";
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import { Button } from "./ui/button";
+import {
+  AlertCircle,
+  Coins,
+  KeyRound,
+  RefreshCw,
+  Replace,
+  Wrench,
+} from "lucide-react";
+import {
+  GENERATION_ERROR_TITLES,
+  GenerationError,
+  RecoveryAction,
+} from "@/services/generationErrors";
+
+interface GenerationErrorAlertProps {
+  error: GenerationError;
+  onRecover: (action: RecoveryAction) => void;
+  disabled?: boolean;
+}
+
+// Button offered for each recovery action; rephrasing needs no button
+const RECOVERY_BUTTONS: Partial<Record<RecoveryAction, { label: string; icon: React.ReactNode }>> = {
+  "open-settings": { label: "Open provider settings", icon: <KeyRound className="h-3 w-3" /> },
+  "open-usage": { label: "Open usage and cost", icon: <Coins className="h-3 w-3" /> },
+  "switch-model": { label: "Use the default model", icon: <Replace className="h-3 w-3" /> },
+  retry: { label: "Try again", icon: <RefreshCw className="h-3 w-3" /> },
+  "retry-with-repair": { label: "Retry with more repair attempts", icon: <Wrench className="h-3 w-3" /> },
+};
+
+const GenerationErrorAlert = ({
+  error,
+  onRecover = () => {},
+  disabled = false,
+}: GenerationErrorAlertProps) => {
+  const button = RECOVERY_BUTTONS[error.recovery];
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{GENERATION_ERROR_TITLES[error.kind]}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>{error.message}</p>
+        {button && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRecover(error.recovery)}
+            disabled={disabled}
+            className="flex items-center gap-1"
+          >
+            {button.icon}
+            {button.label}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default GenerationErrorAlert;
@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./ui/collapsible";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DEFAULT_TEMPERATURE, ResponseFormat, TimeSignature } from "@/services/openai";
+import { MAX_TEMPO, MIN_TEMPO } from "@/services/compositionSchema";
+import { CompositionConstraints } from "@/services/generationConstraints";
+import { LLMProvider } from "@/services/providers";
+import { DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT_MS } from "@/services/providers/http";
+import {
+  clearGenerationCache,
+  getCacheSize,
+  isGenerationCacheAvailable,
+  subscribeToCache,
+} from "@/services/generationCache";
+import { KnownTuneMode, TUNE_CORPUS } from "@/services/tuneCorpus";
+import { KEY_TONIC_NAMES, formatTimeSignature } from "@/lib/musicUtils";
+
+// Model choice and musical settings applied to new generations
+export interface GenerationSettingsValue {
+  model: string; // Empty for the provider's default model
+  temperature: number;
+  constraints: CompositionConstraints;
+  timeoutSeconds: number; // Per request, before it is retried
+  maxRetries: number;
+  // Answer repeated requests from the generation cache
+  useCache: boolean;
+  responseFormat: ResponseFormat;
+  // What to do when a prompt names a tune from the tune library
+  knownTunes: KnownTuneMode;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettingsValue = {
+  model: "",
+  temperature: DEFAULT_TEMPERATURE,
+  constraints: {},
+  timeoutSeconds: DEFAULT_TIMEOUT_MS / 1000,
+  maxRetries: DEFAULT_MAX_RETRIES,
+  useCache: true,
+  responseFormat: "json",
+  knownTunes: "arrange",
+};
+
+interface GenerationSettingsProps {
+  provider: LLMProvider;
+  value: GenerationSettingsValue;
+  onChange: (value: GenerationSettingsValue) => void;
+  disabled?: boolean;
+}
+
+// Select value for "no constraint"
+const ANY = "any";
+const LENGTH_OPTIONS = [8, 16, 24, 32];
+const TIME_SIGNATURES: TimeSignature[] = [[4, 4], [3, 4], [2, 4], [6, 8]];
+const TIMEOUT_OPTIONS = [30, 60, 120, 300];
+const RETRY_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+const GenerationSettings = ({
+  provider,
+  value = DEFAULT_GENERATION_SETTINGS,
+  onChange = () => {},
+  disabled = false,
+}: GenerationSettingsProps) => {
+  const [open, setOpen] = useState(false);
+  const [cacheSize, setCacheSize] = useState(0);
+  const { constraints } = value;
+
+  // Keep the number of cached generations up to date
+  useEffect(() => {
+    const refresh = async () => setCacheSize(await getCacheSize());
+    refresh();
+    return subscribeToCache(refresh);
+  }, []);
+
+  const updateConstraints = (changes: Partial<CompositionConstraints>) => {
+    onChange({ ...value, constraints: { ...constraints, ...changes } });
+  };
+
+  const tempoRange = [constraints.minTempo ?? MIN_TEMPO, constraints.maxTempo ?? MAX_TEMPO];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full flex items-center justify-between px-4"
+        >
+          <span className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Advanced settings
+          </span>
+          <ChevronDown
+            className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+          />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 pt-2">
+        <div className="space-y-2">
+          <Label htmlFor="generation-model">Model</Label>
+          <Input
+            id="generation-model"
+            list="generation-model-suggestions"
+            placeholder={provider.defaultModel}
+            value={value.model}
+            onChange={(e) => onChange({ ...value, model: e.target.value })}
+            disabled={disabled}
+          />
+          <datalist id="generation-model-suggestions">
+            {provider.suggestedModels.map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Temperature: {value.temperature.toFixed(2)}</Label>
+          <Slider
+            min={0}
+            max={1.5}
+            step={0.05}
+            value={[value.temperature]}
+            onValueChange={([temperature]) => onChange({ ...value, temperature })}
+            disabled={disabled}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Length</Label>
+          <Select
+            value={constraints.lengthBars ? String(constraints.lengthBars) : ANY}
+            onValueChange={(length) =>
+              updateConstraints({ lengthBars: length === ANY ? undefined : Number(length) })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Let the model decide</SelectItem>
+              {LENGTH_OPTIONS.map((bars) => (
+                <SelectItem key={bars} value={String(bars)}>
+                  {bars} bars
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Time signature</Label>
+          <Select
+            value={formatTimeSignature(constraints.timeSignature)}
+            onValueChange={(meter) =>
+              updateConstraints({
+                timeSignature: TIME_SIGNATURES.find(
+                  (signature) => formatTimeSignature(signature) === meter,
+                ),
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_SIGNATURES.map((signature) => (
+                <SelectItem
+                  key={formatTimeSignature(signature)}
+                  value={formatTimeSignature(signature)}
+                >
+                  {formatTimeSignature(signature)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Key</Label>
+          <Select
+            value={constraints.tonic ?? ANY}
+            onValueChange={(tonic) =>
+              updateConstraints({ tonic: tonic === ANY ? undefined : tonic })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any key</SelectItem>
+              {KEY_TONIC_NAMES.map((tonic) => (
+                <SelectItem key={tonic} value={tonic}>
+                  {tonic}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Mode</Label>
+          <Select
+            value={constraints.mode ?? ANY}
+            onValueChange={(mode) =>
+              updateConstraints({
+                mode: mode === ANY ? undefined : (mode as "major" | "minor"),
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Major or minor</SelectItem>
+              <SelectItem value="major">Major</SelectItem>
+              <SelectItem value="minor">Minor</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2 sm:col-span-2">
+          <Label>
+            Tempo range: {tempoRange[0]}-{tempoRange[1]} BPM
+          </Label>
+          <Slider
+            min={MIN_TEMPO}
+            max={MAX_TEMPO}
+            step={1}
+            value={tempoRange}
+            onValueChange={([minTempo, maxTempo]) =>
+              updateConstraints({
+                minTempo: minTempo > MIN_TEMPO ? minTempo : undefined,
+                maxTempo: maxTempo < MAX_TEMPO ? maxTempo : undefined,
+              })
+            }
+            disabled={disabled}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2 sm:col-span-2">
+          <Label>Answer format</Label>
+          <Select
+            value={value.responseFormat}
+            onValueChange={(format) =>
+              onChange({ ...value, responseFormat: format as ResponseFormat })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="json">JSON events (plays while it streams)</SelectItem>
+              <SelectItem value="abc">ABC notation (shorter, with bars, key and meter)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2 sm:col-span-2">
+          <Label>Well-known tunes</Label>
+          <Select
+            value={value.knownTunes}
+            onValueChange={(mode) => onChange({ ...value, knownTunes: mode as KnownTuneMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="arrange">Play the real melody, only arrange it</SelectItem>
+              <SelectItem value="reference">Send the real melody as a reference</SelectItem>
+              <SelectItem value="off">Leave it to the model</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Used when a prompt names one of the {TUNE_CORPUS.length} public-domain tunes in the
+            tune library, such as Ode to Joy or Happy Birthday.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Request timeout</Label>
+          <Select
+            value={String(value.timeoutSeconds)}
+            onValueChange={(seconds) => onChange({ ...value, timeoutSeconds: Number(seconds) })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEOUT_OPTIONS.map((seconds) => (
+                <SelectItem key={seconds} value={String(seconds)}>
+                  {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Retries on rate limits and errors</Label>
+          <Select
+            value={String(value.maxRetries)}
+            onValueChange={(retries) => onChange({ ...value, maxRetries: Number(retries) })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETRY_OPTIONS.map((retries) => (
+                <SelectItem key={retries} value={String(retries)}>
+                  {retries === 0 ? "Don't retry" : retries}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="sm:col-span-2 flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="use-cache"
+              checked={value.useCache && isGenerationCacheAvailable()}
+              onCheckedChange={(useCache) => onChange({ ...value, useCache })}
+              disabled={disabled || !isGenerationCacheAvailable()}
+            />
+            <Label htmlFor="use-cache">
+              {isGenerationCacheAvailable()
+                ? "Reuse cached results for repeated requests"
+                : "Caching needs a secure (https) page"}
+            </Label>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearGenerationCache().catch((error) => console.error("Error clearing cache:", error))}
+            disabled={disabled || cacheSize === 0}
+          >
+            Clear cache ({cacheSize})
+          </Button>
+        </div>
+
+        <div className="sm:col-span-2 flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+            disabled={disabled}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default GenerationSettings;
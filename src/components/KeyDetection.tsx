@@ -0,0 +1,51 @@
+import React from "react";
+import { Badge } from "./ui/badge";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { KeyCandidate, formatKey } from "@/lib/musicUtils";
+
+interface KeyDetectionProps {
+  // Likely keys of the loaded piece, most likely first
+  candidates: KeyCandidate[];
+  showScale?: boolean;
+  onShowScaleChange?: (showScale: boolean) => void;
+}
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+const KeyDetection = ({
+  candidates = [],
+  showScale = false,
+  onShowScaleChange = () => {},
+}: KeyDetectionProps) => {
+  if (candidates.length === 0) return null;
+  const [best, ...others] = candidates;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Detected key</span>
+        <Badge title={`Profile correlation ${best.correlation.toFixed(2)}`}>
+          {formatKey(best.key)} · {formatConfidence(best.confidence)}
+        </Badge>
+        {others.map((candidate) => (
+          <Badge
+            key={formatKey(candidate.key)}
+            variant="outline"
+            title={`Profile correlation ${candidate.correlation.toFixed(2)}`}
+          >
+            {formatKey(candidate.key)} · {formatConfidence(candidate.confidence)}
+          </Badge>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="show-scale" checked={showScale} onCheckedChange={onShowScaleChange} />
+        <Label htmlFor="show-scale" className="text-sm">
+          Show scale on keyboard
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default KeyDetection;
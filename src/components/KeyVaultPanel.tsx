@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Loader2, Lock, LockOpen, Trash2 } from "lucide-react";
+import { ProviderCredentials, ProviderId } from "@/services/providers";
+import {
+  KeyProfileSummary,
+  MIN_PASSPHRASE_LENGTH,
+  WrongPassphraseError,
+  createVault,
+  deleteKeyProfile,
+  deleteVault,
+  hasVault,
+  isVaultSupported,
+  isVaultUnlocked,
+  listKeyProfiles,
+  loadKeyProfile,
+  lockVault,
+  subscribeToVault,
+  unlockVault,
+} from "@/services/keyVault";
+
+interface KeyVaultPanelProps {
+  providerId: ProviderId;
+  // Save the entered key to the vault when the modal is saved
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
+  profileName: string;
+  onProfileNameChange: (name: string) => void;
+  // A saved profile was chosen; fill in its credentials
+  onLoadProfile: (credentials: ProviderCredentials, profile: KeyProfileSummary) => void;
+  // The vault was unlocked; restore the keys last used with it
+  onUnlocked: () => void;
+  // The vault was locked; forget keys held in memory
+  onLocked: () => void;
+}
+
+const KeyVaultPanel = ({
+  providerId,
+  remember = false,
+  onRememberChange = () => {},
+  profileName = "",
+  onProfileNameChange = () => {},
+  onLoadProfile = () => {},
+  onUnlocked = () => {},
+  onLocked = () => {},
+}: KeyVaultPanelProps) => {
+  const [vaultExists, setVaultExists] = useState(false);
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked());
+  const [profiles, setProfiles] = useState<KeyProfileSummary[]>([]);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  // Follow vault changes, including those made elsewhere in the app
+  useEffect(() => {
+    const refresh = async () => {
+      setVaultExists(await hasVault());
+      setUnlocked(isVaultUnlocked());
+      setProfiles(await listKeyProfiles().catch(() => []));
+    };
+    refresh();
+    return subscribeToVault(refresh);
+  }, []);
+
+  if (!isVaultSupported()) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This browser cannot store keys securely, so keys are kept in memory only.
+      </p>
+    );
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      setError(
+        err instanceof WrongPassphraseError
+          ? "Wrong passphrase. Try again."
+          : err instanceof Error
+            ? err.message
+            : String(err),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      if (passphrase !== confirmation) {
+        throw new Error("The passphrases do not match");
+      }
+      await createVault(passphrase);
+    });
+
+  const handleUnlock = () =>
+    run(async () => {
+      await unlockVault(passphrase);
+      onUnlocked();
+    });
+
+  const handleLock = () => {
+    lockVault();
+    onLocked();
+  };
+
+  const handleForget = () =>
+    run(async () => {
+      if (!window.confirm("Delete the vault and every key saved in it?")) return;
+      await deleteVault();
+      onRememberChange(false);
+      onLocked();
+    });
+
+  const handleLoadProfile = (profile: KeyProfileSummary) =>
+    run(async () => {
+      onLoadProfile(await loadKeyProfile(profile.id), profile);
+    });
+
+  const providerProfiles = profiles.filter((profile) => profile.providerId === providerId);
+
+  // Passphrase entry shared by the create and unlock forms
+  const passphraseInput = (
+    <Input
+      id="vault-passphrase"
+      type="password"
+      placeholder="Passphrase"
+      value={passphrase}
+      onChange={(e) => {
+        setPassphrase(e.target.value);
+        if (error) setError("");
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          if (vaultExists) handleUnlock();
+        }
+      }}
+      disabled={busy}
+    />
+  );
+
+  return (
+    <div className="grid gap-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="remember-key"
+            checked={remember}
+            onCheckedChange={onRememberChange}
+            disabled={busy}
+          />
+          <Label htmlFor="remember-key" className="text-sm">
+            Remember on this device
+          </Label>
+        </div>
+        {vaultExists && unlocked && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleLock}
+            className="flex items-center gap-1"
+          >
+            <Lock className="h-3 w-3" />
+            Lock
+          </Button>
+        )}
+      </div>
+
+      {vaultExists && !unlocked && (
+        <div className="grid gap-2">
+          <Label htmlFor="vault-passphrase" className="text-xs">
+            Saved keys are locked. Enter your passphrase to use them.
+          </Label>
+          <div className="flex items-center gap-2">
+            {passphraseInput}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleUnlock}
+              disabled={busy || !passphrase}
+              className="flex items-center gap-1"
+            >
+              {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <LockOpen className="h-3 w-3" />}
+              Unlock
+            </Button>
+          </div>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            onClick={handleForget}
+            disabled={busy}
+            className="h-auto justify-start p-0 text-xs text-muted-foreground"
+          >
+            Forgot the passphrase? Delete saved keys
+          </Button>
+        </div>
+      )}
+
+      {remember && !vaultExists && (
+        <div className="grid gap-2">
+          <p className="text-xs text-muted-foreground">
+            Choose a passphrase. Keys are encrypted with it (PBKDF2 and
+            AES-GCM) before they are stored, and cannot be recovered without it.
+          </p>
+          {passphraseInput}
+          <Input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            disabled={busy}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCreate}
+            disabled={busy || passphrase.length < MIN_PASSPHRASE_LENGTH}
+          >
+            {busy && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+            Create encrypted vault
+          </Button>
+        </div>
+      )}
+
+      {vaultExists && unlocked && (
+        <>
+          {remember && (
+            <div className="grid gap-2">
+              <Label htmlFor="profile-name" className="text-xs">
+                Profile name
+              </Label>
+              <Input
+                id="profile-name"
+                placeholder="Personal"
+                value={profileName}
+                onChange={(e) => onProfileNameChange(e.target.value)}
+              />
+            </div>
+          )}
+          {providerProfiles.length > 0 && (
+            <div className="grid gap-1">
+              <p className="text-xs font-medium">Saved profiles</p>
+              {providerProfiles.map((profile) => (
+                <div key={profile.id} className="flex items-center justify-between gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleLoadProfile(profile)}
+                    disabled={busy}
+                    className="justify-start"
+                  >
+                    {profile.name}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete profile ${profile.name}`}
+                    onClick={() => run(() => deleteKeyProfile(profile.id))}
+                    disabled={busy}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default KeyVaultPanel;
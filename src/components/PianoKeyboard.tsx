@@ -1,63 +1,69 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { cn } from "@/lib/utils";
 import { playNote } from "@/lib/musicUtils";
+import {
+  PIANO_HIGHEST_MIDI_NUMBER,
+  PIANO_LOWEST_MIDI_NUMBER,
+  midiNumberToNote,
+  noteToMidiNumber,
+  parsePitch,
+} from "@/lib/pitch";
 
 interface PianoKeyboardProps {
   activeNotes?: string[];
+  // Subset of activeNotes played by the left hand, highlighted separately
+  leftHandNotes?: string[];
   onKeyPress?: (note: string) => void;
+  // Pitch classes of a scale to mark on the keys, tonic first
+  scalePitchClasses?: number[];
 }
 
+// Marker drawn on keys in the shown scale; the tonic's is larger
+const ScaleMarker = ({ tonic }: { tonic: boolean }) => (
+  <span
+    className={cn(
+      "rounded-full bg-amber-400",
+      tonic ? "h-2.5 w-2.5 ring-2 ring-amber-200" : "h-1.5 w-1.5",
+    )}
+  />
+);
+
 const PianoKeyboard = ({
   activeNotes = [],
+  leftHandNotes = [],
   onKeyPress,
+  scalePitchClasses = [],
 }: PianoKeyboardProps) => {
-  // Piano key definitions
-  const whiteKeys = ["C", "D", "E", "F", "G", "A", "B"];
-  const blackKeys = ["C#", "D#", "F#", "G#", "A#"];
-
   // Generate a full piano keyboard (88 keys from A0 to C8)
   const generatePianoKeys = () => {
     const keys = [];
-    for (let octave = 0; octave <= 8; octave++) {
-      whiteKeys.forEach((note) => {
-        // Skip keys outside the 88-key range
-        if (
-          (octave === 0 && ["A", "B"].indexOf(note) === -1) ||
-          (octave === 8 && note !== "C")
-        ) {
-          return;
-        }
-        keys.push({ note: `${note}${octave}`, type: "white" });
+    for (
+      let midiNumber = PIANO_LOWEST_MIDI_NUMBER;
+      midiNumber <= PIANO_HIGHEST_MIDI_NUMBER;
+      midiNumber++
+    ) {
+      const note = midiNumberToNote(midiNumber);
+      keys.push({
+        note,
+        midiNumber,
+        octave: parsePitch(note)!.octave,
+        type: note.includes("#") ? "black" : "white",
       });
     }
-
-    for (let octave = 0; octave <= 7; octave++) {
-      blackKeys.forEach((note) => {
-        // Skip keys outside the 88-key range
-        if (octave === 0 && ["A#"].indexOf(note) === -1) {
-          return;
-        }
-        keys.push({ note: `${note}${octave}`, type: "black" });
-      });
-    }
-
-    // Sort keys by note and octave
-    return keys.sort((a, b) => {
-      const noteA = a.note.slice(0, -1);
-      const noteB = b.note.slice(0, -1);
-      const octaveA = parseInt(a.note.slice(-1));
-      const octaveB = parseInt(b.note.slice(-1));
-
-      if (octaveA !== octaveB) return octaveA - octaveB;
-
-      const noteOrder = [...whiteKeys, ...blackKeys];
-      return noteOrder.indexOf(noteA) - noteOrder.indexOf(noteB);
-    });
+    return keys;
   };
 
   // Memoize piano keys to avoid regenerating on every render
   const pianoKeys = useMemo(() => generatePianoKeys(), []);
 
+  // Sounding keys by MIDI number, so any spelling of a pitch lights its key
+  const activeKeys = useMemo(
+    () => new Set((activeNotes ?? []).map(noteToMidiNumber)),
+    [activeNotes],
+  );
+  const leftHandKeys = useMemo(() => new Set(leftHandNotes.map(noteToMidiNumber)), [leftHandNotes]);
+  const scaleTonic = scalePitchClasses[0];
+
   // Track previously active notes to play sound only when a note becomes active
   const [prevActiveNotes, setPrevActiveNotes] = useState<string[]>([]);
 
@@ -97,7 +103,7 @@ const PianoKeyboard = ({
     }
 
     // Extract octaves from active notes
-    const octaves = activeNotes.map((note) => parseInt(note.slice(-1)));
+    const octaves = activeNotes.map((note) => parsePitch(note)?.octave ?? 4);
     const minOctave = Math.max(0, Math.min(...octaves) - 1);
     const maxOctave = Math.min(8, Math.max(...octaves) + 1);
 
@@ -112,11 +118,11 @@ const PianoKeyboard = ({
           {pianoKeys
             .filter((key) => key.type === "white")
             .map((key, index) => {
-              const octave = parseInt(key.note.slice(-1));
               const isVisible =
-                octave >= visibleOctaveRange.min &&
-                octave <= visibleOctaveRange.max;
-              const isActive = activeNotes?.includes(key.note);
+                key.octave >= visibleOctaveRange.min &&
+                key.octave <= visibleOctaveRange.max;
+              const isActive = activeKeys.has(key.midiNumber);
+              const isLeftHand = leftHandKeys.has(key.midiNumber);
 
               return (
                 <div
@@ -124,11 +130,15 @@ const PianoKeyboard = ({
                   onClick={() => handleKeyClick(key.note)}
                   className={cn(
                     "flex-1 border border-gray-300 rounded-b-md bg-white hover:bg-gray-50 cursor-pointer",
-                    "flex items-end justify-center pb-2 select-none transition-colors duration-150",
+                    "flex flex-col items-center justify-end gap-1 pb-2 select-none transition-colors duration-150",
                     isActive && "bg-blue-100 border-blue-300",
+                    isLeftHand && "bg-green-100 border-green-300",
                     isVisible ? "opacity-100" : "opacity-50",
                   )}
                 >
+                  {scalePitchClasses.includes(key.midiNumber % 12) && (
+                    <ScaleMarker tonic={key.midiNumber % 12 === scaleTonic} />
+                  )}
                   <span className="text-xs text-gray-500">{key.note}</span>
                 </div>
               );
@@ -140,19 +150,20 @@ const PianoKeyboard = ({
           {pianoKeys
             .filter((key) => key.type === "white")
             .map((key, index) => {
-              const note = key.note.slice(0, -1);
-              const octave = key.note.slice(-1);
-              const hasBlackKey = ["C", "D", "F", "G", "A"].includes(note);
+              const blackKey = pianoKeys.find(
+                (candidate) =>
+                  candidate.midiNumber === key.midiNumber + 1 && candidate.type === "black",
+              );
 
-              if (!hasBlackKey)
+              if (!blackKey)
                 return <div key={`spacer-${index}`} className="flex-1"></div>;
 
-              const blackKeyNote = `${note}#${octave}`;
-              const isActive = activeNotes?.includes(blackKeyNote);
-              const numOctave = parseInt(octave);
+              const blackKeyNote = blackKey.note;
+              const isActive = activeKeys.has(blackKey.midiNumber);
+              const isLeftHand = leftHandKeys.has(blackKey.midiNumber);
               const isVisible =
-                numOctave >= visibleOctaveRange.min &&
-                numOctave <= visibleOctaveRange.max;
+                blackKey.octave >= visibleOctaveRange.min &&
+                blackKey.octave <= visibleOctaveRange.max;
 
               return (
                 <div key={`container-${index}`} className="flex-1 relative">
@@ -162,9 +173,15 @@ const PianoKeyboard = ({
                       "absolute w-[70%] h-[65%] left-[65%] bg-black hover:bg-gray-800",
                       "rounded-b-md cursor-pointer z-20 transition-colors duration-150",
                       isActive && "bg-blue-800",
+                      isLeftHand && "bg-green-800",
                       isVisible ? "opacity-100" : "opacity-50",
                     )}
                   >
+                    {scalePitchClasses.includes(blackKey.midiNumber % 12) && (
+                      <span className="absolute bottom-7 left-1/2 transform -translate-x-1/2 flex">
+                        <ScaleMarker tonic={blackKey.midiNumber % 12 === scaleTonic} />
+                      </span>
+                    )}
                     <span className="absolute bottom-2 left-1/2 transform -translate-x-1/2 text-xs text-gray-400">
                       {blackKeyNote}
                     </span>
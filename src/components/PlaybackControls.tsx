@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
-import { Pause, Play, SkipBack, SkipForward, Music, Volume2 } from "lucide-react";
+import { Dices, Pause, Play, SkipBack, SkipForward, Music, Volume2, Waves } from "lucide-react";
+import {
+  DEFAULT_HUMANIZE_AMOUNT,
+  DEFAULT_PERFORMANCE_SEED,
+  PerformanceOptions,
+  createPerformanceSeed,
+} from "@/lib/performance";
 
 interface PlaybackControlsProps {
   isPlaying: boolean;
@@ -10,9 +17,13 @@ interface PlaybackControlsProps {
   onStop: () => void;
   onTempoChange: (tempo: number) => void;
   onVolumeChange?: (volume: number) => void;
+  // Human expression added to playback and downloads: an amount from 0
+  // to 1 and the seed of its random deviations
+  onHumanizeChange?: (performance: PerformanceOptions) => void;
   onDownloadMidi: () => void;
   tempo: number;
   volume?: number;
+  humanize?: PerformanceOptions;
   disabled?: boolean;
 }
 
@@ -23,13 +34,17 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   onStop = () => {},
   onTempoChange = () => {},
   onVolumeChange = () => {},
+  onHumanizeChange = () => {},
   onDownloadMidi = () => {},
   tempo = 120,
   volume = 1.0,
+  humanize = { amount: DEFAULT_HUMANIZE_AMOUNT, seed: DEFAULT_PERFORMANCE_SEED },
   disabled = false,
 }) => {
   const [localTempo, setLocalTempo] = useState<number>(tempo);
   const [localVolume, setLocalVolume] = useState<number>(volume);
+  const [localHumanize, setLocalHumanize] = useState<number>(humanize.amount);
+  const [localSeed, setLocalSeed] = useState<string>(String(humanize.seed ?? DEFAULT_PERFORMANCE_SEED));
 
   // Update local values when props change
   useEffect(() => {
@@ -40,6 +55,11 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
     setLocalVolume(volume);
   }, [volume]);
 
+  useEffect(() => {
+    setLocalHumanize(humanize.amount);
+    setLocalSeed(String(humanize.seed ?? DEFAULT_PERFORMANCE_SEED));
+  }, [humanize]);
+
   const handleTempoChange = (value: number[]) => {
     const newTempo = value[0];
     setLocalTempo(newTempo);
@@ -52,6 +72,23 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
     onVolumeChange(newVolume);
   };
 
+  // Re-rendering the performance reloads the player, so it is only applied
+  // once the slider is released
+  const handleHumanizeCommit = (value: number[]) => {
+    onHumanizeChange({ ...humanize, amount: value[0] });
+  };
+
+  // A typed seed is applied when the field loses focus; anything but a
+  // positive whole number is put back to the current seed
+  const handleSeedCommit = () => {
+    const seed = Number(localSeed);
+    if (Number.isInteger(seed) && seed > 0) {
+      if (seed !== humanize.seed) onHumanizeChange({ ...humanize, seed });
+    } else {
+      setLocalSeed(String(humanize.seed ?? DEFAULT_PERFORMANCE_SEED));
+    }
+  };
+
   return (
     <div className="bg-background w-full p-4 rounded-lg border shadow-sm flex flex-col gap-4">
       <div className="flex items-center justify-center gap-4">
@@ -131,6 +168,50 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
         />
       </div>
 
+      <div className="flex items-center gap-4">
+        <span
+          className="text-sm font-medium min-w-16 flex items-center"
+          title="Phrase dynamics, accents, timing deviations, ritardandos at cadences and legato"
+        >
+          <Waves className="h-4 w-4 mr-1" />
+          Humanize: {Math.round(localHumanize * 100)}%
+        </span>
+        <Slider
+          defaultValue={[humanize.amount]}
+          min={0}
+          max={1}
+          step={0.05}
+          value={[localHumanize]}
+          onValueChange={(value) => setLocalHumanize(value[0])}
+          onValueCommit={handleHumanizeCommit}
+          className="flex-1"
+          disabled={disabled}
+        />
+        <Input
+          aria-label="Humanize seed"
+          title="Seed of the timing and loudness deviations; the same seed gives the same take"
+          inputMode="numeric"
+          value={localSeed}
+          onChange={(event) => setLocalSeed(event.target.value)}
+          onBlur={handleSeedCommit}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") handleSeedCommit();
+          }}
+          className="h-8 w-24"
+          disabled={disabled || localHumanize === 0}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onHumanizeChange({ ...humanize, seed: createPerformanceSeed() })}
+          aria-label="New take"
+          title="New take with a fresh seed"
+          disabled={disabled || localHumanize === 0}
+        >
+          <Dices className="h-4 w-4" />
+        </Button>
+      </div>
+
       <div className="flex justify-center">
         <Button
           variant="outline"
@@ -2,16 +2,45 @@ import React, { useState } from "react";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { Card, CardContent } from "./ui/card";
-import { Loader2 } from "lucide-react";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Loader2, Square } from "lucide-react";
+import { RequestStatus } from "@/services/providers";
+import { RequestStatusLine } from "./RequestProgress";
 
 interface PromptInputProps {
   onGenerate: (prompt: string) => Promise<void>;
   isGenerating?: boolean;
+  playWhileGenerating?: boolean;
+  onPlayWhileGeneratingChange?: (value: boolean) => void;
+  longForm?: boolean;
+  onLongFormChange?: (value: boolean) => void;
+  candidateCount?: number;
+  onCandidateCountChange?: (value: number) => void;
+  onCancel?: () => void;
+  status?: RequestStatus | null;
 }
 
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
 const PromptInput = ({
   onGenerate = async () => {},
   isGenerating = false,
+  playWhileGenerating = true,
+  onPlayWhileGeneratingChange = () => {},
+  longForm = false,
+  onLongFormChange = () => {},
+  candidateCount = 1,
+  onCandidateCountChange = () => {},
+  onCancel = () => {},
+  status = null,
 }: PromptInputProps) => {
   const [prompt, setPrompt] = useState<string>("");
   const [error, setError] = useState<string>("");
@@ -63,21 +92,82 @@ ${placeholderExamples.join("\n")}`;
             />
             {error && <p className="text-sm text-red-500">{error}</p>}
           </div>
-          <div className="flex justify-end">
-            <Button
-              type="submit"
-              disabled={isGenerating || !prompt.trim()}
-              className="px-6"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                "Generate Music"
-              )}
-            </Button>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="play-while-generating"
+                  checked={playWhileGenerating && !longForm && candidateCount === 1}
+                  onCheckedChange={onPlayWhileGeneratingChange}
+                  disabled={isGenerating || longForm || candidateCount > 1}
+                />
+                <Label htmlFor="play-while-generating" className="text-sm">
+                  Play while generating
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="long-form"
+                  checked={longForm}
+                  onCheckedChange={onLongFormChange}
+                  disabled={isGenerating}
+                />
+                <Label htmlFor="long-form" className="text-sm">
+                  Long form (section by section)
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={String(longForm ? 1 : candidateCount)}
+                  onValueChange={(value) => onCandidateCountChange(Number(value))}
+                  disabled={isGenerating || longForm}
+                >
+                  <SelectTrigger id="candidate-count" className="h-8 w-[70px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CANDIDATE_COUNTS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Label htmlFor="candidate-count" className="text-sm">
+                  {candidateCount === 1 || longForm ? "take" : "takes to compare"}
+                </Label>
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              <div className="flex items-center gap-2">
+                {isGenerating && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onCancel}
+                    className="flex items-center gap-2"
+                  >
+                    <Square className="h-3 w-3" />
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  disabled={isGenerating || !prompt.trim()}
+                  className="px-6"
+                >
+                  {isGenerating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    "Generate Music"
+                  )}
+                </Button>
+              </div>
+              {isGenerating && status && <RequestStatusLine status={status} />}
+            </div>
           </div>
         </form>
       </CardContent>
@@ -0,0 +1,204 @@
+import React, { useState } from "react";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { FileJson, Loader2, Play, Send } from "lucide-react";
+import { GenerationReport, NoteSequence } from "@/services/openai";
+import { ChatMessage } from "@/services/providers";
+import { Recipe } from "@/services/recipes";
+import {
+  formatKey,
+  getSequenceLengthInBeats,
+  inferKey,
+} from "@/lib/musicUtils";
+
+// A saved state of the piece that can be played and reverted to
+export interface CompositionVersion extends NoteSequence {
+  id: number;
+  label: string;
+  // How the version was generated, for export; absent for versions not
+  // made by a model
+  recipe?: Recipe;
+  // Loaded from the generation cache rather than requested
+  cached?: boolean;
+  // Corrections and removals made while validating the model's answer
+  validation?: Pick<GenerationReport, "fixed" | "dropped">;
+}
+
+interface RefinementPanelProps {
+  versions: CompositionVersion[];
+  currentVersionId: number | null;
+  // Refinement conversation so far: instructions and version summaries
+  history: ChatMessage[];
+  onRefine: (instruction: string) => Promise<void>;
+  onSelectVersion: (id: number) => void;
+  onPlayVersion: (id: number) => void;
+  onExportRecipe: (id: number) => void;
+  isRefining?: boolean;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = ["Slower and sadder", "Add a bass line", "End on the tonic"];
+
+const RefinementPanel = ({
+  versions = [],
+  currentVersionId = null,
+  history = [],
+  onRefine = async () => {},
+  onSelectVersion = () => {},
+  onPlayVersion = () => {},
+  onExportRecipe = () => {},
+  isRefining = false,
+  disabled = false,
+}: RefinementPanelProps) => {
+  const [instruction, setInstruction] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+
+    await onRefine(instruction.trim());
+    setInstruction("");
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="flex flex-col gap-3">
+        <ScrollArea className="h-56 rounded-md border p-3">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Ask for changes to the current version, for example "slower and
+              sadder", "add a bass line" or "end on the tonic".
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {history.map((message, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "rounded-md px-3 py-2 text-sm max-w-[85%]",
+                    message.role === "user"
+                      ? "self-end bg-primary text-primary-foreground"
+                      : "self-start bg-muted",
+                  )}
+                >
+                  {message.content}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTIONS.map((suggestion) => (
+            <Button
+              key={suggestion}
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={disabled || isRefining}
+              onClick={() => setInstruction(suggestion)}
+            >
+              {suggestion}
+            </Button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <Textarea
+            placeholder="Describe how to change the current version..."
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            className="min-h-[60px] resize-y"
+            disabled={disabled || isRefining}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            aria-label="Refine"
+            disabled={disabled || isRefining || !instruction.trim()}
+          >
+            {isRefining ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+          </Button>
+        </form>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <h3 className="text-sm font-medium">Versions</h3>
+        <ScrollArea className="h-72 rounded-md border">
+          <div className="flex flex-col">
+            {versions.map((version) => {
+              const isCurrent = version.id === currentVersionId;
+              const beats = getSequenceLengthInBeats(version.notes);
+              const seconds = Math.round((beats * 60) / version.tempo);
+
+              return (
+                <div
+                  key={version.id}
+                  className={cn(
+                    "flex items-center justify-between gap-2 border-b p-3 last:border-b-0",
+                    isCurrent && "bg-muted",
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">
+                        v{version.id}: {version.label}
+                      </span>
+                      {isCurrent && <Badge variant="secondary">Current</Badge>}
+                      {version.cached && <Badge variant="outline">Cached</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.notes.length} notes · {seconds}s ·{" "}
+                      {version.tempo} BPM · {formatKey(inferKey(version.notes))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {version.recipe && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Export recipe of version ${version.id}`}
+                        title="Export recipe"
+                        onClick={() => onExportRecipe(version.id)}
+                      >
+                        <FileJson className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Play version ${version.id}`}
+                      disabled={disabled || isRefining}
+                      onClick={() => onPlayVersion(version.id)}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={disabled || isRefining}
+                        onClick={() => onSelectVersion(version.id)}
+                      >
+                        Revert
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementPanel;
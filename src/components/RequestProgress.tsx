@@ -0,0 +1,58 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Square } from "lucide-react";
+import { RequestStatus, RetryReason } from "@/services/providers";
+
+interface RequestProgressProps {
+  status: RequestStatus | null;
+  onCancel: () => void;
+}
+
+const RETRY_REASONS: Record<RetryReason, string> = {
+  "rate-limited": "Rate limited",
+  "server-error": "Server error",
+  network: "Network problem",
+  timeout: "Timed out",
+};
+
+export const describeRequestStatus = (status: RequestStatus): string => {
+  switch (status.state) {
+    case "waiting":
+      return "Waiting for the provider...";
+    case "streaming":
+      return "Receiving notes...";
+    case "retrying":
+      return `${RETRY_REASONS[status.reason]}, retrying in ${Math.ceil(status.delayMs / 1000)}s (retry ${status.retry} of ${status.maxRetries})`;
+  }
+};
+
+export const RequestStatusLine = ({ status }: { status: RequestStatus }) => (
+  <p
+    className={
+      status.state === "retrying"
+        ? "text-xs text-amber-600"
+        : "text-xs text-muted-foreground"
+    }
+  >
+    {describeRequestStatus(status)}
+  </p>
+);
+
+// Cancel button and status line of a request started outside the prompt card
+const RequestProgress = ({ status, onCancel = () => {} }: RequestProgressProps) => (
+  <div className="flex items-center justify-end gap-2">
+    {status && <RequestStatusLine status={status} />}
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={onCancel}
+      className="flex items-center gap-2"
+    >
+      <Square className="h-3 w-3" />
+      Cancel
+    </Button>
+  </div>
+);
+
+export default RequestProgress;
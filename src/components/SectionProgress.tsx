@@ -0,0 +1,92 @@
+import React from "react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { CheckCircle2, Circle, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { FormPlan } from "@/services/formPlanner";
+
+export type SectionStatus = "pending" | "generating" | "done" | "failed";
+
+// Progress of one planned section of a long-form piece
+export interface SectionState {
+  status: SectionStatus;
+  error?: string;
+}
+
+interface SectionProgressProps {
+  plan: FormPlan;
+  sections: SectionState[];
+  onRetry: (index: number) => Promise<void>;
+  disabled?: boolean;
+}
+
+const STATUS_ICONS: Record<SectionStatus, React.ReactNode> = {
+  pending: <Circle className="h-4 w-4 text-muted-foreground" />,
+  generating: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+};
+
+const SectionProgress = ({
+  plan,
+  sections = [],
+  onRetry = async () => {},
+  disabled = false,
+}: SectionProgressProps) => {
+  const doneCount = sections.filter(({ status }) => status === "done").length;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">{plan.title}</p>
+          <p className="text-xs text-muted-foreground">
+            Form {plan.form} · {doneCount} of {plan.sections.length} sections written
+          </p>
+        </div>
+      </div>
+      <Progress value={(doneCount / plan.sections.length) * 100} />
+      <ul className="space-y-2">
+        {plan.sections.map((section, index) => {
+          const state = sections[index] ?? { status: "pending" };
+
+          return (
+            <li key={index} className="flex items-start justify-between gap-2">
+              <div className="flex items-start gap-2 min-w-0">
+                <span className="mt-0.5">{STATUS_ICONS[state.status]}</span>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{section.name}</span>
+                    <Badge variant="outline">{section.key}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {section.bars} bars · {section.tempo} BPM
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {state.status === "failed" && state.error
+                      ? state.error
+                      : section.description}
+                  </p>
+                </div>
+              </div>
+              {state.status === "failed" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRetry(index)}
+                  disabled={disabled}
+                  className="flex items-center gap-1"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Retry
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SectionProgress;
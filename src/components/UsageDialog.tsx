@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PROVIDER_IDS, ProviderId, getProvider } from "@/services/providers";
+import {
+  ModelPricing,
+  UsageTotals,
+  formatCost,
+  getLifetimeUsage,
+  getPricingTable,
+  getSessionRecords,
+  getSessionUsage,
+  getSpendingCap,
+  resetLifetimeUsage,
+  setModelPricing,
+  setSpendingCap,
+  subscribeToUsage,
+} from "@/services/usage";
+
+interface UsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Most recent calls listed for the session
+const RECENT_CALLS = 10;
+
+const UsageSummary = ({ title, totals }: { title: string; totals: UsageTotals }) => (
+  <div className="rounded-lg border p-3 space-y-1">
+    <p className="text-sm font-medium">{title}</p>
+    <p className="text-2xl font-semibold">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-muted-foreground">
+      {totals.requests} requests · {totals.promptTokens.toLocaleString()} prompt +{" "}
+      {totals.completionTokens.toLocaleString()} completion tokens
+      {totals.unpricedRequests > 0 && ` · ${totals.unpricedRequests} unpriced`}
+    </p>
+  </div>
+);
+
+// Editable price row; changes are saved when a field loses focus
+const PricingRow = ({
+  providerId,
+  model,
+  pricing,
+}: {
+  providerId: ProviderId;
+  model: string;
+  pricing: ModelPricing;
+}) => {
+  const [input, setInput] = useState(String(pricing.inputPerMillion));
+  const [output, setOutput] = useState(String(pricing.outputPerMillion));
+
+  const save = () => {
+    const inputPerMillion = Number(input);
+    const outputPerMillion = Number(output);
+    if (!isFinite(inputPerMillion) || !isFinite(outputPerMillion)) return;
+    if (inputPerMillion === pricing.inputPerMillion && outputPerMillion === pricing.outputPerMillion) return;
+    setModelPricing(providerId, model, { inputPerMillion, outputPerMillion });
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="text-xs">{getProvider(providerId).name}</TableCell>
+      <TableCell className="text-xs font-mono">{model === "*" ? "any model" : model}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onBlur={save}
+          className="h-8 w-24"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          value={output}
+          onChange={(e) => setOutput(e.target.value)}
+          onBlur={save}
+          className="h-8 w-24"
+        />
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const UsageDialog: React.FC<UsageDialogProps> = ({ open, onOpenChange }) => {
+  // Re-render whenever usage, prices or the cap change
+  const [, setRevision] = useState(0);
+  useEffect(() => subscribeToUsage(() => setRevision((revision) => revision + 1)), []);
+
+  const [capInput, setCapInput] = useState("");
+  const [newProviderId, setNewProviderId] = useState<ProviderId>("openai");
+  const [newModel, setNewModel] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      const cap = getSpendingCap();
+      setCapInput(cap === null ? "" : String(cap));
+    }
+  }, [open]);
+
+  const cap = getSpendingCap();
+  const lifetime = getLifetimeUsage();
+  const recentCalls = getSessionRecords().slice(-RECENT_CALLS).reverse();
+  const pricingTable = getPricingTable();
+
+  const handleSaveCap = () => {
+    const value = Number(capInput);
+    setSpendingCap(capInput.trim() && isFinite(value) && value >= 0 ? value : null);
+  };
+
+  const handleAddModel = () => {
+    const model = newModel.trim();
+    if (!model) return;
+    setModelPricing(newProviderId, model, { inputPerMillion: 0, outputPerMillion: 0 });
+    setNewModel("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Usage and Cost</DialogTitle>
+          <DialogDescription>
+            Token counts reported by the provider and estimated cost in US
+            dollars. Prices are per million tokens and can be edited below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-3">
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <UsageSummary title="This session" totals={getSessionUsage()} />
+              <UsageSummary title="All time" totals={lifetime} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="spending-cap">Spending cap (US$, all time)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="spending-cap"
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  placeholder="No cap"
+                  value={capInput}
+                  onChange={(e) => setCapInput(e.target.value)}
+                  className="w-32"
+                />
+                <Button variant="outline" size="sm" onClick={handleSaveCap}>
+                  Save cap
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setCapInput("");
+                    setSpendingCap(null);
+                  }}
+                  disabled={cap === null}
+                >
+                  Clear
+                </Button>
+                <Button variant="ghost" size="sm" onClick={resetLifetimeUsage}>
+                  Reset all-time usage
+                </Button>
+              </div>
+              {cap !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {lifetime.cost >= cap
+                    ? "The cap is reached: generation is blocked until it is raised, cleared or usage is reset."
+                    : `${formatCost(cap - lifetime.cost)} left before generation is blocked.`}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Recent requests</p>
+              {recentCalls.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No requests yet this session.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Tokens (in / out)</TableHead>
+                      <TableHead>Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentCalls.map((record) => (
+                      <TableRow key={record.timestamp + record.model}>
+                        <TableCell className="text-xs">
+                          {new Date(record.timestamp).toLocaleTimeString()}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">{record.model}</TableCell>
+                        <TableCell className="text-xs">
+                          {record.promptTokens.toLocaleString()} / {record.completionTokens.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {record.cost === null ? "unknown" : formatCost(record.cost)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Pricing (US$ per million tokens)</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead>Input</TableHead>
+                    <TableHead>Output</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PROVIDER_IDS.flatMap((providerId) =>
+                    Object.entries(pricingTable[providerId] ?? {}).map(([model, pricing]) => (
+                      <PricingRow
+                        key={`${providerId}:${model}:${pricing.inputPerMillion}:${pricing.outputPerMillion}`}
+                        providerId={providerId}
+                        model={model}
+                        pricing={pricing}
+                      />
+                    )),
+                  )}
+                </TableBody>
+              </Table>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={newProviderId}
+                  onValueChange={(value) => setNewProviderId(value as ProviderId)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_IDS.map((providerId) => (
+                      <SelectItem key={providerId} value={providerId}>
+                        {getProvider(providerId).name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Model name"
+                  value={newModel}
+                  onChange={(e) => setNewModel(e.target.value)}
+                  className="flex-1"
+                />
+                <Button variant="outline" size="sm" onClick={handleAddModel} disabled={!newModel.trim()}>
+                  Add price
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UsageDialog;
@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { Button } from "./ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "./ui/collapsible";
+import { ChevronDown, ClipboardCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { summarizeValidation } from "@/services/compositionSchema";
+import type { GenerationReport, ValidationIssue } from "@/services/openai";
+
+interface ValidationReportProps {
+  // Corrections and removals made while validating the model's answer
+  validation: Pick<GenerationReport, "fixed" | "dropped">;
+}
+
+const IssueList = ({ title, issues }: { title: string; issues: ValidationIssue[] }) => (
+  <div className="space-y-1">
+    <p className="font-medium">{title}</p>
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li key={`${issue.path}-${index}`} className="flex gap-2">
+          <code className="shrink-0 text-muted-foreground">{issue.path}</code>
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const ValidationReport = ({ validation }: ValidationReportProps) => {
+  const [open, setOpen] = useState(false);
+  const summary = summarizeValidation(validation);
+
+  if (!summary) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full flex items-center justify-between px-4"
+        >
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            {summary.charAt(0).toUpperCase() + summary.slice(1)}
+          </span>
+          <ChevronDown
+            className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+          />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 p-4 pt-2 text-xs max-h-64 overflow-y-auto">
+        {validation.fixed.length > 0 && (
+          <IssueList title="Corrected" issues={validation.fixed} />
+        )}
+        {validation.dropped.length > 0 && (
+          <IssueList title="Dropped" issues={validation.dropped} />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ValidationReport;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   Card,
   CardContent,
@@ -11,14 +11,63 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
 import PianoKeyboard from "./PianoKeyboard";
 import PromptInput from "./PromptInput";
+import RequestProgress from "./RequestProgress";
 import PlaybackControls from "./PlaybackControls";
 import ApiKeyModal from "./ApiKeyModal";
-import { Music, Sparkles, Github } from "lucide-react";
+import ContinuationControls from "./ContinuationControls";
+import AccompanimentPanel from "./AccompanimentPanel";
+import RefinementPanel, { CompositionVersion } from "./RefinementPanel";
+import SectionProgress, { SectionState } from "./SectionProgress";
+import CandidateList, { Candidate } from "./CandidateList";
+import GenerationSettings, {
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationSettingsValue,
+} from "./GenerationSettings";
+import UsageDialog from "./UsageDialog";
+import AbcImportDialog from "./AbcImportDialog";
+import GenerationErrorAlert from "./GenerationErrorAlert";
+import ValidationReport from "./ValidationReport";
+import KeyDetection from "./KeyDetection";
+import ChordTimeline from "./ChordTimeline";
+import { Music, Sparkles, Github, Settings, Coins, FileText } from "lucide-react";
 import { 
   generateMusicFromPrompt, 
-  hasApiKey, 
-  downloadMidiFromNoteSequence 
+  generateCandidates,
+  continueComposition,
+  refineComposition,
+  downloadMidiFromNoteSequence,
+  GenerateOptions,
+  GenerationReport,
+  Note,
+  NoteSequence,
+  SectionMarker,
+  TimeSignature,
 } from "@/services/openai";
+import {
+  FormPlan,
+  generateSection,
+  planLongForm,
+  stitchSections,
+} from "@/services/formPlanner";
+import {
+  ChatMessage,
+  RequestStatus,
+  getActiveProviderId,
+  getProvider,
+  isProviderConfigured,
+} from "@/services/providers";
+import { isAbortError } from "@/services/providers/http";
+import {
+  ACCOMPANIMENT_STYLES,
+  AccompanimentStyle,
+  generateAccompaniment,
+} from "@/services/accompaniment";
+import {
+  GenerationError,
+  InvalidNotesError,
+  RecoveryAction,
+  toGenerationError,
+} from "@/services/generationErrors";
 import {
   loadNoteSequence,
   playMidi,
@@ -26,29 +75,241 @@ import {
   stopMidi,
   setMidiTempo,
   isMidiPlaying,
+  getPlaybackBeat,
   cleanupMidiPlayer,
   setNoteTrackingCallback,
+  beginStreamingSequence,
+  appendNotes,
+  finishStreamingSequence,
+  ActiveNote,
   setVolume as setMidiVolume,
-  getVolume
+  getVolume,
+  setPerformanceOptions,
+  getPerformanceOptions,
 } from "@/services/midiPlayer";
+import { summarizeGenerationReport } from "@/services/compositionSchema";
+import { MOODS, composeWithRules, resolveRuleOptions } from "@/services/ruleComposer";
+import {
+  CorpusTune,
+  arrangeTune,
+  buildTuneReferencePrompt,
+  findTuneInPrompt,
+} from "@/services/tuneCorpus";
 import {
-  validateNotes,
+  CompositionRecipe,
+  buildLongFormRecipe,
+  downloadRecipe,
+} from "@/services/recipes";
+import {
+  formatCost,
+  formatUsage,
+  getSessionUsage,
+  subscribeToUsage,
+} from "@/services/usage";
+import { HarmonyResolution, analyzeHarmony } from "@/lib/harmony";
+import {
+  detectKey,
+  formatKey,
+  getScalePitchClasses,
+  getSequenceLengthInBeats,
+  inferKey,
 } from "@/lib/musicUtils";
+import { AbcTune } from "@/lib/abcNotation";
+import { PerformanceOptions } from "@/lib/performance";
+
+// Beats of streamed music to buffer before progressive playback starts
+const STREAM_START_BEATS = 2;
+// Repair attempts allowed when retrying an unreadable or unusable answer
+const EXTRA_REPAIR_ATTEMPTS = 4;
 
 export default function Home() {
   const { toast } = useToast();
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isContinuing, setIsContinuing] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [generatedNotes, setGeneratedNotes] = useState<string[]>([]);
-  const [currentNote, setCurrentNote] = useState<string | null>(null);
+  const [generatedNotes, setGeneratedNotes] = useState<Note[]>([]);
+  const [activeNotes, setActiveNotes] = useState<ActiveNote[]>([]);
   const [tempo, setTempo] = useState(120);
+  const [sections, setSections] = useState<SectionMarker[] | undefined>(undefined);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature | undefined>(undefined);
+  const [showScale, setShowScale] = useState(false);
+  const [harmonyResolution, setHarmonyResolution] = useState<HarmonyResolution>("bar");
+  const [playbackBeat, setPlaybackBeat] = useState<number | null>(null);
   const [volume, setVolumeState] = useState(getVolume());
+  const [humanize, setHumanize] = useState<PerformanceOptions>(getPerformanceOptions());
   const [apiKeyModalOpen, setApiKeyModalOpen] = useState(false);
-  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [activeProviderId, setActiveProviderId] = useState(getActiveProviderId());
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  // Re-runs the request that failed, with changed options if needed
+  const retryFailed = useRef<((overrides?: GenerateOptions) => Promise<void>) | null>(null);
+  const [playWhileGenerating, setPlayWhileGenerating] = useState(true);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isAccompanying, setIsAccompanying] = useState(false);
+  const [melodyText, setMelodyText] = useState("");
+  const [recordingMelody, setRecordingMelody] = useState(false);
+  const [versions, setVersions] = useState<CompositionVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<number | null>(null);
+  const [refinementHistory, setRefinementHistory] = useState<ChatMessage[]>([]);
+  const nextVersionId = useRef(1);
+  const [settings, setSettings] = useState<GenerationSettingsValue>(DEFAULT_GENERATION_SETTINGS);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidatePrompt, setCandidatePrompt] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [auditioningId, setAuditioningId] = useState<number | null>(null);
+  const [usageDialogOpen, setUsageDialogOpen] = useState(false);
+  const [abcDialogOpen, setAbcDialogOpen] = useState(false);
+  const [sessionCost, setSessionCost] = useState(getSessionUsage().cost);
+  const [requestStatus, setRequestStatus] = useState<RequestStatus | null>(null);
+  // Cancels the generation in progress
+  const abortController = useRef<AbortController | null>(null);
+
+  // Keep the session cost shown in the header up to date
+  useEffect(() => {
+    return subscribeToUsage(() => setSessionCost(getSessionUsage().cost));
+  }, []);
+  const [longForm, setLongForm] = useState(false);
+  const [formPrompt, setFormPrompt] = useState("");
+  const [formPlan, setFormPlan] = useState<FormPlan | null>(null);
+  const [sectionStates, setSectionStates] = useState<SectionState[]>([]);
+  // Notes of each written section, timed from the section's own start
+  const sectionNotes = useRef<Array<Note[] | null>>([]);
+  // How each written section was generated, and whether it came from the cache
+  const sectionOrigins = useRef<
+    Array<{ recipe: CompositionRecipe; cached: boolean; validation: GenerationReport } | null>
+  >([]);
+
+  // Record a new version of the piece and make it the current one.
+  // A fresh generation starts a new version history and conversation.
+  const addVersion = (
+    label: string,
+    sequence: NoteSequence,
+    reset = false,
+    origin: Pick<CompositionVersion, "recipe" | "cached" | "validation"> = {},
+  ) => {
+    if (reset) {
+      nextVersionId.current = 1;
+      setRefinementHistory([]);
+    }
+
+    const version: CompositionVersion = {
+      ...sequence,
+      ...origin,
+      id: nextVersionId.current++,
+      label,
+    };
+
+    setVersions((previous) => (reset ? [version] : [...previous, version]));
+    setCurrentVersionId(version.id);
+    return version;
+  };
+
+  const currentVersion = versions.find((version) => version.id === currentVersionId);
+
+  // Likely keys of the loaded piece, for display and the keyboard's scale overlay
+  const keyCandidates = useMemo(() => detectKey(generatedNotes), [generatedNotes]);
+  const harmony = useMemo(
+    () =>
+      keyCandidates.length > 0
+        ? analyzeHarmony(generatedNotes, keyCandidates[0].key, timeSignature, harmonyResolution)
+        : null,
+    [generatedNotes, keyCandidates, timeSignature, harmonyResolution],
+  );
 
-  // Check if API key is set on component mount
+  // Model and sampling settings shared by every request; the musical
+  // constraints only apply to new pieces
+  const generationOptions = {
+    model: settings.model.trim() || undefined,
+    temperature: settings.temperature,
+    timeoutMs: settings.timeoutSeconds * 1000,
+    maxRetries: settings.maxRetries,
+    bypassCache: !settings.useCache,
+    responseFormat: settings.responseFormat,
+  };
+
+  // Options for a generation the Cancel button can stop, with its
+  // progress reported to the card that started it. A request still in
+  // flight is cancelled, so its answer cannot replace the newer one.
+  const startCancellableRequest = (overrides?: GenerateOptions) => {
+    abortController.current?.abort();
+    const controller = new AbortController();
+    abortController.current = controller;
+    setRequestStatus(null);
+    return {
+      ...generationOptions,
+      ...overrides,
+      signal: controller.signal,
+      onStatus: (status: RequestStatus) => {
+        if (abortController.current === controller) setRequestStatus(status);
+      },
+    };
+  };
+
+  // Clear the progress of a finished request, unless a newer one has
+  // taken its place
+  const finishCancellableRequest = (options: { signal: AbortSignal }) => {
+    if (abortController.current?.signal !== options.signal) return;
+    abortController.current = null;
+    setRequestStatus(null);
+  };
+
+  const handleCancel = () => {
+    abortController.current?.abort();
+  };
+
+  // Explain a failed request and remember how to run it again
+  const reportError = (
+    error: unknown,
+    title: string,
+    retry: (overrides?: GenerateOptions) => Promise<void>,
+  ) => {
+    const classified = toGenerationError(error);
+    console.error(`${title}:`, classified.detail ?? classified.message);
+    retryFailed.current = retry;
+    setGenerationError(classified);
+    toast({
+      variant: "destructive",
+      title,
+      description: classified.message,
+    });
+  };
+
+  const handleRecover = async (action: RecoveryAction) => {
+    const retry = retryFailed.current;
+    switch (action) {
+      case "open-settings":
+        setApiKeyModalOpen(true);
+        break;
+      case "open-usage":
+        setUsageDialogOpen(true);
+        break;
+      case "switch-model":
+        // Without a custom model to drop, the provider itself must change
+        if (!settings.model.trim()) {
+          setApiKeyModalOpen(true);
+          break;
+        }
+        setSettings((previous) => ({ ...previous, model: "" }));
+        await retry?.({ model: undefined });
+        break;
+      case "retry":
+        await retry?.();
+        break;
+      case "retry-with-repair":
+        await retry?.({ maxRepairAttempts: EXTRA_REPAIR_ATTEMPTS });
+        break;
+    }
+  };
+
+  const showCancelled = () => {
+    toast({
+      title: "Generation Cancelled",
+      description: "The request was stopped before the piece was finished.",
+    });
+  };
+
+  // Check if the AI provider is set up on component mount
   useEffect(() => {
-    if (!hasApiKey()) {
+    if (!isProviderConfigured(getActiveProviderId())) {
       setApiKeyModalOpen(true);
     }
   }, []);
@@ -62,9 +323,9 @@ export default function Home() {
 
   // Set up note tracking for piano visualization
   useEffect(() => {
-    // Set the callback function to update the current note
-    setNoteTrackingCallback((note) => {
-      setCurrentNote(note);
+    // Set the callback function to update the sounding notes
+    setNoteTrackingCallback((notes) => {
+      setActiveNotes(notes);
     });
 
     // Clean up the callback when component unmounts
@@ -79,7 +340,7 @@ export default function Home() {
       // If we're marked as playing but MIDI player reports not playing
       if (isPlaying && !isMidiPlaying()) {
         setIsPlaying(false);
-        setCurrentNote(null);
+        setActiveNotes([]);
       }
     };
 
@@ -91,58 +352,767 @@ export default function Home() {
     };
   }, [isPlaying]);
 
-  const handleGenerate = async (prompt: string) => {
-    // Check if API key is set
-    if (!hasApiKey()) {
-      setApiKeyModalOpen(true);
+  // Follow the playback position so the chord timeline can mark the
+  // sounding chord
+  useEffect(() => {
+    if (!isPlaying) {
+      setPlaybackBeat(null);
+      return;
+    }
+
+    const intervalId = setInterval(() => setPlaybackBeat(getPlaybackBeat()), 100);
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [isPlaying]);
+
+  const handleGenerate = async (prompt: string, overrides?: GenerateOptions) => {
+    // Without a configured provider, compose offline instead
+    if (!isProviderConfigured(getActiveProviderId())) {
+      await handleComposeOffline(prompt);
+      return;
+    }
+
+    // A tune from the tune library is played from its real melody
+    const knownTune = settings.knownTunes === "off" ? null : findTuneInPrompt(prompt);
+    if (knownTune && settings.knownTunes === "arrange") {
+      await handleArrangeTune(prompt, knownTune, overrides);
+      return;
+    }
+
+    if (longForm) {
+      await handleGenerateLongForm(prompt, overrides);
+      return;
+    }
+
+    if (candidateCount > 1) {
+      await handleGenerateCandidates(prompt, overrides);
       return;
     }
 
     setIsGenerating(true);
+    setFormPlan(null);
+    setCandidates([]);
     setGenerationError(null);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    // Notes streamed so far, and whether progressive playback has started.
+    // Player updates are chained so they run in arrival order.
+    const streamedNotes: Note[] = [];
+    let streamStarted = false;
+    let streamQueue = Promise.resolve();
+
+    const handlePartialNotes = (notes: Note[], streamTempo: number | undefined) => {
+      streamedNotes.push(...notes);
+      streamQueue = streamQueue.then(async () => {
+        if (streamStarted) {
+          appendNotes(notes);
+          setGeneratedNotes([...streamedNotes]);
+          return;
+        }
+
+        // Wait for a little material before starting, to avoid stalling
+        if (getSequenceLengthInBeats(streamedNotes) < STREAM_START_BEATS) return;
+
+        streamStarted = true;
+        const streamingTempo = streamTempo ?? tempo;
+        setTempo(streamingTempo);
+        setGeneratedNotes([...streamedNotes]);
+        await beginStreamingSequence({ notes: [...streamedNotes], tempo: streamingTempo });
+        await playMidi();
+        setIsPlaying(true);
+      }).catch((error) => {
+        console.error("Error during progressive playback:", error);
+      });
+    };
 
     try {
-      // Call OpenAI API to generate music
-      const result = await generateMusicFromPrompt(prompt);
+      // Call the AI provider to generate music
+      const result = await generateMusicFromPrompt(
+        knownTune ? buildTuneReferencePrompt(prompt, knownTune) : prompt,
+        {
+          ...requestOptions,
+          constraints: settings.constraints,
+          onPartialNotes: playWhileGenerating ? handlePartialNotes : undefined,
+        },
+      );
 
-      // Validate the notes
-      const validNotes = validateNotes(result.notes);
+      // The service has already validated (and if needed repaired) the notes
+      const validNotes = result.notes;
 
       if (validNotes.length === 0) {
-        throw new Error("No valid notes were generated");
+        throw new InvalidNotesError(getProvider(getActiveProviderId()).name);
       }
 
       // Update state with generated notes and tempo
       setGeneratedNotes(validNotes);
       setTempo(result.tempo);
+      setSections(undefined);
+      setTimeSignature(result.timeSignature);
+      addVersion(
+        prompt,
+        { notes: validNotes, tempo: result.tempo, timeSignature: result.timeSignature },
+        true,
+        { recipe: result.recipe, cached: result.report.cacheHit, validation: result.report },
+      );
 
-      // Load the note sequence into the MIDI player
-      await loadNoteSequence({
-        notes: validNotes,
-        tempo: result.tempo
+      await streamQueue;
+      if (streamStarted) {
+        // Swap in the final, fully validated sequence without interrupting playback
+        finishStreamingSequence({
+          notes: validNotes,
+          tempo: result.tempo,
+          timeSignature: result.timeSignature,
+        });
+      } else {
+        // Load the note sequence into the MIDI player
+        await loadNoteSequence({
+          notes: validNotes,
+          tempo: result.tempo,
+          timeSignature: result.timeSignature
+        });
+      }
+
+      toast({
+        title: "Music Generated",
+        description: [
+          `Created ${validNotes.length} notes at ${result.tempo} BPM`,
+          knownTune && `Melody of ${knownTune.title} from the tune library`,
+          summarizeGenerationReport(result.report),
+          formatUsage(result.report.usage),
+        ].filter(Boolean).join(". "),
       });
+    } catch (error) {
+      await streamQueue;
+      if (streamStarted) {
+        finishStreamingSequence();
+      }
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Generation Failed", (retryOverrides) => handleGenerate(prompt, retryOverrides));
+    } finally {
+      setIsGenerating(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  // Write a piece with the rule-based composer, which needs no API key.
+  // The key, meter and length settings apply as they do to the model.
+  const handleComposeOffline = async (prompt: string) => {
+    handleStop();
+    setGenerationError(null);
+    setCandidates([]);
+    setFormPlan(null);
+
+    const { constraints } = settings;
+    const options = {
+      tonic: constraints.tonic,
+      mode: constraints.mode,
+      timeSignature: constraints.timeSignature,
+      bars: constraints.lengthBars,
+    };
+    const choices = resolveRuleOptions(prompt, options);
+    const piece = composeWithRules(prompt, {
+      ...options,
+      tempo: Math.min(
+        constraints.maxTempo ?? choices.tempo,
+        Math.max(constraints.minTempo ?? choices.tempo, choices.tempo),
+      ),
+    });
+
+    setGeneratedNotes(piece.notes);
+    setTempo(piece.tempo);
+    setSections(undefined);
+    setTimeSignature(piece.timeSignature);
+    addVersion(`${prompt} (offline)`, piece, true);
+
+    try {
+      await loadNoteSequence(piece);
+
+      toast({
+        title: "Composed Offline",
+        description: `No AI provider is set up, so the built-in composer wrote ${choices.bars} bars in ${choices.tonic} ${choices.mode} at ${piece.tempo} BPM (${MOODS[choices.mood].label.toLowerCase()}). Add an API key for AI compositions.`,
+      });
+    } catch (error) {
+      reportError(error, "Offline Composition Failed", () => handleComposeOffline(prompt));
+    }
+  };
+
+  // Keep a library tune's melody note for note and have the model write
+  // only the accompaniment the prompt describes
+  const handleArrangeTune = async (
+    prompt: string,
+    tune: CorpusTune,
+    overrides?: GenerateOptions,
+  ) => {
+    setIsGenerating(true);
+    setFormPlan(null);
+    setCandidates([]);
+    setGenerationError(null);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const result = await arrangeTune(tune, prompt, requestOptions);
+
+      setGeneratedNotes(result.notes);
+      setTempo(result.tempo);
+      setSections(undefined);
+      setTimeSignature(result.timeSignature);
+      addVersion(
+        prompt,
+        { notes: result.notes, tempo: result.tempo, timeSignature: result.timeSignature },
+        true,
+        { recipe: result.recipe, cached: result.report.cacheHit, validation: result.report },
+      );
+      await loadNoteSequence(result);
 
       toast({
         title: "Music Generated",
-        description: `Created ${validNotes.length} notes at ${result.tempo} BPM`,
+        description: [
+          `Arranged ${tune.title} from the tune library: ${result.notes.length} notes at ${result.tempo} BPM`,
+          summarizeGenerationReport(result.report),
+          formatUsage(result.report.usage),
+        ].filter(Boolean).join(". "),
       });
     } catch (error) {
-      console.error("Error generating music:", error);
-      setGenerationError(
-        error instanceof Error
-          ? error.message
-          : "Failed to generate music. Please try again.",
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Generation Failed", (retryOverrides) =>
+        handleArrangeTune(prompt, tune, retryOverrides),
+      );
+    } finally {
+      setIsGenerating(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  // Write one planned section, with the sections before it as context.
+  // Returns why the section failed, or null once it is written.
+  const writeSection = async (
+    prompt: string,
+    plan: FormPlan,
+    index: number,
+    options: GenerateOptions,
+  ): Promise<GenerationError | null> => {
+    const updateState = (state: SectionState) => {
+      setSectionStates((previous) =>
+        previous.map((current, i) => (i === index ? state : current)),
       );
+    };
+
+    updateState({ status: "generating" });
+    try {
+      const previousNotes = stitchSections(
+        plan,
+        sectionNotes.current.map((notes, i) => (i < index ? notes : null)),
+      ).notes;
+      const result = await generateSection(prompt, plan, index, previousNotes, options);
+
+      sectionNotes.current[index] = result.notes;
+      sectionOrigins.current[index] = {
+        recipe: result.recipe,
+        cached: result.report.cacheHit,
+        validation: result.report,
+      };
+      updateState({ status: "done" });
+      return null;
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateState({ status: "pending" });
+        throw error;
+      }
+      const failure = toGenerationError(error);
+      console.error(`Error generating section ${index + 1}:`, failure.detail ?? failure.message);
+      updateState({ status: "failed", error: failure.message });
+      return failure;
+    }
+  };
+
+  // Stitch the written sections into the current piece
+  const loadStitchedSections = async (
+    prompt: string,
+    plan: FormPlan,
+    label: string,
+    reset: boolean,
+  ) => {
+    const stitched = stitchSections(plan, sectionNotes.current);
+    if (stitched.notes.length === 0) {
+      throw new InvalidNotesError(getProvider(getActiveProviderId()).name, "No section could be generated");
+    }
+
+    setGeneratedNotes(stitched.notes);
+    setTempo(stitched.tempo);
+    setSections(stitched.sections);
+    setTimeSignature(undefined);
+    const origins = sectionOrigins.current;
+    addVersion(label, stitched, reset, {
+      recipe: buildLongFormRecipe(prompt, plan, origins.map((origin) => origin?.recipe ?? null)),
+      cached: origins.every((origin) => !origin || origin.cached),
+      // Issue paths are prefixed with their section, as each section's
+      // events are numbered from zero
+      validation: {
+        fixed: origins.flatMap((origin, index) =>
+          (origin?.validation.fixed ?? []).map((issue) => ({ ...issue, path: `sections[${index}].${issue.path}` })),
+        ),
+        dropped: origins.flatMap((origin, index) =>
+          (origin?.validation.dropped ?? []).map((issue) => ({ ...issue, path: `sections[${index}].${issue.path}` })),
+        ),
+      },
+    });
+    await loadNoteSequence(stitched);
+  };
+
+  const handleGenerateLongForm = async (prompt: string, overrides?: GenerateOptions) => {
+    setIsGenerating(true);
+    setGenerationError(null);
+    setFormPlan(null);
+    setCandidates([]);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const plan = await planLongForm(prompt, requestOptions);
+      setFormPrompt(prompt);
+      setFormPlan(plan);
+      setSectionStates(plan.sections.map(() => ({ status: "pending" })));
+      sectionNotes.current = plan.sections.map(() => null);
+      sectionOrigins.current = plan.sections.map(() => null);
+
+      // Sections are written in order, each building on the ones before
+      const failures: GenerationError[] = [];
+      for (let index = 0; index < plan.sections.length; index++) {
+        const failure = await writeSection(prompt, plan, index, requestOptions);
+        if (failure) failures.push(failure);
+      }
+      const failed = failures.length;
+      if (failed === plan.sections.length) {
+        throw failures[0];
+      }
+
+      await loadStitchedSections(prompt, plan, prompt, true);
+
       toast({
-        variant: "destructive",
-        title: "Generation Failed",
-        description: "Could not generate music from your prompt.",
+        variant: failed > 0 ? "destructive" : "default",
+        title: failed > 0 ? "Some Sections Failed" : "Music Generated",
+        description: failed > 0
+          ? `${failed} of ${plan.sections.length} sections failed; retry them below.`
+          : `Created ${plan.sections.length} sections in ${plan.form} form`,
       });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Generation Failed", (retryOverrides) =>
+        handleGenerateLongForm(prompt, retryOverrides),
+      );
     } finally {
       setIsGenerating(false);
+      finishCancellableRequest(requestOptions);
     }
   };
 
+  const handleRetrySection = async (index: number, overrides?: GenerateOptions) => {
+    if (!formPlan) return;
+
+    setIsGenerating(true);
+    setGenerationError(null);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const failure = await writeSection(formPrompt, formPlan, index, requestOptions);
+      if (failure) {
+        throw failure;
+      }
+
+      await loadStitchedSections(
+        formPrompt,
+        formPlan,
+        `Rewrote section ${formPlan.sections[index].name}`,
+        versions.length === 0,
+      );
+      toast({
+        title: "Section Generated",
+        description: `Section ${index + 1} (${formPlan.sections[index].name}) is in place.`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Section Failed", (retryOverrides) =>
+        handleRetrySection(index, retryOverrides),
+      );
+    } finally {
+      setIsGenerating(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  // Load a take into the player so the playback controls audition it
+  const loadCandidate = async (candidate: Candidate) => {
+    const { composition } = candidate;
+    if (!composition) return;
+
+    handleStop();
+    setAuditioningId(candidate.id);
+    setGeneratedNotes(composition.notes);
+    setTempo(composition.tempo);
+    setSections(undefined);
+    setTimeSignature(composition.timeSignature);
+    await loadNoteSequence(composition);
+  };
+
+  const handleGenerateCandidates = async (prompt: string, overrides?: GenerateOptions) => {
+    setIsGenerating(true);
+    setGenerationError(null);
+    setFormPlan(null);
+    setCandidates([]);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const results = await generateCandidates(prompt, candidateCount, {
+        ...requestOptions,
+        constraints: settings.constraints,
+      });
+
+      const takes: Candidate[] = results.map((result, index) =>
+        result.status === "fulfilled"
+          ? { id: index + 1, composition: result.value }
+          : {
+              id: index + 1,
+              error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+            },
+      );
+      const succeeded = takes.filter(({ composition }) => composition);
+      if (succeeded.length === 0) {
+        // Every take failed; report the first failure with its kind
+        throw (results[0] as PromiseRejectedResult).reason;
+      }
+
+      // The previous piece's versions no longer apply; a new history
+      // starts when one of the takes is kept
+      setVersions([]);
+      setCurrentVersionId(null);
+      setRefinementHistory([]);
+      setCandidatePrompt(prompt);
+      setCandidates(takes);
+      await loadCandidate(succeeded[0]);
+
+      toast({
+        title: "Candidates Ready",
+        description: `${succeeded.length} of ${candidateCount} takes generated. Audition them and keep one.`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Generation Failed", (retryOverrides) =>
+        handleGenerateCandidates(prompt, retryOverrides),
+      );
+    } finally {
+      setIsGenerating(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  const handleAuditionCandidate = async (id: number) => {
+    const candidate = candidates.find((c) => c.id === id);
+    if (!candidate) return;
+
+    await loadCandidate(candidate);
+    try {
+      await playMidi();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error("Error playing MIDI:", error);
+    }
+  };
+
+  const handleKeepCandidate = async (id: number) => {
+    const candidate = candidates.find((c) => c.id === id);
+    if (!candidate?.composition) return;
+
+    if (auditioningId !== id) {
+      await loadCandidate(candidate);
+    }
+    const {
+      notes,
+      tempo: candidateTempo,
+      timeSignature: candidateMeter,
+      recipe,
+      report,
+    } = candidate.composition;
+    addVersion(
+      candidatePrompt,
+      { notes, tempo: candidateTempo, timeSignature: candidateMeter },
+      true,
+      { recipe, cached: report.cacheHit, validation: report },
+    );
+    setCandidates([]);
+    setAuditioningId(null);
+
+    toast({
+      title: "Take Kept",
+      description: `Take ${id} is now the current piece.`,
+    });
+  };
+
+  const handleContinue = async (bars: number, overrides?: GenerateOptions) => {
+    if (generatedNotes.length === 0) return;
+
+    // Check if the AI provider is set up
+    if (!isProviderConfigured(getActiveProviderId())) {
+      setApiKeyModalOpen(true);
+      return;
+    }
+
+    setIsContinuing(true);
+    setGenerationError(null);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const previousCount = generatedNotes.length;
+      const result = await continueComposition(
+        { notes: generatedNotes, tempo, sections, timeSignature },
+        { ...requestOptions, bars },
+      );
+
+      setGeneratedNotes(result.notes);
+      const extended = {
+        notes: result.notes,
+        tempo: result.tempo,
+        sections: result.sections,
+        timeSignature: result.timeSignature,
+      };
+      addVersion(`Extended by ${bars} bars`, extended, false, {
+        recipe: result.recipe,
+        cached: result.report.cacheHit,
+        validation: result.report,
+      });
+      await loadNoteSequence(extended);
+
+      toast({
+        title: "Piece Extended",
+        description: [
+          `Added ${result.notes.length - previousCount} notes (${bars} bars)`,
+          summarizeGenerationReport(result.report),
+          formatUsage(result.report.usage),
+        ].filter(Boolean).join(". "),
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Continuation Failed", (retryOverrides) =>
+        handleContinue(bars, retryOverrides),
+      );
+    } finally {
+      setIsContinuing(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  const handleRefine = async (instruction: string, overrides?: GenerateOptions) => {
+    if (generatedNotes.length === 0) return;
+
+    // Check if the AI provider is set up
+    if (!isProviderConfigured(getActiveProviderId())) {
+      setApiKeyModalOpen(true);
+      return;
+    }
+
+    setIsRefining(true);
+    setGenerationError(null);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const result = await refineComposition(
+        { notes: generatedNotes, tempo, timeSignature },
+        instruction,
+        refinementHistory,
+        requestOptions,
+      );
+
+      // A revised piece no longer follows the old section markers
+      const version = addVersion(
+        instruction,
+        { notes: result.notes, tempo: result.tempo, timeSignature: result.timeSignature },
+        false,
+        { recipe: result.recipe, cached: result.report.cacheHit, validation: result.report },
+      );
+      setRefinementHistory((previous) => [
+        ...previous,
+        { role: "user", content: instruction },
+        {
+          role: "assistant",
+          content: `Created version ${version.id}: ${result.notes.length} notes at ${result.tempo} BPM in ${formatKey(inferKey(result.notes))}.`,
+        },
+      ]);
+
+      setGeneratedNotes(result.notes);
+      setTempo(result.tempo);
+      setSections(undefined);
+      await loadNoteSequence({
+        notes: result.notes,
+        tempo: result.tempo,
+        timeSignature: result.timeSignature,
+      });
+
+      toast({
+        title: "Piece Refined",
+        description: [
+          `Version ${version.id} is ready to play`,
+          summarizeGenerationReport(result.report),
+          formatUsage(result.report.usage),
+        ].filter(Boolean).join(". "),
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Refinement Failed", (retryOverrides) =>
+        handleRefine(instruction, retryOverrides),
+      );
+    } finally {
+      setIsRefining(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  const handleAccompany = async (
+    melody: NoteSequence,
+    style: AccompanimentStyle,
+    overrides?: GenerateOptions,
+  ) => {
+    // Check if the AI provider is set up
+    if (!isProviderConfigured(getActiveProviderId())) {
+      setApiKeyModalOpen(true);
+      return;
+    }
+
+    setIsAccompanying(true);
+    setGenerationError(null);
+    setCandidates([]);
+    handleStop();
+    const requestOptions = startCancellableRequest(overrides);
+
+    try {
+      const result = await generateAccompaniment(melody, style, requestOptions);
+
+      setGeneratedNotes(result.notes);
+      setTempo(result.tempo);
+      setSections(undefined);
+      setTimeSignature(result.timeSignature);
+      addVersion(
+        `Melody with ${ACCOMPANIMENT_STYLES[style].label.toLowerCase()}`,
+        { notes: result.notes, tempo: result.tempo, timeSignature: result.timeSignature },
+        true,
+        { recipe: result.recipe, cached: result.report.cacheHit, validation: result.report },
+      );
+      await loadNoteSequence(result);
+
+      toast({
+        title: "Accompaniment Written",
+        description: [
+          `Added ${result.notes.length - melody.notes.length} left-hand notes`,
+          summarizeGenerationReport(result.report),
+          formatUsage(result.report.usage),
+        ].filter(Boolean).join(". "),
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        showCancelled();
+        return;
+      }
+      reportError(error, "Accompaniment Failed", (retryOverrides) =>
+        handleAccompany(melody, style, retryOverrides),
+      );
+    } finally {
+      setIsAccompanying(false);
+      finishCancellableRequest(requestOptions);
+    }
+  };
+
+  // Make a saved version the current piece, so playback, download and
+  // further refinements use it
+  const selectVersion = async (id: number) => {
+    const version = versions.find((v) => v.id === id);
+    if (!version) return null;
+
+    handleStop();
+    setCurrentVersionId(version.id);
+    setGeneratedNotes(version.notes);
+    setTempo(version.tempo);
+    setSections(version.sections);
+    setTimeSignature(version.timeSignature);
+    await loadNoteSequence(version);
+    return version;
+  };
+
+  // Make a pasted ABC tune the current piece
+  const handleLoadAbc = async (tune: AbcTune) => {
+    handleStop();
+    setGenerationError(null);
+    setCandidates([]);
+    setFormPlan(null);
+
+    const sequence = { notes: tune.notes, tempo: tune.tempo, timeSignature: tune.timeSignature };
+    setGeneratedNotes(tune.notes);
+    setTempo(tune.tempo);
+    setSections(undefined);
+    setTimeSignature(tune.timeSignature);
+    addVersion(tune.title || "Pasted ABC tune", sequence, true);
+    await loadNoteSequence(sequence);
+
+    toast({
+      title: "Tune Loaded",
+      description: `${tune.notes.length} notes at ${tune.tempo} BPM`,
+    });
+  };
+
+  const handleSelectVersion = async (id: number) => {
+    const version = await selectVersion(id);
+    if (!version) return;
+
+    toast({
+      title: "Version Restored",
+      description: `Reverted to version ${version.id}.`,
+    });
+  };
+
+  const handlePlayVersion = async (id: number) => {
+    if (!(await selectVersion(id))) return;
+
+    try {
+      await playMidi();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error("Error playing MIDI:", error);
+    }
+  };
+
+  const handleExportRecipe = (id: number) => {
+    const version = versions.find((v) => v.id === id);
+    if (!version?.recipe) return;
+
+    // Record how the piece is performed, so the take can be reproduced
+    downloadRecipe({ ...version.recipe, performance: humanize }, `ai-piano-performer-v${version.id}-recipe`);
+  };
+
   const handlePlay = async () => {
     if (generatedNotes.length === 0) return;
 
@@ -168,7 +1138,7 @@ export default function Home() {
   const handleStop = () => {
     stopMidi();
     setIsPlaying(false);
-    setCurrentNote(null);
+    setActiveNotes([]);
   };
 
   const handleTempoChange = (newTempo: number) => {
@@ -182,6 +1152,12 @@ export default function Home() {
     setMidiVolume(newVolume);
   };
 
+  const handleHumanizeChange = (performance: PerformanceOptions) => {
+    setHumanize(performance);
+    // Re-render the loaded piece's performance
+    setPerformanceOptions(performance);
+  };
+
   const handleDownloadMidi = () => {
     if (generatedNotes.length === 0) {
       toast({
@@ -197,9 +1173,12 @@ export default function Home() {
       downloadMidiFromNoteSequence(
         {
           notes: generatedNotes,
-          tempo: tempo
+          tempo: tempo,
+          sections,
+          timeSignature
         },
-        `ai-piano-performer-${Date.now()}`
+        `ai-piano-performer-${Date.now()}`,
+        humanize
       );
       
       toast({
@@ -243,29 +1222,156 @@ export default function Home() {
           <CardHeader>
             <CardTitle>Virtual Piano</CardTitle>
             <CardDescription>
-              Keys will highlight as notes are played during playback
+              Keys will highlight as notes are played during playback: blue
+              for the right hand, green for the left hand
             </CardDescription>
           </CardHeader>
           <CardContent className="overflow-x-auto pb-8">
-            <PianoKeyboard activeNotes={currentNote ? [currentNote] : []} />
+            <KeyDetection
+              candidates={keyCandidates}
+              showScale={showScale}
+              onShowScaleChange={setShowScale}
+            />
+            <PianoKeyboard
+              activeNotes={activeNotes.map(({ note }) => note)}
+              leftHandNotes={activeNotes
+                .filter(({ voice }) => voice === "left")
+                .map(({ note }) => note)}
+              onKeyPress={
+                recordingMelody
+                  ? (note) => setMelodyText((previous) => `${previous.trimEnd()} ${note}`.trimStart())
+                  : undefined
+              }
+              scalePitchClasses={
+                showScale && keyCandidates.length > 0
+                  ? getScalePitchClasses(keyCandidates[0].key)
+                  : undefined
+              }
+            />
+            {harmony && (
+              <div className="mt-4">
+                <ChordTimeline
+                  analysis={harmony}
+                  currentBeat={playbackBeat}
+                  resolution={harmonyResolution}
+                  onResolutionChange={setHarmonyResolution}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
         <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-6">
           <Card className="w-full">
-            <CardHeader>
-              <CardTitle>Create Music</CardTitle>
-              <CardDescription>
-                Describe the type of piano music you want to generate
-              </CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Create Music</CardTitle>
+                <CardDescription>
+                  Describe the type of piano music you want to generate
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAbcDialogOpen(true)}
+                  disabled={isGenerating}
+                  className="flex items-center gap-2"
+                  aria-label="Paste an ABC tune"
+                >
+                  <FileText className="h-4 w-4" />
+                  ABC
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setUsageDialogOpen(true)}
+                  className="flex items-center gap-2"
+                  aria-label="Usage and cost"
+                >
+                  <Coins className="h-4 w-4" />
+                  {formatCost(sessionCost)}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setApiKeyModalOpen(true)}
+                  className="flex items-center gap-2"
+                >
+                  <Settings className="h-4 w-4" />
+                  {getProvider(activeProviderId).name}
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <PromptInput
                 onGenerate={handleGenerate}
                 isGenerating={isGenerating}
+                playWhileGenerating={playWhileGenerating}
+                onPlayWhileGeneratingChange={setPlayWhileGenerating}
+                longForm={longForm}
+                onLongFormChange={setLongForm}
+                candidateCount={candidateCount}
+                onCandidateCountChange={setCandidateCount}
+                onCancel={handleCancel}
+                status={requestStatus}
               />
+              <div className="mt-4">
+                <GenerationSettings
+                  provider={getProvider(activeProviderId)}
+                  value={settings}
+                  onChange={setSettings}
+                  disabled={isGenerating}
+                />
+              </div>
               {generationError && (
-                <p className="mt-2 text-sm text-red-500">{generationError}</p>
+                <div className="mt-4">
+                  <GenerationErrorAlert
+                    error={generationError}
+                    onRecover={handleRecover}
+                    disabled={isGenerating || isContinuing || isRefining}
+                  />
+                </div>
+              )}
+              {currentVersion?.validation && (
+                <div className="mt-4">
+                  <ValidationReport validation={currentVersion.validation} />
+                </div>
+              )}
+              {candidates.length > 0 && (
+                <div className="mt-4">
+                  <CandidateList
+                    candidates={candidates}
+                    auditioningId={auditioningId}
+                    onAudition={handleAuditionCandidate}
+                    onKeep={handleKeepCandidate}
+                    disabled={isGenerating}
+                  />
+                </div>
+              )}
+              {formPlan && (
+                <div className="mt-4">
+                  <SectionProgress
+                    plan={formPlan}
+                    sections={sectionStates}
+                    onRetry={handleRetrySection}
+                    disabled={isGenerating || isContinuing || isRefining}
+                  />
+                </div>
+              )}
+              {generatedNotes.length > 0 && candidates.length === 0 && (
+                <div className="mt-4">
+                  <ContinuationControls
+                    onContinue={handleContinue}
+                    isContinuing={isContinuing}
+                    disabled={isGenerating || isRefining}
+                  />
+                  {isContinuing && (
+                    <div className="mt-2">
+                      <RequestProgress status={requestStatus} onCancel={handleCancel} />
+                    </div>
+                  )}
+                </div>
               )}
             </CardContent>
           </Card>
@@ -285,14 +1391,73 @@ export default function Home() {
                 onStop={handleStop}
                 onTempoChange={handleTempoChange}
                 onVolumeChange={handleVolumeChange}
+                onHumanizeChange={handleHumanizeChange}
                 tempo={tempo}
                 volume={volume}
+                humanize={humanize}
                 onDownloadMidi={handleDownloadMidi}
                 disabled={generatedNotes.length === 0}
               />
             </CardContent>
           </Card>
         </div>
+
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle>Accompany a Melody</CardTitle>
+            <CardDescription>
+              Type, play or import a melody and have the left hand written for
+              it in the style of your choice
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AccompanimentPanel
+              melody={melodyText}
+              onMelodyChange={setMelodyText}
+              recording={recordingMelody}
+              onRecordingChange={setRecordingMelody}
+              currentPiece={generatedNotes.length > 0 ? { notes: generatedNotes, tempo, timeSignature } : null}
+              onAccompany={handleAccompany}
+              isAccompanying={isAccompanying}
+              disabled={isGenerating || isContinuing || isRefining}
+            />
+            {isAccompanying && (
+              <div className="mt-2">
+                <RequestProgress status={requestStatus} onCancel={handleCancel} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {versions.length > 0 && (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Refine</CardTitle>
+              <CardDescription>
+                Chat about changes to the piece; each answer becomes a new
+                version you can play, compare and revert to
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RefinementPanel
+                versions={versions}
+                currentVersionId={currentVersionId}
+                history={refinementHistory}
+                onRefine={handleRefine}
+                onSelectVersion={handleSelectVersion}
+                onPlayVersion={handlePlayVersion}
+                onExportRecipe={handleExportRecipe}
+                isRefining={isRefining}
+                disabled={isGenerating || isContinuing}
+              />
+              {isRefining && (
+                <div className="mt-2">
+                  <RequestProgress status={requestStatus} onCancel={handleCancel} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </main>
 
       <footer className="mt-12 text-center text-sm text-muted-foreground">
@@ -301,14 +1466,27 @@ export default function Home() {
         </p>
       </footer>
 
+      <UsageDialog open={usageDialogOpen} onOpenChange={setUsageDialogOpen} />
+
+      <AbcImportDialog
+        open={abcDialogOpen}
+        onOpenChange={setAbcDialogOpen}
+        onLoad={handleLoadAbc}
+      />
+
       {/* API Key Modal */}
       <ApiKeyModal
         open={apiKeyModalOpen}
         onOpenChange={setApiKeyModalOpen}
-        onApiKeySet={() => {
+        onApiKeySet={(providerId) => {
+          if (providerId !== activeProviderId) {
+            // Model names differ between providers
+            setSettings((previous) => ({ ...previous, model: "" }));
+          }
+          setActiveProviderId(providerId);
           toast({
-            title: "API Key Saved",
-            description: "Your OpenAI API key has been saved for this session.",
+            title: "Provider Saved",
+            description: `${getProvider(providerId).name} will be used for this session.`,
           });
         }}
       />
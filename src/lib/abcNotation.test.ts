@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import type { Note, NoteSequence } from "@/services/openai";
+import { DEFAULT_ABC_TEMPO, formatAbc, formatAbcError, parseAbc } from "./abcNotation";
+import { noteToMidiNumber } from "./pitch";
+
+// Pitch, start and duration of each note, with pitches as MIDI numbers so
+// the checks don't depend on sharp or flat spelling
+const timeline = (notes: Note[]) =>
+  notes.map((note) => [noteToMidiNumber(note.pitch), note.start, note.duration]);
+
+const tune = (body: string, header = "X:1\nL:1/4\nK:C") => parseAbc(`${header}\n${body}`);
+
+describe("parseAbc", () => {
+  it("reads the header fields", () => {
+    const { tune: parsed, errors, found } = parseAbc(
+      "X:1\nT:Test\nM:3/4\nL:1/8\nQ:1/4=90\nK:G\nGAB cde|f2 g2 z2|]",
+    );
+    expect(found).toBe(true);
+    expect(errors).toEqual([]);
+    expect(parsed).toMatchObject({ title: "Test", key: "G", tempo: 90, timeSignature: [3, 4] });
+    // F is sharp in G major; lower case is the octave above middle C
+    expect(parsed.notes.map((note) => note.pitch)).toEqual(["G4", "A4", "B4", "C5", "D5", "E5", "F#5", "G5"]);
+    expect(parsed.notes.map((note) => note.duration)).toEqual([0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 1, 1]);
+  });
+
+  it("uses the default tempo and a 4/4 bar when none is given", () => {
+    const { tune: parsed } = tune("C D E F|Z|G");
+    expect(parsed.tempo).toBe(DEFAULT_ABC_TEMPO);
+    expect(parsed.timeSignature).toBeUndefined();
+    expect(parsed.notes.map((note) => note.start)).toEqual([0, 1, 2, 3, 8]);
+  });
+
+  it("reads Q: fields in other beat units", () => {
+    expect(tune("C", "X:1\nQ:3/8=60\nK:C").tune.tempo).toBe(90);
+    expect(tune("C", 'X:1\nQ:"Allegro" 1/4=132\nK:C').tune.tempo).toBe(132);
+  });
+
+  it("reads accidentals, octave marks and note lengths", () => {
+    const { tune: parsed } = tune("^C __D =E _B,|C,, c' C2 C/2 C/ C3/2");
+    expect(timeline(parsed.notes)).toEqual([
+      [61, 0, 1],
+      [60, 1, 1],
+      [64, 2, 1],
+      [58, 3, 1],
+      [36, 4, 1],
+      [84, 5, 1],
+      [60, 6, 2],
+      [60, 8, 0.5],
+      [60, 8.5, 0.5],
+      [60, 9, 1.5],
+    ]);
+  });
+
+  it("carries accidentals through the bar and the key signature across bars", () => {
+    const { tune: parsed } = tune("B ^F F B|F", "X:1\nL:1/4\nK:Dm");
+    // B is flat in D minor; ^F stays sharp until the bar line
+    expect(timeline(parsed.notes).map(([midiNumber]) => midiNumber)).toEqual([70, 66, 66, 70, 65]);
+  });
+
+  it("reads chords, ties, broken rhythm and tuplets", () => {
+    const { tune: parsed } = tune("[CEG] C- C|A>B A<B|(3ABc");
+    expect(timeline(parsed.notes)).toEqual([
+      [60, 0, 1],
+      [64, 0, 1],
+      [67, 0, 1],
+      [60, 1, 2],
+      [69, 3, 1.5],
+      [71, 4.5, 0.5],
+      [69, 5, 0.5],
+      [71, 5.5, 1.5],
+      [69, 7, 2 / 3],
+      [71, 7 + 2 / 3, 2 / 3],
+      [72, 7 + 4 / 3, 2 / 3],
+    ].map(([midiNumber, start, duration]) => [midiNumber, expect.closeTo(start, 5), expect.closeTo(duration, 5)]));
+  });
+
+  it("plays repeats twice and keeps rests as silence", () => {
+    const { tune: parsed } = tune("z C x D|:E F:|");
+    expect(timeline(parsed.notes)).toEqual([
+      [60, 1, 1],
+      [62, 3, 1],
+      [64, 4, 1],
+      [65, 5, 1],
+      [64, 6, 1],
+      [65, 7, 1],
+    ]);
+  });
+
+  it("applies dynamics to the notes after them", () => {
+    const { tune: parsed } = tune("C !ff! D !p! E");
+    expect(parsed.notes.map((note) => note.velocity)).toEqual([0.65, 0.9, 0.45]);
+  });
+
+  it("gives the first voice the right hand and the bass voice the left", () => {
+    const { tune: parsed } = tune("V:1\nc d\nV:2 clef=bass\nC, D,");
+    expect(parsed.notes.map(({ pitch, start, voice }) => [pitch, start, voice])).toEqual([
+      ["C3", 0, "left"],
+      ["C5", 0, "right"],
+      ["D3", 1, "left"],
+      ["D5", 1, "right"],
+    ]);
+  });
+
+  it("skips prose and a code fence around the tune", () => {
+    const { tune: parsed, errors, found } = parseAbc(
+      "Here is your tune:\n```abc\nX:1\nL:1/4\nK:C\nC D E\n```\nEnjoy!",
+    );
+    expect(found).toBe(true);
+    expect(errors).toEqual([]);
+    expect(parsed.notes).toHaveLength(3);
+  });
+
+  it("reports errors with line and column and keeps what it could read", () => {
+    const { tune: parsed, errors } = tune("C D Q E|C ? D");
+    expect(errors).toEqual([
+      { line: 4, column: 5, message: 'Unexpected "Q"' },
+      { line: 4, column: 11, message: 'Unexpected "?"' },
+    ]);
+    expect(parsed.notes).toHaveLength(5);
+    expect(formatAbcError(errors[0])).toBe('Line 4, column 5: Unexpected "Q"');
+  });
+
+  it("reports a key it cannot read", () => {
+    const { errors } = tune("C", "X:1\nK:Hm");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it("finds nothing in text without a tune", () => {
+    const { tune: parsed, found } = parseAbc("I can't write that tune, sorry.");
+    expect(found).toBe(false);
+    expect(parsed.notes).toEqual([]);
+  });
+});
+
+describe("formatAbc", () => {
+  it("writes a score that parses back to the same notes", () => {
+    const sequence: NoteSequence = {
+      tempo: 96,
+      timeSignature: [3, 4],
+      notes: [
+        { pitch: "C4", start: 0, duration: 1, velocity: 0.65, voice: "right" },
+        { pitch: "E4", start: 1, duration: 0.5, velocity: 0.65, voice: "right" },
+        { pitch: "F#4", start: 1.5, duration: 2.5, velocity: 0.65, voice: "right" },
+        { pitch: "C3", start: 0, duration: 3, velocity: 0.65, voice: "left" },
+        { pitch: "G3", start: 0, duration: 3, velocity: 0.65, voice: "left" },
+        { pitch: "Bb2", start: 3, duration: 1.5, velocity: 0.65, voice: "left" },
+      ],
+    };
+    const { tune: parsed, errors } = parseAbc(formatAbc(sequence, "Round trip"));
+    expect(errors).toEqual([]);
+    expect(parsed).toMatchObject({ title: "Round trip", tempo: 96, timeSignature: [3, 4] });
+
+    const played = (notes: Note[]) =>
+      notes
+        .map((note) => [note.voice, ...timeline([note])[0]])
+        .sort((a, b) => String(a).localeCompare(String(b)));
+    expect(played(parsed.notes)).toEqual(played(sequence.notes));
+  });
+});
@@ -0,0 +1,762 @@
+// ABC notation (abcnotation.com, standard 2.1): a compact text format for
+// tunes with durations, bars, chords, key and meter. Used as an optional
+// answer format for the model and to paste tunes into the app.
+//
+// Supported: header fields X T M L Q K V (also inline as [K:G]), notes with
+// accidentals, octave marks and lengths, rests (z x Z), chords [CEG], ties,
+// broken rhythm (> <), tuplets, simple repeats (|: :|), dynamics (!mf!) and
+// several voices, the first as the right hand and the rest as the left.
+// Chord symbols, grace notes, slurs and other decorations are skipped.
+import type { Note, NoteSequence, TimeSignature, Voice } from "@/services/openai";
+import { getBeatsPerBar, sortNotes } from "./musicUtils";
+import {
+  Letter,
+  formatPitch,
+  isPianoMidiNumber,
+  midiNumberToNote,
+  noteToMidiNumber,
+  parsePitch,
+} from "./pitch";
+
+export interface AbcError {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface AbcTune extends NoteSequence {
+  title?: string;
+  key?: string; // The K: field as written, e.g. "Dm"
+}
+
+export interface AbcParseResult {
+  tune: AbcTune;
+  errors: AbcError[];
+  // False if the text has no ABC header or notes at all
+  found: boolean;
+}
+
+// Tempo when the tune has no Q: field
+export const DEFAULT_ABC_TEMPO = 120;
+
+const DYNAMICS: Record<string, number> = {
+  ppp: 0.2,
+  pp: 0.3,
+  p: 0.45,
+  mp: 0.55,
+  mf: 0.65,
+  f: 0.8,
+  ff: 0.9,
+  fff: 1,
+};
+const DEFAULT_VELOCITY = DYNAMICS.mf;
+
+// Semitones above C of each natural note
+// Position of each letter on the circle of fifths, relative to C
+const LETTER_FIFTHS: Record<string, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+const SHARP_ORDER = "FCGDAEB";
+const FLAT_ORDER = "BEADGCF";
+// Fifths to add to a tonic's major key signature for each mode
+const MODE_FIFTHS: Record<string, number> = {
+  lyd: 1,
+  ion: 0,
+  maj: 0,
+  mix: -1,
+  dor: -2,
+  aeo: -3,
+  min: -3,
+  m: -3,
+  phr: -4,
+  loc: -5,
+};
+
+// Default number for the q of a (p tuplet: p notes in the time of q
+const TUPLET_TIME: Record<number, number> = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+
+/**
+ * Format a parse error for people and for the repair prompt
+ * @param error Error from parseAbc
+ */
+export const formatAbcError = (error: AbcError): string =>
+  `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+// Alteration (-1 flat, 1 sharp) of each letter in a key, e.g. "Dm" or "F#mix".
+// Returns null for a key it cannot read.
+const parseKeySignature = (value: string): Record<string, number> | null => {
+  const signature: Record<string, number> = {};
+  const trimmed = value.trim();
+  if (trimmed === "" || /^none\b/i.test(trimmed)) return signature;
+
+  const match = trimmed.match(/^([A-G])([#b]?)\s*([A-Za-z]*)/);
+  if (!match) return null;
+  const [, letter, accidental, modeText] = match;
+  const mode = modeText.toLowerCase();
+  const modeKey = mode === "" ? "maj" : mode === "m" ? "m" : mode.slice(0, 3);
+  if (!(modeKey in MODE_FIFTHS)) return null;
+
+  const fifths =
+    LETTER_FIFTHS[letter] +
+    (accidental === "#" ? 7 : accidental === "b" ? -7 : 0) +
+    MODE_FIFTHS[modeKey];
+  if (Math.abs(fifths) > 7) return null;
+
+  const order = fifths > 0 ? SHARP_ORDER : FLAT_ORDER;
+  for (const name of order.slice(0, Math.abs(fifths))) {
+    signature[name] = fifths > 0 ? 1 : -1;
+  }
+  return signature;
+};
+
+// Meter from an M: field; null for free meter or one it cannot read
+const parseMeter = (value: string): TimeSignature | null => {
+  const trimmed = value.trim();
+  if (trimmed === "C") return [4, 4];
+  if (trimmed === "C|") return [2, 2];
+  const match = trimmed.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return null;
+  const meter: TimeSignature = [Number(match[1]), Number(match[2])];
+  return meter[0] > 0 && meter[1] > 0 ? meter : null;
+};
+
+// A fraction such as "1/8"; null if invalid
+const parseFraction = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[2]) === 0) return null;
+  return Number(match[1]) / Number(match[2]);
+};
+
+// Tempo in quarter notes per minute from a Q: field such as "1/4=120",
+// "3/8=60", "120" or "\"Allegro\" 1/4=132"
+const parseTempo = (value: string): number | null => {
+  const text = value.replace(/"[^"]*"/g, "").trim();
+  const match = text.match(/^(?:(\d+\/\d+)(?:\s+\d+\/\d+)*\s*=\s*)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const beat = match[1] ? parseFraction(match[1]) : 0.25;
+  if (!beat) return null;
+  return Number(match[2]) * beat * 4;
+};
+
+// Length multiplier after a note, e.g. "2", "3/2", "/", "//", "/4"
+const parseLength = (text: string): number | null => {
+  if (text === "") return 1;
+  const match = text.match(/^(\d*)(\/*)(\d*)$/);
+  if (!match) return null;
+  const [, numerator, slashes, denominator] = match;
+  const top = numerator ? Number(numerator) : 1;
+  if (!slashes) return denominator ? null : top;
+  if (slashes.length > 1 && denominator) return null;
+  const bottom = denominator ? Number(denominator) : 2 ** slashes.length;
+  return bottom > 0 ? top / bottom : null;
+};
+
+// Which hand a voice plays: named bass/left voices and every voice after
+// the first play the left hand
+const voiceHand = (definition: string, index: number): Voice => {
+  if (/bass|left|lower|^\s*(l|lh)\b/i.test(definition)) return "left";
+  if (/treble|right|upper|^\s*(r|rh)\b/i.test(definition)) return "right";
+  return index === 0 ? "right" : "left";
+};
+
+interface VoiceState {
+  hand: Voice;
+  cursor: number; // Beats from the start of the tune
+  velocity: number;
+  notes: Note[];
+  // Alterations written earlier in the bar, by letter and octave
+  barAccidentals: Map<string, number>;
+  // Notes tied into the next element, by pitch
+  ties: Map<string, Note>;
+  // Notes and start of the last element, for ties and broken rhythm
+  last: { notes: Note[]; start: number; duration: number } | null;
+  // Factor for the next element's length after a > or <
+  brokenNext: number;
+  tuplet: { remaining: number; factor: number } | null;
+  repeatStart: { index: number; time: number };
+}
+
+// A note or rest as written: pitch (null for a rest) and length in units
+interface ParsedElement {
+  pitch: string | null;
+  length: number;
+}
+
+const NOTE_PATTERN = /^(\^\^|\^|__|_|=)?([A-Ga-g])([',]*)(\d*\/*\d*)/;
+const REST_PATTERN = /^([zx])(\d*\/*\d*)/;
+const FIELD_LINE = /^([A-Za-z]):(.*)$/;
+const INLINE_FIELD = /^\[([A-Za-z]):([^\]]*)\]/;
+// Single-character decorations that carry no pitch or rhythm
+const SKIPPED_SYMBOLS = ".~HLMOPSTuvy`)\\";
+
+/**
+ * Parse an ABC tune into a score. Lines before the first header field
+ * (prose, a markdown fence) are skipped; only the first tune is read.
+ * Errors give the line and column in the original text; the parser keeps
+ * going after an error, so the notes it could read are returned too.
+ * @param text ABC text, possibly surrounded by other text
+ */
+export const parseAbc = (text: string): AbcParseResult => {
+  const lines = text.split(/\r?\n/);
+  const errors: AbcError[] = [];
+  const error = (line: number, column: number, message: string) => {
+    errors.push({ line: line + 1, column: column + 1, message });
+  };
+
+  let title: string | undefined;
+  let key: string | undefined;
+  let keySignature: Record<string, number> = {};
+  let timeSignature: TimeSignature | undefined;
+  let unitLength: number | null = null; // L:, as a fraction of a whole note
+  let tempo: number | undefined;
+  let inBody = false;
+  let started = false;
+  let found = false;
+
+  const voices = new Map<string, VoiceState>();
+  const voiceDefinitions = new Map<string, string>();
+  let voice: VoiceState | null = null;
+
+  const getUnitBeats = () => {
+    if (unitLength !== null) return unitLength * 4;
+    // The standard default: 1/16 for meters below 3/4, otherwise 1/8
+    const meter = timeSignature ?? [4, 4];
+    return meter[0] / meter[1] < 0.75 ? 0.25 : 0.5;
+  };
+
+  const selectVoice = (id: string) => {
+    let state = voices.get(id);
+    if (!state) {
+      state = {
+        hand: voiceHand(voiceDefinitions.get(id) ?? id, voices.size),
+        cursor: 0,
+        velocity: DEFAULT_VELOCITY,
+        notes: [],
+        barAccidentals: new Map(),
+        ties: new Map(),
+        last: null,
+        brokenNext: 1,
+        tuplet: null,
+        repeatStart: { index: 0, time: 0 },
+      };
+      voices.set(id, state);
+    }
+    voice = state;
+    return state;
+  };
+
+  const currentVoice = (): VoiceState => voice ?? selectVoice("1");
+
+  // Apply a header or inline field; returns false if the field is unknown
+  const applyField = (name: string, value: string, line: number, column: number) => {
+    switch (name) {
+      case "T":
+        title = title ?? value.trim();
+        break;
+      case "M": {
+        if (/^\s*none\s*$/i.test(value)) break;
+        const meter = parseMeter(value);
+        if (meter) timeSignature = meter;
+        else error(line, column, `Cannot read the meter "${value.trim()}"; write it like M:3/4`);
+        break;
+      }
+      case "L": {
+        const length = parseFraction(value);
+        if (length) unitLength = length;
+        else error(line, column, `Cannot read the unit note length "${value.trim()}"; write it like L:1/8`);
+        break;
+      }
+      case "Q": {
+        const bpm = parseTempo(value);
+        if (bpm) tempo = tempo ?? bpm;
+        else error(line, column, `Cannot read the tempo "${value.trim()}"; write it like Q:1/4=120`);
+        break;
+      }
+      case "K": {
+        const signature = parseKeySignature(value.replace(/\b(clef|middle|transpose|octave|stafflines)=\S*/g, ""));
+        if (signature) {
+          keySignature = signature;
+          key = key ?? value.trim();
+        } else {
+          error(line, column, `Cannot read the key "${value.trim()}"; write it like K:G, K:Dm or K:Bb`);
+        }
+        if (!inBody) inBody = true;
+        break;
+      }
+      case "V": {
+        const [id, ...rest] = value.trim().split(/\s+/);
+        if (!id) {
+          error(line, column, "V: needs a voice name, such as V:R or V:L");
+          break;
+        }
+        if (rest.length > 0 || !voiceDefinitions.has(id)) {
+          voiceDefinitions.set(id, `${id} ${rest.join(" ")}`);
+        }
+        if (inBody) selectVoice(id);
+        break;
+      }
+      default:
+        // Other fields (X, C, R, w, W, N, ...) do not affect the notes
+        break;
+    }
+  };
+
+  // Pitch name of a written note, applying key, bar accidentals and octave
+  const resolvePitch = (
+    state: VoiceState,
+    accidental: string | undefined,
+    letter: string,
+    octaveMarks: string,
+  ): string | null => {
+    const upper = letter.toUpperCase();
+    let octave = letter === upper ? 4 : 5;
+    for (const mark of octaveMarks) octave += mark === "'" ? 1 : -1;
+
+    const accidentalKey = `${upper}${octave}`;
+    let alteration: number;
+    if (accidental) {
+      alteration = { "^^": 2, "^": 1, "=": 0, _: -1, __: -2 }[accidental] ?? 0;
+      state.barAccidentals.set(accidentalKey, alteration);
+    } else {
+      alteration = state.barAccidentals.get(accidentalKey) ?? keySignature[upper] ?? 0;
+    }
+
+    const midiNumber = noteToMidiNumber(formatPitch({ letter: upper as Letter, alteration, octave }));
+    if (midiNumber === null || !isPianoMidiNumber(midiNumber)) return null;
+    return midiNumberToNote(midiNumber);
+  };
+
+  // Place one note, rest or chord at the voice's cursor
+  const placeElement = (state: VoiceState, pitches: string[], units: number) => {
+    let duration = units * getUnitBeats() * state.brokenNext;
+    state.brokenNext = 1;
+    if (state.tuplet) {
+      duration *= state.tuplet.factor;
+      state.tuplet.remaining--;
+      if (state.tuplet.remaining <= 0) state.tuplet = null;
+    }
+
+    const start = state.cursor;
+    const placed: Note[] = [];
+    const ties = state.ties;
+    state.ties = new Map();
+    for (const pitch of pitches) {
+      const tied = ties.get(pitch);
+      if (tied && Math.abs(tied.start + tied.duration - start) < 1e-6) {
+        tied.duration += duration;
+        placed.push(tied);
+        continue;
+      }
+      const note: Note = { pitch, start, duration, velocity: state.velocity, voice: state.hand };
+      state.notes.push(note);
+      placed.push(note);
+    }
+
+    state.cursor += duration;
+    state.last = { notes: placed, start, duration };
+  };
+
+  // Lengthen or shorten the last element after a > or <
+  const applyBrokenRhythm = (state: VoiceState, symbol: string, count: number, line: number, column: number) => {
+    if (!state.last) {
+      error(line, column, `"${symbol}" must come between two notes`);
+      return;
+    }
+    const shortFactor = 1 / 2 ** count;
+    const longFactor = 2 - shortFactor;
+    const [previous, next] = symbol === ">" ? [longFactor, shortFactor] : [shortFactor, longFactor];
+    const newDuration = state.last.duration * previous;
+    for (const note of state.last.notes) {
+      note.duration += newDuration - state.last.duration;
+    }
+    state.cursor += newDuration - state.last.duration;
+    state.last.duration = newDuration;
+    state.brokenNext = next;
+  };
+
+  const endBar = (state: VoiceState) => {
+    state.barAccidentals.clear();
+  };
+
+  // Play the repeated passage again
+  const endRepeat = (state: VoiceState) => {
+    const { index, time } = state.repeatStart;
+    const length = state.cursor - time;
+    const repeated = state.notes.slice(index).map((note) => ({ ...note, start: note.start + length }));
+    state.notes.push(...repeated);
+    state.cursor += length;
+    state.ties = new Map();
+    state.last = null;
+    state.repeatStart = { index: state.notes.length, time: state.cursor };
+  };
+
+  // Read one note (for chords too) at a position; null if there is none
+  const readNote = (
+    state: VoiceState,
+    source: string,
+    position: number,
+    line: number,
+  ): { element: ParsedElement; length: number } | null => {
+    const match = source.slice(position).match(NOTE_PATTERN);
+    if (!match) return null;
+    const [token, accidental, letter, octaveMarks, lengthText] = match;
+    const multiplier = parseLength(lengthText);
+    if (multiplier === null) {
+      error(line, position + token.length - lengthText.length, `Cannot read the note length "${lengthText}"`);
+    }
+    const pitch = resolvePitch(state, accidental, letter, octaveMarks);
+    if (!pitch) {
+      error(line, position, `"${token}" is outside the piano's range (A0 to C8)`);
+    }
+    return { element: { pitch, length: multiplier ?? 1 }, length: token.length };
+  };
+
+  const parseBodyLine = (source: string, line: number) => {
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+      const rest = source.slice(position);
+      const state = currentVoice();
+
+      if (char === " " || char === "\t") {
+        position++;
+      } else if (char === "%") {
+        break;
+      } else if (char === '"') {
+        // Chord symbol or annotation
+        const end = source.indexOf('"', position + 1);
+        if (end === -1) {
+          error(line, position, 'Unclosed quote; chord symbols look like "Am"');
+          break;
+        }
+        position = end + 1;
+      } else if (char === "!" || char === "+") {
+        const end = source.indexOf(char, position + 1);
+        if (end === -1) {
+          error(line, position, `Unclosed decoration; decorations look like ${char}mf${char}`);
+          break;
+        }
+        const decoration = source.slice(position + 1, end);
+        if (decoration in DYNAMICS) state.velocity = DYNAMICS[decoration];
+        position = end + 1;
+      } else if (char === "{") {
+        // Grace notes are not played
+        const end = source.indexOf("}", position + 1);
+        if (end === -1) {
+          error(line, position, "Unclosed grace notes; close them with }");
+          break;
+        }
+        position = end + 1;
+      } else if (INLINE_FIELD.test(rest)) {
+        const [token, name, value] = rest.match(INLINE_FIELD)!;
+        applyField(name, value, line, position);
+        position += token.length;
+      } else if (/^\[\|/.test(rest)) {
+        endBar(state);
+        position += 2;
+      } else if (/^\[\d/.test(rest)) {
+        error(line, position, "Numbered endings ([1, [2) are not supported; write the repeat out in full");
+        position += 2;
+      } else if (char === "[") {
+        // Chord: notes sounding together, with an optional length after ]
+        const end = source.indexOf("]", position);
+        if (end === -1) {
+          error(line, position, "Unclosed chord; close it with ]");
+          break;
+        }
+        const pitches: string[] = [];
+        let chordLength: number | null = null;
+        let inner = position + 1;
+        let tieInside = false;
+        while (inner < end) {
+          const note = readNote(state, source, inner, line);
+          if (note) {
+            if (note.element.pitch) pitches.push(note.element.pitch);
+            chordLength = chordLength ?? note.element.length;
+            inner += note.length;
+          } else if (source[inner] === "-") {
+            tieInside = true;
+            inner++;
+          } else if (source[inner] === " " || SKIPPED_SYMBOLS.includes(source[inner])) {
+            inner++;
+          } else {
+            error(line, inner, `Unexpected "${source[inner]}" in a chord`);
+            inner++;
+          }
+        }
+        const outer = source.slice(end + 1).match(/^\d*\/*\d*/)![0];
+        const multiplier = parseLength(outer);
+        if (multiplier === null) error(line, end + 1, `Cannot read the chord length "${outer}"`);
+        if (chordLength === null) {
+          error(line, position, "Empty chord");
+        } else {
+          placeElement(state, pitches, chordLength * (multiplier ?? 1));
+          if (tieInside) {
+            for (const note of state.last!.notes) state.ties.set(note.pitch, note);
+          }
+        }
+        position = end + 1 + outer.length;
+      } else if (char === "|" || char === ":") {
+        // Bar line; a colon before it ends a repeat, a colon after starts one
+        const [barline] = rest.match(/^[|:\]]+/)!;
+        if (barline.startsWith(":")) endRepeat(state);
+        if (barline.length > 1 && barline.endsWith(":")) {
+          state.repeatStart = { index: state.notes.length, time: state.cursor };
+        }
+        endBar(state);
+        position += barline.length;
+        if (/^\d/.test(source.slice(position))) {
+          error(line, position, "Numbered endings (|1, |2) are not supported; write the repeat out in full");
+          position++;
+        }
+      } else if (char === "]") {
+        // End of a |] barline written with a space, or a stray bracket
+        endBar(state);
+        position++;
+      } else if (char === "(") {
+        const tuplet = rest.match(/^\((\d)(?::(\d)?)?(?::(\d)?)?/);
+        if (tuplet) {
+          const p = Number(tuplet[1]);
+          const q = tuplet[2] ? Number(tuplet[2]) : TUPLET_TIME[p] ?? 2;
+          const r = tuplet[3] ? Number(tuplet[3]) : p;
+          if (p < 2) {
+            error(line, position, `Cannot read the tuplet "${tuplet[0]}"`);
+          } else {
+            state.tuplet = { remaining: r, factor: q / p };
+          }
+          position += tuplet[0].length;
+        } else {
+          // Slur
+          position++;
+        }
+      } else if (char === "-") {
+        if (!state.last) {
+          error(line, position, "A tie (-) must follow a note");
+        } else {
+          for (const note of state.last.notes) state.ties.set(note.pitch, note);
+        }
+        position++;
+      } else if (char === ">" || char === "<") {
+        const [token] = rest.match(char === ">" ? /^>+/ : /^<+/)!;
+        applyBrokenRhythm(state, char, token.length, line, position);
+        position += token.length;
+      } else if (REST_PATTERN.test(rest)) {
+        const [token, , lengthText] = rest.match(REST_PATTERN)!;
+        const multiplier = parseLength(lengthText);
+        if (multiplier === null) error(line, position + 1, `Cannot read the rest length "${lengthText}"`);
+        placeElement(state, [], multiplier ?? 1);
+        position += token.length;
+      } else if (/^Z\d*/.test(rest)) {
+        // Whole-bar rests
+        const [token] = rest.match(/^Z\d*/)!;
+        const bars = Number(token.slice(1) || 1);
+        state.cursor += bars * getBeatsPerBar(timeSignature);
+        state.last = null;
+        position += token.length;
+      } else if (NOTE_PATTERN.test(rest)) {
+        const note = readNote(state, source, position, line)!;
+        placeElement(state, note.element.pitch ? [note.element.pitch] : [], note.element.length);
+        position += note.length;
+      } else if (SKIPPED_SYMBOLS.includes(char)) {
+        position++;
+      } else if (char === "&") {
+        error(line, position, "Voice overlays (&) are not supported; use a separate V: voice");
+        position++;
+      } else {
+        error(line, position, `Unexpected "${char}"`);
+        position++;
+      }
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const source = lines[index];
+    const trimmed = source.trim();
+
+    // A closing markdown fence ends the tune; directives are skipped
+    if (trimmed.startsWith("```")) {
+      if (found) break;
+      continue;
+    }
+    if (trimmed.startsWith("%%")) continue;
+
+    // In the body, "A:|" is a note and a bar line, not a field
+    const field = inBody && /^[A-Ga-g]:/.test(source) ? null : source.match(FIELD_LINE);
+    if (!started) {
+      if (!field) continue;
+      started = true;
+    }
+
+    if (field) {
+      const [, name, value] = field;
+      // A second tune ends the first
+      if (name === "X" && found) break;
+      if (name === "w" || name === "W") continue;
+      if (name === "X" || name === "K") found = true;
+      applyField(name, value.replace(/%.*$/, ""), index, 2);
+      continue;
+    }
+
+    if (trimmed === "") continue;
+
+    if (!inBody) {
+      error(index, 0, "The tune header must end with a K: field before the notes");
+      inBody = true;
+    }
+    found = true;
+    parseBodyLine(source, index);
+  }
+
+  // Tuplets leave rounding noise in the timings
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  const notes = sortNotes(
+    [...voices.values()]
+      .flatMap((state) => state.notes)
+      .map((note) => ({ ...note, start: round(note.start), duration: round(note.duration) })),
+  );
+  if (found && notes.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, column: 1, message: "The tune has no notes" });
+  }
+
+  return {
+    tune: {
+      notes,
+      tempo: Math.round(tempo ?? DEFAULT_ABC_TEMPO),
+      timeSignature,
+      title,
+      key,
+    },
+    errors,
+    found,
+  };
+};
+
+// ---- Writing ABC -----------------------------------------------------------
+
+// Sixteenth notes, the unit length of written tunes (L:1/16)
+const UNITS_PER_BEAT = 4;
+const BARS_PER_LINE = 4;
+
+const VOICE_HEADERS: Record<Voice, string> = {
+  right: 'V:R clef=treble name="Right hand"',
+  left: 'V:L clef=bass name="Left hand"',
+};
+
+// Nearest dynamic marking to a velocity
+const velocityToDynamic = (velocity: number): string => {
+  return Object.entries(DYNAMICS).reduce((best, current) =>
+    Math.abs(current[1] - velocity) < Math.abs(best[1] - velocity) ? current : best,
+  )[0];
+};
+
+// ABC accidental for each alteration
+const ABC_ACCIDENTALS: Record<number, string> = { 2: "^^", 1: "^", 0: "=", [-1]: "_", [-2]: "__" };
+
+const writeAbcNote = (letter: string, octave: number): string => {
+  if (octave >= 5) return letter.toLowerCase() + "'".repeat(octave - 5);
+  return letter + ",".repeat(4 - octave);
+};
+
+// One voice's notes as ABC bars. Notes are quantized to sixteenths; notes
+// starting together form a chord, and each chord lasts until the next one.
+const writeVoice = (notes: Note[], barUnits: number, totalUnits: number): string => {
+  const groups = new Map<number, Note[]>();
+  for (const note of notes) {
+    const start = Math.round(note.start * UNITS_PER_BEAT);
+    groups.set(start, [...(groups.get(start) ?? []), note]);
+  }
+  const starts = [...groups.keys()].sort((a, b) => a - b);
+
+  let output = "";
+  let cursor = 0;
+  let dynamic = "";
+  let barAccidentals = new Map<string, number>();
+
+  // Write an element, split with ties where it crosses bar lines
+  const write = (pitches: string[], units: number) => {
+    let remaining = units;
+    while (remaining > 0) {
+      const chunk = Math.min(remaining, barUnits - (cursor % barUnits));
+      const length = chunk === 1 ? "" : String(chunk);
+      if (pitches.length === 0) {
+        output += `z${length} `;
+      } else {
+        const written = pitches.map((pitch) => {
+          const parsed = parsePitch(pitch)!;
+          const accidentalKey = `${parsed.letter}${parsed.octave}`;
+          let prefix = "";
+          if ((barAccidentals.get(accidentalKey) ?? 0) !== parsed.alteration) {
+            prefix = ABC_ACCIDENTALS[parsed.alteration];
+            barAccidentals.set(accidentalKey, parsed.alteration);
+          }
+          return prefix + writeAbcNote(parsed.letter, parsed.octave);
+        });
+        const body = written.length === 1 ? written[0] : `[${written.join("")}]`;
+        output += `${body}${length}${remaining > chunk ? "-" : ""} `;
+      }
+      cursor += chunk;
+      remaining -= chunk;
+
+      if (cursor % barUnits === 0) {
+        const bar = cursor / barUnits;
+        output += cursor >= totalUnits ? "|]" : bar % BARS_PER_LINE === 0 ? "|\n" : "| ";
+        barAccidentals = new Map();
+      }
+    }
+  };
+
+  starts.forEach((start, index) => {
+    const group = groups.get(start)!;
+    const pitches = [...new Set(group.map((note) => note.pitch))].filter((pitch) => parsePitch(pitch));
+    if (start < cursor || pitches.length === 0) return;
+
+    if (start > cursor) write([], start - cursor);
+
+    const next = starts[index + 1] ?? Infinity;
+    const longest = Math.max(...group.map((note) => Math.round(note.duration * UNITS_PER_BEAT)), 1);
+    const units = Math.max(1, Math.min(longest, next - start));
+
+    const marking = velocityToDynamic(Math.max(...group.map((note) => note.velocity)));
+    if (marking !== dynamic) {
+      output += `!${marking}! `;
+      dynamic = marking;
+    }
+    write(pitches, units);
+  });
+
+  if (cursor < totalUnits) write([], totalUnits - cursor);
+  return output.trim();
+};
+
+/**
+ * Write a score as an ABC tune with one voice per hand, in C major with
+ * explicit accidentals and a unit length of a sixteenth note
+ * @param sequence The score
+ * @param title Title for the T: field
+ */
+export const formatAbc = (sequence: NoteSequence, title: string = "Untitled"): string => {
+  const beatsPerBar = getBeatsPerBar(sequence.timeSignature);
+  const barUnits = Math.round(beatsPerBar * UNITS_PER_BEAT);
+  const lengthUnits = Math.round(
+    sequence.notes.reduce((length, note) => Math.max(length, note.start + note.duration), 0) * UNITS_PER_BEAT,
+  );
+  const totalUnits = Math.max(barUnits, Math.ceil(lengthUnits / barUnits) * barUnits);
+  const [numerator, denominator] = sequence.timeSignature ?? [4, 4];
+
+  const header = [
+    "X:1",
+    `T:${title}`,
+    `M:${numerator}/${denominator}`,
+    "L:1/16",
+    `Q:1/4=${Math.round(sequence.tempo)}`,
+    "K:C",
+  ];
+
+  const voices: Voice[] = ["right", "left"];
+  const body = voices
+    .map((hand) => sortNotes(sequence.notes.filter((note) => note.voice === hand)))
+    .flatMap((notes, index) =>
+      notes.length > 0 ? [VOICE_HEADERS[voices[index]], writeVoice(notes, barUnits, totalUnits)] : [],
+    );
+
+  return [...header, ...body].join("\n");
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { Note } from "@/services/openai";
+import { analyzeHarmony } from "./harmony";
+import type { MusicalKey } from "./musicUtils";
+
+const C_MAJOR: MusicalKey = { tonic: "C", mode: "major" };
+const A_MINOR: MusicalKey = { tonic: "A", mode: "minor" };
+
+// One block chord per bar of 4/4, lowest pitch first
+const blockChords = (chords: string[][]): Note[] =>
+  chords.flatMap((pitches, bar) =>
+    pitches.map((pitch) => ({ pitch, start: bar * 4, duration: 4, velocity: 0.6, voice: "left" as const })),
+  );
+
+const numerals = (notes: Note[], key: MusicalKey) =>
+  analyzeHarmony(notes, key, [4, 4], "bar").chords.map((chord) => chord.numeral);
+
+describe("analyzeHarmony", () => {
+  it("names a cadence in root position", () => {
+    const { chords } = analyzeHarmony(
+      blockChords([
+        ["C3", "E3", "G3"],
+        ["F3", "A3", "C4"],
+        ["G2", "B2", "D3", "F3"],
+        ["C3", "E3", "G3"],
+      ]),
+      C_MAJOR,
+      [4, 4],
+      "bar",
+    );
+    expect(chords.map(({ symbol, numeral, function: role }) => [symbol, numeral, role])).toEqual([
+      ["C", "I", "tonic"],
+      ["F", "IV", "predominant"],
+      ["G7", "V7", "dominant"],
+      ["C", "I", "tonic"],
+    ]);
+    expect(chords.map(({ start, end }) => [start, end])).toEqual([[0, 4], [4, 8], [8, 12], [12, 16]]);
+  });
+
+  it("marks triad inversions with figured bass", () => {
+    expect(
+      numerals(
+        blockChords([
+          ["E3", "G3", "C4"],
+          ["F3", "A3", "C4"],
+          ["G3", "C4", "E4"],
+          ["G2", "B2", "D3"],
+          ["F3", "A3", "D4"],
+        ]),
+        C_MAJOR,
+      ),
+    ).toEqual(["I6", "IV", "I6/4", "V", "ii6"]);
+  });
+
+  it("keeps the first inversion of a chord repeated with another bass", () => {
+    expect(numerals(blockChords([["E3", "G3", "C4"], ["G3", "C4", "E4"]]), C_MAJOR)).toEqual(["I6"]);
+  });
+
+  it("marks seventh-chord inversions and writes the bass in the symbol", () => {
+    const { chords } = analyzeHarmony(
+      blockChords([
+        ["B2", "D3", "F3", "G3"],
+        ["C3", "E3", "G3"],
+        ["D3", "F3", "G3", "B3"],
+        ["C3", "E3", "G3"],
+        ["F3", "G3", "B3", "D4"],
+        ["E3", "G3", "C4"],
+      ]),
+      C_MAJOR,
+      [4, 4],
+      "bar",
+    );
+    expect(chords.map(({ symbol, numeral, bass }) => [symbol, numeral, bass])).toEqual([
+      ["G7/B", "V6/5", "B"],
+      ["C", "I", "C"],
+      ["G7/D", "V4/3", "D"],
+      ["C", "I", "C"],
+      ["G7/F", "V4/2", "F"],
+      ["C/E", "I6", "E"],
+    ]);
+  });
+
+  it("writes chord quality in the numeral", () => {
+    expect(
+      numerals(
+        blockChords([
+          ["D3", "F3", "A3"],
+          ["B2", "D3", "F3"],
+          ["C3", "E3", "G3", "B3"],
+          ["B2", "D3", "F3", "A3"],
+        ]),
+        C_MAJOR,
+      ),
+    ).toEqual(["ii", "vii°", "IM7", "viiø7"]);
+  });
+
+  it("uses the raised leading tone in minor keys", () => {
+    const { chords } = analyzeHarmony(
+      blockChords([
+        ["A2", "C3", "E3"],
+        ["D3", "F3", "A3"],
+        ["E2", "G#2", "B2", "D3"],
+        ["G#2", "B2", "D3", "F3"],
+        ["A2", "C3", "E3"],
+      ]),
+      A_MINOR,
+      [4, 4],
+      "bar",
+    );
+    expect(chords.map(({ numeral, function: role }) => [numeral, role])).toEqual([
+      ["i", "tonic"],
+      ["iv", "predominant"],
+      ["V7", "dominant"],
+      ["vii°7", "dominant"],
+      ["i", "tonic"],
+    ]);
+  });
+
+  it("spells chord names from the key", () => {
+    const { chords } = analyzeHarmony(
+      blockChords([["Bb2", "D3", "F3"], ["Eb3", "G3", "Bb3"]]),
+      { tonic: "F", mode: "major" },
+      [4, 4],
+      "bar",
+    );
+    expect(chords.map(({ symbol, numeral }) => [symbol, numeral])).toEqual([["Bb", "IV"], ["Eb", "bVII"]]);
+  });
+
+  it("extends a repeated chord and leaves out silence and lone notes", () => {
+    const notes: Note[] = [
+      ...blockChords([["C3", "E3", "G3"], ["C3", "E3", "G3"]]),
+      { pitch: "D4", start: 12, duration: 4, velocity: 0.6, voice: "right" },
+      ...blockChords([[], [], [], [], ["G2", "B2", "D3"]]),
+    ];
+    const { chords } = analyzeHarmony(notes, C_MAJOR, [4, 4], "bar");
+    expect(chords.map(({ symbol, start, end }) => [symbol, start, end])).toEqual([
+      ["C", 0, 8],
+      ["G", 16, 20],
+    ]);
+  });
+
+  it("reads a broken chord at beat resolution as one chord", () => {
+    // Alberti bass on C major, two bars
+    const notes: Note[] = Array.from({ length: 16 }, (_, i) => ({
+      pitch: ["C3", "G3", "E3", "G3"][i % 4],
+      start: i * 0.5,
+      duration: 0.5,
+      velocity: 0.6,
+      voice: "left",
+    }));
+    const { chords } = analyzeHarmony(notes, C_MAJOR, [4, 4], "beat");
+    expect(chords.map(({ symbol, numeral, start, end }) => [symbol, numeral, start, end])).toEqual([
+      ["C", "I", 0, 8],
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+// Chord recognition and Roman-numeral analysis. The piece is cut into
+// windows of a beat or a bar, the pitch classes sounding in each window are
+// matched against chord templates, and each chord is named (Cmaj7, G7/B)
+// and given its Roman numeral and harmonic function in the key.
+import type { Note, TimeSignature } from "@/services/openai";
+import {
+  MusicalKey,
+  getBeatsPerBar,
+  getScalePitchClasses,
+  getSequenceLengthInBeats,
+} from "./musicUtils";
+import { getKeySpelling, getPitchClass, midiNumberToNote, noteToMidiNumber } from "./pitch";
+
+export type ChordQuality =
+  | "major"
+  | "minor"
+  | "diminished"
+  | "augmented"
+  | "sus2"
+  | "sus4"
+  | "dominant7"
+  | "major7"
+  | "minor7"
+  | "half-diminished7"
+  | "diminished7";
+
+// Role of a chord in the key: tonic (rest), predominant (moving away) or
+// dominant (tension that resolves to the tonic); other for chromatic and
+// borrowed chords
+export type HarmonicFunction = "tonic" | "predominant" | "dominant" | "other";
+
+export type HarmonyResolution = "beat" | "bar";
+
+export interface ChordSegment {
+  start: number; // beats
+  end: number; // beats
+  root: string; // e.g. "G"
+  quality: ChordQuality;
+  bass: string; // Lowest sounding pitch class, e.g. "B"
+  symbol: string; // e.g. "G7/B"
+  numeral: string; // e.g. "V6/5"
+  function: HarmonicFunction;
+}
+
+export interface HarmonyAnalysis {
+  key: MusicalKey;
+  chords: ChordSegment[];
+}
+
+interface ChordTemplate {
+  intervals: number[]; // Semitones above the root, root first
+  suffix: string; // Written after the root in a chord symbol
+  minorThird: boolean; // Written in lower case as a Roman numeral
+  numeralSuffix: string; // Quality mark after the numeral
+  seventh: boolean;
+}
+
+const CHORD_TEMPLATES: Record<ChordQuality, ChordTemplate> = {
+  major: { intervals: [0, 4, 7], suffix: "", minorThird: false, numeralSuffix: "", seventh: false },
+  minor: { intervals: [0, 3, 7], suffix: "m", minorThird: true, numeralSuffix: "", seventh: false },
+  diminished: { intervals: [0, 3, 6], suffix: "dim", minorThird: true, numeralSuffix: "°", seventh: false },
+  augmented: { intervals: [0, 4, 8], suffix: "aug", minorThird: false, numeralSuffix: "+", seventh: false },
+  sus2: { intervals: [0, 2, 7], suffix: "sus2", minorThird: false, numeralSuffix: "sus2", seventh: false },
+  sus4: { intervals: [0, 5, 7], suffix: "sus4", minorThird: false, numeralSuffix: "sus4", seventh: false },
+  dominant7: { intervals: [0, 4, 7, 10], suffix: "7", minorThird: false, numeralSuffix: "", seventh: true },
+  major7: { intervals: [0, 4, 7, 11], suffix: "maj7", minorThird: false, numeralSuffix: "M", seventh: true },
+  minor7: { intervals: [0, 3, 7, 10], suffix: "m7", minorThird: true, numeralSuffix: "", seventh: true },
+  "half-diminished7": { intervals: [0, 3, 6, 10], suffix: "m7b5", minorThird: true, numeralSuffix: "ø", seventh: true },
+  diminished7: { intervals: [0, 3, 6, 9], suffix: "dim7", minorThird: true, numeralSuffix: "°", seventh: true },
+};
+
+// Template scoring, on pitch-class weights that sum to 1: every chord tone
+// that doesn't sound costs MISSING_TONE_COST, and each template tone beyond
+// a triad costs EXTRA_TONE_COST, so a passing note doesn't turn a triad into
+// a seventh chord. Chords rooted on the bass note or on a scale degree win
+// ties.
+const MISSING_TONE_COST = 0.2;
+const EXTRA_TONE_COST = 0.25;
+const BASS_ROOT_BONUS = 0.1;
+const DIATONIC_ROOT_BONUS = 0.05;
+
+// At beat resolution, the pitches of the whole bar count for this much
+// against the beat's own, so a broken chord (an Alberti bass, say) whose
+// beats hold only part of the harmony is still read as the full chord
+const BAR_CONTEXT_WEIGHT = 0.5;
+
+// A window needs at least two pitch classes, each sounding for this share
+// of its notes, to be read as a chord rather than a lone melody note
+const MIN_CHORD_TONE_SHARE = 0.05;
+
+// Roman numeral of the chord root for each semitone above the tonic
+const MAJOR_KEY_DEGREES = ["I", "bII", "II", "bIII", "III", "IV", "#IV", "V", "bVI", "VI", "bVII", "VII"];
+const MINOR_KEY_DEGREES = ["I", "bII", "II", "III", "#III", "IV", "#IV", "V", "VI", "#VI", "VII", "#VII"];
+
+// Figured-bass inversion marks for triads and seventh chords, by the chord
+// tone in the bass (root, third, fifth, seventh)
+const TRIAD_FIGURES = ["", "6", "6/4"];
+const SEVENTH_FIGURES = ["7", "6/5", "4/3", "4/2"];
+
+// Function of the diatonic chords, by the semitones of the root above the
+// tonic. Mediant and submediant chords share the tonic's function.
+const DEGREE_FUNCTIONS: Record<MusicalKey["mode"], Partial<Record<number, HarmonicFunction>>> = {
+  major: { 0: "tonic", 2: "predominant", 4: "tonic", 5: "predominant", 7: "dominant", 9: "tonic", 11: "dominant" },
+  minor: { 0: "tonic", 2: "predominant", 3: "tonic", 5: "predominant", 7: "dominant", 8: "tonic", 11: "dominant" },
+};
+
+const pitchClassName = (pitchClass: number, key: MusicalKey): string =>
+  midiNumberToNote(60 + pitchClass, getKeySpelling(key.tonic, key.mode)).slice(0, -1);
+
+// Sounding time of each pitch class within a window, and its lowest pitch
+const measureWindow = (
+  notes: Array<{ midiNumber: number; start: number; end: number }>,
+  start: number,
+  end: number,
+): { weights: number[]; bass: number | null } => {
+  const weights = new Array(12).fill(0);
+  let lowest: number | null = null;
+  notes.forEach((note) => {
+    const overlap = Math.min(end, note.end) - Math.max(start, note.start);
+    if (overlap <= 0) return;
+    weights[note.midiNumber % 12] += overlap;
+    if (lowest === null || note.midiNumber < lowest) lowest = note.midiNumber;
+  });
+  return { weights, bass: lowest === null ? null : lowest % 12 };
+};
+
+// Best-fitting chord for a window's pitch-class weights; null if too few
+// pitch classes sound to make a chord
+const matchChord = (
+  weights: number[],
+  bass: number | null,
+  scale: number[],
+): { root: number; quality: ChordQuality } | null => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return null;
+  const shares = weights.map((weight) => weight / total);
+  if (shares.filter((share) => share >= MIN_CHORD_TONE_SHARE).length < 2) return null;
+
+  let best: { root: number; quality: ChordQuality } | null = null;
+  let bestScore = -Infinity;
+  for (let root = 0; root < 12; root++) {
+    (Object.keys(CHORD_TEMPLATES) as ChordQuality[]).forEach((quality) => {
+      const { intervals } = CHORD_TEMPLATES[quality];
+      const tones = intervals.map((interval) => (root + interval) % 12);
+      const covered = tones.reduce((sum, tone) => sum + shares[tone], 0);
+      const missing = tones.filter((tone) => shares[tone] === 0).length;
+      const score =
+        covered -
+        (1 - covered) -
+        missing * MISSING_TONE_COST -
+        (intervals.length - 3) * EXTRA_TONE_COST +
+        (root === bass ? BASS_ROOT_BONUS : 0) +
+        (scale.includes(root) ? DIATONIC_ROOT_BONUS : 0);
+      if (score > bestScore) {
+        bestScore = score;
+        best = { root, quality };
+      }
+    });
+  }
+  return best;
+};
+
+// Roman numeral of a chord in a key, with its inversion figure, e.g. "V6/5"
+// for G7/B in C major or "vii°7" for G#dim7 in A minor
+const getRomanNumeral = (
+  root: number,
+  quality: ChordQuality,
+  bass: number | null,
+  key: MusicalKey,
+): string => {
+  const tonic = getPitchClass(`${key.tonic}4`) ?? 0;
+  const template = CHORD_TEMPLATES[quality];
+  const interval = (root - tonic + 12) % 12;
+
+  let degree = (key.mode === "major" ? MAJOR_KEY_DEGREES : MINOR_KEY_DEGREES)[interval];
+  // The leading-tone chord in minor is written vii° without a sharp
+  if (key.mode === "minor" && interval === 11 && template.minorThird) degree = "VII";
+  const numeral = template.minorThird ? degree.toLowerCase() : degree;
+
+  const inversion = bass === null ? 0 : template.intervals.indexOf((bass - root + 12) % 12);
+  const figures = template.seventh ? SEVENTH_FIGURES : TRIAD_FIGURES;
+  // Suspended chords have no third, so they are written without a figure
+  const figure = quality === "sus2" || quality === "sus4" ? "" : figures[Math.max(0, inversion)];
+  return `${numeral}${template.numeralSuffix}${figure}`;
+};
+
+const getHarmonicFunction = (root: number, key: MusicalKey): HarmonicFunction => {
+  const tonic = getPitchClass(`${key.tonic}4`) ?? 0;
+  return DEGREE_FUNCTIONS[key.mode][(root - tonic + 12) % 12] ?? "other";
+};
+
+// Segment a piece into chords by beat or by bar, naming each and analysing
+// it in `key`. A window that repeats the previous chord, or sounds only a
+// fragment of it, extends it; windows with no harmony (silence or a single
+// pitch) are left out.
+export const analyzeHarmony = (
+  notes: Note[],
+  key: MusicalKey,
+  timeSignature?: TimeSignature,
+  resolution: HarmonyResolution = "beat",
+): HarmonyAnalysis => {
+  const timed = notes
+    .map((note) => ({
+      midiNumber: noteToMidiNumber(note.pitch),
+      start: note.start,
+      end: note.start + note.duration,
+    }))
+    .filter((note): note is { midiNumber: number; start: number; end: number } => note.midiNumber !== null);
+
+  const beatsPerBar = getBeatsPerBar(timeSignature);
+  const windowLength = resolution === "bar" ? beatsPerBar : 1;
+  const length = getSequenceLengthInBeats(notes);
+  const scale = getScalePitchClasses(key);
+  // Minor keys borrow the raised leading tone for their dominant chords
+  if (key.mode === "minor") scale.push((scale[0] + 11) % 12);
+
+  const chords: ChordSegment[] = [];
+  // Pitch classes of the last chord found
+  let previousTones: number[] = [];
+  for (let start = 0; start < length; start += windowLength) {
+    const end = start + windowLength;
+    const { weights, bass } = measureWindow(timed, start, end);
+    const sounding = weights.flatMap((weight, pitchClass) => (weight > 0 ? [pitchClass] : []));
+    if (resolution === "beat" && weights.some((weight) => weight > 0)) {
+      const barStart = Math.floor(start / beatsPerBar) * beatsPerBar;
+      const bar = measureWindow(timed, barStart, barStart + beatsPerBar).weights;
+      const beatTotal = weights.reduce((sum, weight) => sum + weight, 0);
+      const barTotal = bar.reduce((sum, weight) => sum + weight, 0);
+      bar.forEach((weight, pitchClass) => {
+        weights[pitchClass] += (weight / barTotal) * beatTotal * BAR_CONTEXT_WEIGHT;
+      });
+    }
+    const match = matchChord(weights, bass, scale);
+    if (!match) continue;
+
+    const { root, quality } = match;
+    const rootName = pitchClassName(root, key);
+
+    // The same chord continues, keeping the bass it started with, when the
+    // window matches it again or only sounds a fragment of it (one or two
+    // of its tones): a broken chord passes through its tones in the bass
+    // without changing inversion
+    const previous = chords[chords.length - 1];
+    const continues =
+      (previous?.root === rootName && previous.quality === quality) ||
+      (sounding.length <= 2 && sounding.every((pitchClass) => previousTones.includes(pitchClass)));
+    if (previous && continues && previous.end === start) {
+      previous.end = end;
+      continue;
+    }
+
+    const template = CHORD_TEMPLATES[quality];
+    previousTones = template.intervals.map((interval) => (root + interval) % 12);
+    const isChordBass = bass !== null && template.intervals.includes((bass - root + 12) % 12);
+    const chordBass = isChordBass ? bass : root;
+    const bassName = pitchClassName(chordBass, key);
+    const symbol = `${rootName}${template.suffix}${chordBass !== root ? `/${bassName}` : ""}`;
+    chords.push({
+      start,
+      end,
+      root: rootName,
+      quality,
+      bass: bassName,
+      symbol,
+      numeral: getRomanNumeral(root, quality, chordBass, key),
+      function: getHarmonicFunction(root, key),
+    });
+  }
+
+  return { key, chords };
+};
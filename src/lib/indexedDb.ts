@@ -0,0 +1,80 @@
+// Small promise wrappers around IndexedDB. Each feature keeps its own
+// database with one or more object stores keyed by an "id" property or by
+// explicit keys.
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== "undefined";
+
+// Resolve with the result of a request, or reject with its error
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+// Open a database, creating any missing object stores. Connections are
+// shared, so a database is opened once per page load.
+export const openDatabase = (name: string, stores: string[], version = 1): Promise<IDBDatabase> => {
+  const existing = openDatabases.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      for (const store of stores) {
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let a failed open be retried later
+  opening.catch(() => openDatabases.delete(name));
+  openDatabases.set(name, opening);
+  return opening;
+};
+
+// Resolve once a transaction commits, or reject if it fails
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Run one request against a store and wait for its transaction to commit
+export const withStore = async <T>(
+  database: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const transaction = (await database).transaction(storeName, mode);
+  const result = promisifyRequest(run(transaction.objectStore(storeName)));
+  await whenComplete(transaction);
+  return result;
+};
+
+// Run several requests against a store in one transaction, such as a
+// cursor walk and the writes it leads to, and wait for it to commit. The
+// requests must be made from run or from their own callbacks, or the
+// transaction ends early.
+export const withStoreTransaction = async (
+  database: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const transaction = (await database).transaction(storeName, mode);
+  run(transaction.objectStore(storeName));
+  await whenComplete(transaction);
+};
@@ -0,0 +1,106 @@
+// Plain-text melody entry. A melody is a list of tokens separated by spaces,
+// commas or bar lines:
+//   C4 D4 E4:2 R:0.5 G4:0.5 | C5:4
+// Each token is a pitch or R (a rest), optionally followed by its length in
+// beats after a colon. A token without a length lasts as long as the one
+// before it (one beat at the start).
+import type { Note } from "@/services/openai";
+import { DEFAULT_NOTE_DURATION, DEFAULT_NOTE_VELOCITY } from "./musicUtils";
+import { isValidNote } from "./pitch";
+
+export interface MelodyParseResult {
+  notes: Note[];
+  // One message per token that could not be read
+  errors: string[];
+}
+
+const REST = "R";
+const MAX_TOKEN_DURATION = 16;
+
+// Round to at most three decimals and drop trailing zeros
+const formatNumber = (value: number): string => {
+  return String(Math.round(value * 1000) / 1000);
+};
+
+/**
+ * Read a melody typed in the token format above. Notes are played by the
+ * right hand, back to back from beat 0.
+ * @param text The typed melody
+ */
+export const parseMelody = (text: string): MelodyParseResult => {
+  const notes: Note[] = [];
+  const errors: string[] = [];
+  const tokens = text.split(/[\s,|]+/).filter(Boolean);
+  let cursor = 0;
+  let duration = DEFAULT_NOTE_DURATION;
+
+  tokens.forEach((token, index) => {
+    const [name, length, ...extra] = token.split(":");
+    const position = `Token ${index + 1} ("${token}")`;
+
+    if (length !== undefined) {
+      const beats = Number(length);
+      if (extra.length > 0 || !Number.isFinite(beats) || beats <= 0 || beats > MAX_TOKEN_DURATION) {
+        errors.push(`${position}: the length must be a number of beats between 0 and ${MAX_TOKEN_DURATION}`);
+        return;
+      }
+      duration = beats;
+    }
+
+    // Accept lowercase note names, e.g. "c4" or "bb3"
+    const pitch = name.charAt(0).toUpperCase() + name.slice(1);
+    if (pitch === REST) {
+      cursor += duration;
+      return;
+    }
+    if (!isValidNote(pitch)) {
+      errors.push(`${position}: "${name}" is not a pitch such as C4, F#5 or Bb3`);
+      return;
+    }
+
+    notes.push({
+      pitch,
+      start: cursor,
+      duration,
+      velocity: DEFAULT_NOTE_VELOCITY,
+      voice: "right",
+    });
+    cursor += duration;
+  });
+
+  return { notes, errors };
+};
+
+/**
+ * Write notes in the token format, so a played or imported melody can be
+ * edited as text. Gaps become rests; of notes starting together only the
+ * highest is kept, and a note is cut short where the next one starts.
+ * @param notes Melody notes, ordered with sortNotes
+ */
+export const formatMelody = (notes: Note[]): string => {
+  const tokens: string[] = [];
+  let cursor = 0;
+  let previousDuration = DEFAULT_NOTE_DURATION;
+
+  const push = (name: string, duration: number) => {
+    tokens.push(duration === previousDuration ? name : `${name}:${formatNumber(duration)}`);
+    previousDuration = duration;
+  };
+
+  notes.forEach((note, index) => {
+    const next = notes.slice(index + 1).find((other) => other.start > note.start);
+    const sharedOnset = notes[index + 1]?.start === note.start;
+    // Chord tones below the top note are left out
+    if (sharedOnset) return;
+    if (note.start < cursor) return;
+
+    if (note.start > cursor) {
+      push(REST, note.start - cursor);
+    }
+    const end = next ? Math.min(note.start + note.duration, next.start) : note.start + note.duration;
+    push(note.pitch, end - note.start);
+    cursor = end;
+  });
+
+  return tokens.join(" ");
+};
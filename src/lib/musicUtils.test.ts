@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import type { Note, RawNoteEvent, ValidationIssue } from "@/services/openai";
+import {
+  KEY_TONIC_NAMES,
+  MAJOR_SCALE_STEPS,
+  MusicalKey,
+  detectKey,
+  getRelativeMajorTonic,
+  validateNoteSequence,
+  validateNotes,
+} from "./musicUtils";
+import { midiNumberToNote } from "./pitch";
+
+// Validate events into a fresh issue list
+const validate = (events: Array<RawNoteEvent | string>) => {
+  const issues: ValidationIssue[] = [];
+  const notes = validateNotes(events, "right", issues, "events");
+  return { notes, issues };
+};
+
+const event = (pitch: string, start: number, extra: Partial<RawNoteEvent> = {}): RawNoteEvent => ({
+  pitch,
+  start,
+  duration: 1,
+  velocity: 0.5,
+  ...extra,
+});
+
+describe("validateNotes issue report", () => {
+  it("reports nothing for a clean answer", () => {
+    const { notes, issues } = validate([event("C4", 0), event("E4", 1)]);
+    expect(notes.map((note) => note.pitch)).toEqual(["C4", "E4"]);
+    expect(issues).toEqual([]);
+  });
+
+  it("records normalized spellings as fixes on the pitch path", () => {
+    const { notes, issues } = validate([event("c#4", 0), event("B♭3", 1), event("Fx4", 2)]);
+    expect(notes.map((note) => note.pitch)).toEqual(["C#4", "Bb3", "F##4"]);
+    expect(issues).toEqual([
+      { path: "events[0].pitch", action: "fixed", message: '"c#4" read as C#4' },
+      { path: "events[1].pitch", action: "fixed", message: '"B♭3" read as Bb3' },
+      { path: "events[2].pitch", action: "fixed", message: '"Fx4" read as F##4' },
+    ]);
+  });
+
+  it("moves pitches beyond the keyboard by octaves and says so", () => {
+    const { notes, issues } = validate([event("C9", 0), event("G0", 1)]);
+    expect(notes.map((note) => note.pitch)).toEqual(["C8", "G1"]);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "C9 is outside the piano's range (A0 to C8); moved to C8",
+      "G0 is outside the piano's range (A0 to C8); moved to G1",
+    ]);
+    expect(issues.every((issue) => issue.action === "fixed")).toBe(true);
+  });
+
+  it("keeps rests as silence that moves the next note later", () => {
+    const { notes, issues } = validate([
+      event("C4", 0),
+      { pitch: "R", duration: 2, velocity: 0.5 },
+      { pitch: "D4", duration: 1, velocity: 0.5 },
+    ]);
+    expect(notes.map(({ pitch, start }) => [pitch, start])).toEqual([["C4", 0], ["D4", 3]]);
+    expect(issues).toEqual([
+      { path: "events[1]", action: "fixed", message: "Missing or negative start; placed at beat 1" },
+      { path: "events[1]", action: "fixed", message: "Rest kept as 2 beats of silence" },
+      { path: "events[2]", action: "fixed", message: "Missing or negative start; placed at beat 3" },
+    ]);
+  });
+
+  it("drops unreadable pitches and keeps the rest of a chord", () => {
+    const { notes, issues } = validate([
+      { pitches: ["C4", "E4", "C4", "H2", "G4"], start: 0, duration: 1, velocity: 0.5 },
+      event("nope", 1),
+    ]);
+    expect(notes.map((note) => note.pitch)).toEqual(["C4", "E4", "G4"]);
+    expect(issues).toEqual([
+      { path: "events[0].pitches[2]", action: "fixed", message: "Repeated pitch C4 removed from chord" },
+      { path: "events[0].pitches[3]", action: "dropped", message: '"H2" is not a valid pitch' },
+      { path: "events[1].pitch", action: "dropped", message: '"nope" is not a valid pitch' },
+    ]);
+  });
+
+  it("treats enharmonic repeats in a chord as duplicates", () => {
+    const { notes, issues } = validate([
+      { pitches: ["F#4", "Gb4"], start: 0, duration: 1, velocity: 0.5 },
+    ]);
+    expect(notes.map((note) => note.pitch)).toEqual(["F#4"]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe("events[0].pitches[1]");
+  });
+
+  it("reports filled-in rhythm and scaled velocity on the event", () => {
+    const { notes, issues } = validate([{ pitch: "A4", velocity: 100 } as RawNoteEvent]);
+    expect(notes).toHaveLength(1);
+    expect(notes[0].velocity).toBeCloseTo(100 / 127);
+    expect(issues.every((issue) => issue.path === "events[0]" && issue.action === "fixed")).toBe(true);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Missing or negative start; placed at beat 0",
+      "Missing or invalid duration; set to 1 beat",
+      "Velocity 100 scaled from 0-127 to 0.79",
+    ]);
+  });
+
+  it("plays plain pitch strings one beat each and reports them", () => {
+    const { notes, issues } = validate(["C4", "-", "e4"]);
+    expect(notes.map(({ pitch, start }) => [pitch, start])).toEqual([["C4", 0], ["E4", 2]]);
+    expect(issues).toEqual([
+      { path: "events[0]", action: "fixed", message: 'Plain pitch "C4" played as a one-beat note' },
+      { path: "events[1]", action: "fixed", message: 'Rest "-" kept as a one-beat silence' },
+      { path: "events[2]", action: "fixed", message: '"e4" read as E4' },
+      { path: "events[2]", action: "fixed", message: 'Plain pitch "e4" played as a one-beat note' },
+    ]);
+  });
+});
+
+describe("validateNoteSequence", () => {
+  it("prefixes issues with the hand they were found in", () => {
+    const issues: ValidationIssue[] = [];
+    const notes = validateNoteSequence(
+      {
+        voices: {
+          right: [event("c5", 0)],
+          left: [event("X3", 0), event("C3", 0)],
+        },
+      },
+      issues,
+    );
+    expect(notes.map(({ pitch, voice }) => [pitch, voice])).toEqual([["C3", "left"], ["C5", "right"]]);
+    expect(issues.map(({ path, action }) => [path, action])).toEqual([
+      ["voices.right[0].pitch", "fixed"],
+      ["voices.left[0].pitch", "dropped"],
+    ]);
+  });
+});
+
+// A melody up and down a scale from a tonic, with the tonic and fifth held
+// longer, the way tunes dwell on them
+const scaleMelody = (tonic: number, steps: number[]): Note[] => {
+  const degrees = [...steps, 12, ...[...steps].reverse()];
+  let start = 0;
+  return degrees.map((step) => {
+    const duration = step % 12 === 0 ? 2 : step === 7 ? 1.5 : 1;
+    const note: Note = { pitch: midiNumberToNote(60 + tonic + step), start, duration, velocity: 0.7, voice: "right" };
+    start += duration;
+    return note;
+  });
+};
+
+// Harmonic minor, with the raised seventh that marks a minor key
+const HARMONIC_MINOR_STEPS = [0, 2, 3, 5, 7, 8, 11];
+
+describe("detectKey", () => {
+  it("finds nothing without readable notes", () => {
+    expect(detectKey([])).toEqual([]);
+    expect(detectKey([{ pitch: "H4", start: 0, duration: 1, velocity: 0.5, voice: "right" }])).toEqual([]);
+  });
+
+  it("finds C major and A minor", () => {
+    expect(detectKey(scaleMelody(0, MAJOR_SCALE_STEPS))[0].key).toEqual({ tonic: "C", mode: "major" });
+    expect(detectKey(scaleMelody(9, HARMONIC_MINOR_STEPS))[0].key).toEqual({ tonic: "A", mode: "minor" });
+  });
+
+  it("finds every major key and names it as its key signature does", () => {
+    KEY_TONIC_NAMES.forEach((name, tonic) => {
+      expect(detectKey(scaleMelody(tonic, MAJOR_SCALE_STEPS))[0].key).toEqual({ tonic: name, mode: "major" });
+    });
+  });
+
+  it("names minor keys by their usual signature", () => {
+    const expected: MusicalKey[] = [
+      { tonic: "C#", mode: "minor" },
+      { tonic: "G#", mode: "minor" },
+      { tonic: "Eb", mode: "minor" },
+      { tonic: "Bb", mode: "minor" },
+    ];
+    [1, 8, 3, 10].forEach((tonic, i) => {
+      expect(detectKey(scaleMelody(tonic, HARMONIC_MINOR_STEPS))[0].key).toEqual(expected[i]);
+    });
+  });
+
+  it("weighs pitches by how long they sound", () => {
+    // The same white-key pitches; only the held triad tells the relatives apart
+    const notes = (held: string[]): Note[] =>
+      ["C4", "D4", "E4", "F4", "G4", "A4", "B4"].map((pitch, i) => ({
+        pitch,
+        start: i,
+        duration: held.includes(pitch) ? 4 : 0.5,
+        velocity: 0.5,
+        voice: "right",
+      }));
+    expect(detectKey(notes(["C4", "E4", "G4"]))[0].key).toEqual({ tonic: "C", mode: "major" });
+    expect(detectKey(notes(["A4", "C4", "E4"]))[0].key).toEqual({ tonic: "A", mode: "minor" });
+  });
+
+  it("returns candidates best first with confidences summing to one over all keys", () => {
+    const notes = scaleMelody(7, MAJOR_SCALE_STEPS);
+    const top = detectKey(notes);
+    expect(top).toHaveLength(3);
+    expect(top[0].correlation).toBeGreaterThanOrEqual(top[1].correlation);
+    expect(top[1].correlation).toBeGreaterThanOrEqual(top[2].correlation);
+    expect(top[0].confidence).toBeGreaterThan(top[1].confidence);
+
+    const all = detectKey(notes, 24);
+    expect(all).toHaveLength(24);
+    expect(all.reduce((sum, candidate) => sum + candidate.confidence, 0)).toBeCloseTo(1);
+    expect(all.every(({ correlation }) => correlation >= -1 && correlation <= 1)).toBe(true);
+  });
+});
+
+describe("getRelativeMajorTonic", () => {
+  it("gives the major key whose signature a key uses", () => {
+    expect(getRelativeMajorTonic({ tonic: "A", mode: "minor" })).toBe("C");
+    expect(getRelativeMajorTonic({ tonic: "D", mode: "minor" })).toBe("F");
+    expect(getRelativeMajorTonic({ tonic: "Eb", mode: "minor" })).toBe("Gb");
+    expect(getRelativeMajorTonic({ tonic: "C#", mode: "minor" })).toBe("E");
+    expect(getRelativeMajorTonic({ tonic: "Bb", mode: "major" })).toBe("Bb");
+  });
+});
@@ -1,15 +1,425 @@
 // Utility functions for music generation and playback
+import {
+  VOICES,
+  type Note,
+  type RawNoteEvent,
+  type RawNoteSequence,
+  type TimeSignature,
+  type ValidationIssue,
+  type Voice,
+} from "@/services/openai";
+import {
+  PIANO_HIGHEST_MIDI_NUMBER,
+  PIANO_LOWEST_MIDI_NUMBER,
+  MIDDLE_C,
+  formatPitch,
+  getKeySpelling,
+  getPitchClass,
+  isPianoMidiNumber,
+  isRestSymbol,
+  midiNumberToNote,
+  noteToFrequency,
+  noteToMidiNumber,
+  readLoosePitch,
+  spelledPitchToMidiNumber,
+} from "./pitch";
 
-// Validate if a note is in the correct format (e.g., C4, F#5, Bb3)
-export const isValidNote = (note: string): boolean => {
-  // Scientific pitch notation regex: note name (A-G), optional accidental (#, b), octave number
-  const regex = /^[A-G](#|b)?[0-8]$/;
-  return regex.test(note);
+// Default values used when the model omits rhythm or dynamics for a note
+export const DEFAULT_NOTE_DURATION = 1; // beats (quarter note)
+export const DEFAULT_NOTE_VELOCITY = 0.8;
+const MIN_NOTE_DURATION = 0.0625; // 64th note
+const MAX_NOTE_DURATION = 16; // four whole notes
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+// A pitch as read from a model's answer: a playable pitch name with the
+// corrections made to it, a rest, or nothing usable
+type PitchReading =
+  | { kind: "pitch"; pitch: string; midiNumber: number; corrections: string[] }
+  | { kind: "rest" }
+  | { kind: "invalid" };
+
+// Read one pitch, normalizing its spelling (letter case, Unicode sharps and
+// flats) and moving it by whole octaves into the piano's range
+const readPitch = (raw: unknown): PitchReading => {
+  if (typeof raw !== "string") return { kind: "invalid" };
+  if (isRestSymbol(raw)) return { kind: "rest" };
+
+  const spelled = readLoosePitch(raw);
+  if (!spelled) return { kind: "invalid" };
+
+  const corrections: string[] = [];
+  let pitch = formatPitch(spelled);
+  if (pitch !== raw) corrections.push(`"${raw}" read as ${pitch}`);
+
+  let midiNumber = spelledPitchToMidiNumber(spelled);
+  if (!isPianoMidiNumber(midiNumber)) {
+    const octaves =
+      midiNumber < PIANO_LOWEST_MIDI_NUMBER
+        ? Math.ceil((PIANO_LOWEST_MIDI_NUMBER - midiNumber) / 12)
+        : -Math.ceil((midiNumber - PIANO_HIGHEST_MIDI_NUMBER) / 12);
+    const moved = formatPitch({ ...spelled, octave: spelled.octave + octaves });
+    corrections.push(`${pitch} is outside the piano's range (A0 to C8); moved to ${moved}`);
+    pitch = moved;
+    midiNumber += octaves * 12;
+  }
+
+  return { kind: "pitch", pitch, midiNumber, corrections };
 };
 
-// Filter and validate notes
-export const validateNotes = (notes: string[]): string[] => {
-  return notes.filter((note) => isValidNote(note));
+// Filter and validate a list of events, normalizing them to timed notes.
+// Events play in `voice` unless they name their own hand. Chord events
+// expand to one note per pitch. Pitches are read leniently: letter case
+// and Unicode accidentals are normalized, rests ("R", "-") are kept as
+// silence, and pitches beyond the piano's keys are moved by octaves onto
+// them. Plain pitch strings are accepted for older responses and are laid
+// out back to back, one beat each. Every correction or removal is recorded
+// in `issues` when it is provided, with the path of the event or pitch.
+export const validateNotes = (
+  events: Array<RawNoteEvent | string>,
+  voice: Voice = "right",
+  issues: ValidationIssue[] = [],
+  pathPrefix: string = `voices.${voice}`,
+): Note[] => {
+  const validNotes: Note[] = [];
+  // End of each hand's previous event, used when an event has no start time
+  const cursors: Record<Voice, number> = { right: 0, left: 0 };
+
+  events.forEach((rawEvent, index) => {
+    const path = `${pathPrefix}[${index}]`;
+    const record = (
+      action: ValidationIssue["action"],
+      message: string,
+      issuePath: string = path,
+    ) => {
+      issues.push({ path: issuePath, action, message });
+    };
+
+    if (typeof rawEvent === "string") {
+      const reading = readPitch(rawEvent);
+      if (reading.kind === "invalid") {
+        record("dropped", `"${rawEvent}" is not a valid pitch`);
+        return;
+      }
+      if (reading.kind === "rest") {
+        record("fixed", `Rest "${rawEvent}" kept as a one-beat silence`);
+        cursors[voice] += DEFAULT_NOTE_DURATION;
+        return;
+      }
+      validNotes.push({
+        pitch: reading.pitch,
+        start: cursors[voice],
+        duration: DEFAULT_NOTE_DURATION,
+        velocity: DEFAULT_NOTE_VELOCITY,
+        voice,
+      });
+      reading.corrections.forEach((correction) => record("fixed", correction));
+      record("fixed", `Plain pitch "${rawEvent}" played as a one-beat note`);
+      cursors[voice] += DEFAULT_NOTE_DURATION;
+      return;
+    }
+
+    if (!rawEvent || typeof rawEvent !== "object") {
+      record("dropped", "Event is not an object");
+      return;
+    }
+
+    let eventVoice = voice;
+    if (rawEvent.hand === "right" || rawEvent.hand === "left") {
+      eventVoice = rawEvent.hand;
+    } else if (rawEvent.hand !== undefined) {
+      record("fixed", `Unknown hand "${String(rawEvent.hand)}"; played by the ${voice} hand`);
+    }
+    const cursor = cursors[eventVoice];
+
+    const hasPitchList = Array.isArray(rawEvent.pitches);
+    const rawPitches: unknown[] = hasPitchList ? rawEvent.pitches ?? [] : [rawEvent.pitch];
+    const pitches: string[] = [];
+    const midiNumbers: number[] = [];
+    let rests = 0;
+    rawPitches.forEach((rawPitch, pitchIndex) => {
+      const pitchPath = hasPitchList ? `${path}.pitches[${pitchIndex}]` : `${path}.pitch`;
+      const reading = readPitch(rawPitch);
+      if (reading.kind === "invalid") {
+        record("dropped", `"${String(rawPitch)}" is not a valid pitch`, pitchPath);
+        return;
+      }
+      if (reading.kind === "rest") {
+        rests++;
+        return;
+      }
+
+      if (midiNumbers.includes(reading.midiNumber)) {
+        record("fixed", `Repeated pitch ${reading.pitch} removed from chord`, pitchPath);
+        return;
+      }
+      reading.corrections.forEach((correction) => record("fixed", correction, pitchPath));
+      pitches.push(reading.pitch);
+      midiNumbers.push(reading.midiNumber);
+    });
+    if (pitches.length === 0 && rests === 0) {
+      // Pitches that couldn't be read were already recorded one by one
+      if (rawPitches.length === 0) record("dropped", "Event has no pitches");
+      return;
+    }
+    if (pitches.length > 0 && rests > 0) {
+      record("fixed", "Rest inside a chord ignored");
+    }
+
+    let start = cursor;
+    if (typeof rawEvent.start === "number" && rawEvent.start >= 0) {
+      start = rawEvent.start;
+    } else {
+      record("fixed", `Missing or negative start; placed at beat ${cursor}`);
+    }
+
+    let duration = DEFAULT_NOTE_DURATION;
+    if (typeof rawEvent.duration === "number" && rawEvent.duration > 0) {
+      duration = clamp(rawEvent.duration, MIN_NOTE_DURATION, MAX_NOTE_DURATION);
+      if (duration !== rawEvent.duration) {
+        record("fixed", `Duration ${rawEvent.duration} clamped to ${duration}`);
+      }
+    } else {
+      record("fixed", `Missing or invalid duration; set to ${duration} beat`);
+    }
+
+    if (pitches.length === 0) {
+      record("fixed", `Rest kept as ${duration} ${duration === 1 ? "beat" : "beats"} of silence`);
+      cursors[eventVoice] = start + duration;
+      return;
+    }
+
+    // Accept both 0-1 and MIDI-style 1-127 velocities
+    let velocity = DEFAULT_NOTE_VELOCITY;
+    if (typeof rawEvent.velocity === "number" && rawEvent.velocity > 0) {
+      if (rawEvent.velocity > 1) {
+        velocity = clamp(rawEvent.velocity / 127, 0, 1);
+        record(
+          "fixed",
+          `Velocity ${rawEvent.velocity} scaled from 0-127 to ${velocity.toFixed(2)}`,
+        );
+      } else {
+        velocity = rawEvent.velocity;
+      }
+    } else {
+      record("fixed", `Missing or invalid velocity; set to ${velocity}`);
+    }
+
+    pitches.forEach((pitch) => {
+      validNotes.push({ pitch, start, duration, velocity, voice: eventVoice });
+    });
+    cursors[eventVoice] = start + duration;
+  });
+
+  return sortNotes(validNotes);
+};
+
+// Validate every voice of a model response and merge them into one score
+export const validateNoteSequence = (
+  raw: RawNoteSequence,
+  issues: ValidationIssue[] = [],
+): Note[] => {
+  if (Array.isArray(raw.events)) {
+    return validateNotes(raw.events, "right", issues, "events");
+  }
+
+  if (raw.voices) {
+    return sortNotes(
+      VOICES.flatMap((voice) =>
+        validateNotes(raw.voices?.[voice] ?? [], voice, issues),
+      ),
+    );
+  }
+
+  return validateNotes(raw.notes ?? [], "right", issues);
+};
+
+// Order notes for playback: by start time, then low to high within a chord
+export const sortNotes = (notes: Note[]): Note[] => {
+  return [...notes].sort(
+    (a, b) =>
+      a.start - b.start ||
+      (noteToMidiNumber(a.pitch) ?? 0) - (noteToMidiNumber(b.pitch) ?? 0),
+  );
+};
+
+// Notes belonging to one hand
+export const getVoiceNotes = (notes: Note[], voice: Voice): Note[] => {
+  return notes.filter((note) => note.voice === voice);
+};
+
+// Total length of a note sequence in beats
+export const getSequenceLengthInBeats = (notes: Note[]): number => {
+  return notes.reduce(
+    (length, note) => Math.max(length, note.start + note.duration),
+    0,
+  );
+};
+
+// Lowest and highest pitch in a passage, or null if it has no notes
+export const getPitchRange = (
+  notes: Note[],
+): { lowest: string; highest: string } | null => {
+  const midiNumbers = notes
+    .map((note) => noteToMidiNumber(note.pitch))
+    .filter((midiNumber): midiNumber is number => midiNumber !== null);
+  if (midiNumbers.length === 0) return null;
+
+  return {
+    lowest: midiNumberToNote(Math.min(...midiNumbers)),
+    highest: midiNumberToNote(Math.max(...midiNumbers)),
+  };
+};
+
+// Tonic names used when naming keys, spelled the way key signatures are
+export const KEY_TONIC_NAMES = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+
+// Minor keys are named after their usual key signature, so C# minor (four
+// sharps) rather than Db minor
+const MINOR_KEY_TONIC_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "Bb",
+  "B",
+];
+
+export const MAJOR_SCALE_STEPS = [0, 2, 4, 5, 7, 9, 11];
+export const MINOR_SCALE_STEPS = [0, 2, 3, 5, 7, 8, 10];
+
+export interface MusicalKey {
+  tonic: string;
+  mode: "major" | "minor";
+}
+
+// A possible key for a passage. `correlation` is how closely the passage's
+// pitch distribution matches the key's profile (-1 to 1); `confidence` is
+// the key's share of the likelihood across all 24 keys (0 to 1).
+export interface KeyCandidate {
+  key: MusicalKey;
+  correlation: number;
+  confidence: number;
+}
+
+// Krumhansl-Kessler key profiles: how well each scale degree, from the
+// tonic up, was judged to fit a major or minor key context
+const KEY_PROFILES: Record<MusicalKey["mode"], number[]> = {
+  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+  minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+};
+
+// How sharply confidence favours the best-correlated keys; at 10, a key
+// whose correlation is 0.1 higher is e times as likely
+const KEY_CONFIDENCE_SHARPNESS = 10;
+
+const correlate = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  a.forEach((value, i) => {
+    covariance += (value - meanA) * (b[i] - meanB);
+    varianceA += (value - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  });
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+// Detect the key of a passage with the Krumhansl-Schmuckler algorithm: the
+// sounding time of each pitch class is correlated with the major and minor
+// profiles rotated to each of the 12 tonics. Returns the best `count`
+// candidates, most likely first, or none if no note can be read.
+export const detectKey = (notes: Note[], count: number = 3): KeyCandidate[] => {
+  const durations = new Array(12).fill(0);
+  notes.forEach((note) => {
+    const midiNumber = noteToMidiNumber(note.pitch);
+    if (midiNumber !== null) durations[midiNumber % 12] += note.duration;
+  });
+  if (durations.every((duration) => duration === 0)) return [];
+
+  const scored: Array<{ key: MusicalKey; correlation: number }> = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    (["major", "minor"] as const).forEach((mode) => {
+      const profile = KEY_PROFILES[mode].map((_, pitchClass) =>
+        KEY_PROFILES[mode][(pitchClass - tonic + 12) % 12],
+      );
+      const names = mode === "major" ? KEY_TONIC_NAMES : MINOR_KEY_TONIC_NAMES;
+      scored.push({ key: { tonic: names[tonic], mode }, correlation: correlate(durations, profile) });
+    });
+  }
+
+  const best = Math.max(...scored.map(({ correlation }) => correlation));
+  const weights = scored.map(({ correlation }) =>
+    Math.exp((correlation - best) * KEY_CONFIDENCE_SHARPNESS),
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return scored
+    .map((candidate, i) => ({ ...candidate, confidence: weights[i] / total }))
+    .sort((a, b) => b.correlation - a.correlation)
+    .slice(0, count);
+};
+
+// Estimate the key of a passage: the best match from detectKey, or C major
+// if there are no notes
+export const inferKey = (notes: Note[]): MusicalKey => {
+  return detectKey(notes, 1)[0]?.key ?? { tonic: "C", mode: "major" };
+};
+
+// Pitch classes (0 for C up to 11 for B) of a key's scale, tonic first.
+// Minor keys use the natural minor scale.
+export const getScalePitchClasses = (key: MusicalKey): number[] => {
+  const tonic = getPitchClass(`${key.tonic}4`) ?? 0;
+  const steps = key.mode === "major" ? MAJOR_SCALE_STEPS : MINOR_SCALE_STEPS;
+  return steps.map((step) => (tonic + step) % 12);
+};
+
+// Name of the major key sharing a key's signature, e.g. "C" for A minor or
+// "Gb" for Eb minor
+export const getRelativeMajorTonic = (key: MusicalKey): string => {
+  const tonic = getPitchClass(`${key.tonic}4`) ?? 0;
+  const relative = key.mode === "minor" ? (tonic + 3) % 12 : tonic;
+  return midiNumberToNote(MIDDLE_C + relative, getKeySpelling(key.tonic, key.mode)).slice(0, -1);
+};
+
+// Human-readable key name, e.g. "Eb major"
+export const formatKey = (key: MusicalKey): string => {
+  return `${key.tonic} ${key.mode}`;
+};
+
+// Length of a bar in beats (quarter notes); 4/4 when no meter is given
+export const getBeatsPerBar = (timeSignature?: TimeSignature): number => {
+  if (!timeSignature) return 4;
+  const [numerator, denominator] = timeSignature;
+  return (numerator * 4) / denominator;
+};
+
+// Time signature as written, e.g. "6/8"
+export const formatTimeSignature = (timeSignature?: TimeSignature): string => {
+  const [numerator, denominator] = timeSignature ?? [4, 4];
+  return `${numerator}/${denominator}`;
 };
 
 // Convert tempo (BPM) to milliseconds per beat
@@ -18,46 +428,6 @@ export const tempoToMs = (tempo: number, beatDivision: number = 1): number => {
   return 60000 / tempo / beatDivision;
 };
 
-// Simple note to frequency mapping for audio playback
-export const noteToFrequency = (note: string): number => {
-  const notes = [
-    "C",
-    "C#",
-    "D",
-    "D#",
-    "E",
-    "F",
-    "F#",
-    "G",
-    "G#",
-    "A",
-    "A#",
-    "B",
-  ];
-
-  // Parse the note
-  const noteName = note.replace(/[0-8]$/, "");
-  const octave = parseInt(note.slice(-1));
-
-  // Handle flats by converting to equivalent sharps
-  const normalizedNoteName = noteName
-    .replace("Bb", "A#")
-    .replace("Db", "C#")
-    .replace("Eb", "D#")
-    .replace("Gb", "F#")
-    .replace("Ab", "G#");
-
-  // Find the note index
-  const noteIndex = notes.indexOf(normalizedNoteName);
-
-  if (noteIndex === -1) return 0; // Invalid note
-
-  // Calculate frequency using the formula: f = 440 * 2^((n-49)/12)
-  // where n is the number of semitones from A4 (which is 49)
-  const semitonesFromA4 = (octave - 4) * 12 + noteIndex - 9;
-  return 440 * Math.pow(2, semitonesFromA4 / 12);
-};
-
 // Create a simple audio context and play a note
 let audioContext: AudioContext | null = null;
 
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { Note, NoteSequence } from "@/services/openai";
+import {
+  DEFAULT_HUMANIZE_AMOUNT,
+  DEFAULT_PERFORMANCE_SEED,
+  createPerformanceSeed,
+  renderPerformance,
+} from "./performance";
+import { getSequenceLengthInBeats } from "./musicUtils";
+
+const note = (pitch: string, start: number, duration: number, voice: Note["voice"] = "right"): Note => ({
+  pitch,
+  start,
+  duration,
+  velocity: 0.6,
+  voice,
+});
+
+// Four bars of 4/4: a stepwise melody over I-IV-V7-I, ending on a cadence
+const SCORE: NoteSequence = {
+  tempo: 100,
+  timeSignature: [4, 4],
+  notes: [
+    ...["E4", "F4", "G4", "E4", "F4", "A4", "C5", "A4", "G4", "F4", "D4", "B3"].map((pitch, i) =>
+      note(pitch, i, 1),
+    ),
+    note("C4", 12, 4),
+    ...[
+      ["C3", "G3"],
+      ["F3", "A3"],
+      ["G2", "F3"],
+      ["C3", "G3"],
+    ].flatMap((pitches, bar) => pitches.map((pitch) => note(pitch, bar * 4, 4, "left"))),
+  ],
+  sections: [
+    { name: "A", start: 0 },
+    { name: "B", start: 8 },
+  ],
+};
+
+describe("renderPerformance", () => {
+  it("plays exactly as written at amount 0, the default", () => {
+    expect(DEFAULT_HUMANIZE_AMOUNT).toBe(0);
+    const performance = renderPerformance(SCORE, { amount: DEFAULT_HUMANIZE_AMOUNT, seed: 42 });
+    expect(performance.sequence).toBe(SCORE);
+    expect(performance.toPerformedBeat(5.5)).toBe(5.5);
+    expect(performance.toScoreBeat(5.5)).toBe(5.5);
+  });
+
+  it("renders the same take for the same amount and seed", () => {
+    const first = renderPerformance(SCORE, { amount: 0.7, seed: 1234 }).sequence;
+    const second = renderPerformance(SCORE, { amount: 0.7, seed: 1234 }).sequence;
+    expect(second).toEqual(first);
+  });
+
+  it("uses the default seed when none is given", () => {
+    expect(renderPerformance(SCORE, { amount: 0.5 }).sequence).toEqual(
+      renderPerformance(SCORE, { amount: 0.5, seed: DEFAULT_PERFORMANCE_SEED }).sequence,
+    );
+  });
+
+  it("renders a different take for another seed", () => {
+    const first = renderPerformance(SCORE, { amount: 0.7, seed: 1 }).sequence;
+    const second = renderPerformance(SCORE, { amount: 0.7, seed: 2 }).sequence;
+    expect(second.notes.map((n) => n.start)).not.toEqual(first.notes.map((n) => n.start));
+    expect(second.notes.map((n) => n.velocity)).not.toEqual(first.notes.map((n) => n.velocity));
+  });
+
+  it("keeps every note, its pitch and its hand, with velocities in range", () => {
+    const { sequence } = renderPerformance(SCORE, { amount: 1, seed: 7 });
+    const byPitch = (notes: Note[]) => notes.map((n) => `${n.voice}:${n.pitch}`).sort();
+    expect(byPitch(sequence.notes)).toEqual(byPitch(SCORE.notes));
+    sequence.notes.forEach((n) => {
+      expect(n.velocity).toBeGreaterThanOrEqual(0.05);
+      expect(n.velocity).toBeLessThanOrEqual(1);
+      expect(n.start).toBeGreaterThanOrEqual(0);
+      expect(n.duration).toBeGreaterThan(0);
+    });
+  });
+
+  it("keeps a chord's notes together and slows into the final bar", () => {
+    const { sequence } = renderPerformance(SCORE, { amount: 1, seed: 99 });
+    const lastChord = sequence.notes.filter((n) => n.voice === "left" && ["C3", "G3"].includes(n.pitch)).slice(-2);
+    expect(Math.abs(lastChord[0].start - lastChord[1].start)).toBeLessThan(0.02);
+    expect(getSequenceLengthInBeats(sequence.notes)).toBeGreaterThan(getSequenceLengthInBeats(SCORE.notes));
+  });
+
+  it("converts between score and performed beats in both directions", () => {
+    const performance = renderPerformance(SCORE, { amount: 0.8, seed: 5 });
+    for (const beat of [0, 1, 3.5, 8, 11.25, 15.9, 16, 20]) {
+      expect(performance.toScoreBeat(performance.toPerformedBeat(beat))).toBeCloseTo(beat, 6);
+    }
+    // The closing ritardando stretches the end of the piece
+    expect(performance.toPerformedBeat(16)).toBeGreaterThan(16);
+    expect(performance.sequence.sections?.map((s) => s.start)).toEqual([
+      0,
+      performance.toPerformedBeat(8),
+    ]);
+  });
+});
+
+describe("createPerformanceSeed", () => {
+  it("draws positive whole numbers", () => {
+    for (let i = 0; i < 20; i++) {
+      const seed = createPerformanceSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,254 @@
+// Humanized performance of a score. Notes as generated are mechanically
+// even; the renderer shapes each phrase's dynamics, accents strong beats,
+// slows into cadences, overlaps stepwise melody notes slightly and adds
+// small random deviations in timing and loudness. The deviations are drawn
+// from a seeded generator, so a score rendered with the same amount and
+// seed always sounds the same.
+import type { Note, NoteSequence, TimeSignature } from "@/services/openai";
+import { analyzeHarmony } from "./harmony";
+import { getBeatsPerBar, getSequenceLengthInBeats, inferKey, sortNotes } from "./musicUtils";
+import { createRandom } from "./random";
+
+export interface PerformanceOptions {
+  // How much expression to add, from 0 (exactly as written) to 1
+  amount: number;
+  seed?: number;
+}
+
+// A rendered performance, and conversions between beats of the score and
+// beats of the performance, which drift apart wherever it slows down
+export interface Performance {
+  sequence: NoteSequence;
+  toPerformedBeat: (scoreBeat: number) => number;
+  toScoreBeat: (performedBeat: number) => number;
+}
+
+// Playback and export stay exactly as written until humanizing is turned on
+export const DEFAULT_HUMANIZE_AMOUNT = 0;
+export const DEFAULT_PERFORMANCE_SEED = 1;
+const MAX_PERFORMANCE_SEED = 999_999;
+
+// A fresh seed for a new take of the same performance
+export const createPerformanceSeed = (): number => 1 + Math.floor(Math.random() * MAX_PERFORMANCE_SEED);
+
+// Expression at full amount; everything scales linearly with the amount
+const TIMING_DEVIATION = 0.03; // beats, largest shift of an onset
+const CHORD_SPREAD = 0.008; // beats, largest shift of a note within a chord
+const VELOCITY_DEVIATION = 0.05;
+const PHRASE_SWELL = 0.14; // velocity difference between a phrase's peak and its ends
+const DOWNBEAT_ACCENT = 0.08;
+const SECONDARY_ACCENT = 0.04;
+const OFFBEAT_SOFTENING = 0.03;
+const RITARDANDO = 0.2; // share the tempo drops by at a cadence
+const FINAL_RITARDANDO = 0.35;
+const LEGATO_OVERLAP = 0.08; // beats
+
+// Phrases without a cadence are shaped in groups of this many bars
+const DEFAULT_PHRASE_BARS = 4;
+const MAX_PHRASE_BARS = 8;
+
+// Resolution of the table used to convert between score and performance beats
+const WARP_STEP = 1 / 16;
+
+const MIN_VELOCITY = 0.05;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+// A value in [-1, 1], more often near 0 than near the ends
+const randomDeviation = (random: () => number): number => random() + random() - 1;
+
+// Beats where an authentic cadence arrives: a dominant chord resolving to
+// the tonic at a bar line
+const findCadences = (notes: Note[], timeSignature?: TimeSignature): number[] => {
+  const { chords } = analyzeHarmony(notes, inferKey(notes), timeSignature, "bar");
+  return chords.flatMap((chord, i) => {
+    const previous = chords[i - 1];
+    const arrivesOnTonic = chord.function === "tonic" && /^[Ii](?![IiVv])/.test(chord.numeral);
+    return previous?.function === "dominant" && previous.end === chord.start && arrivesOnTonic
+      ? [chord.start]
+      : [];
+  });
+};
+
+// Tempo factor (1 as written, lower when slowing) at a beat: a ritardando
+// over the bar before each cadence, back in tempo as it arrives, and a
+// deeper one over the last bar
+const getTempoFactor = (
+  beat: number,
+  cadences: number[],
+  end: number,
+  beatsPerBar: number,
+  amount: number,
+): number => {
+  let factor = 1;
+  const slowings: Array<[number, number]> = [
+    ...cadences.map((cadence): [number, number] => [cadence, RITARDANDO]),
+    [end, FINAL_RITARDANDO],
+  ];
+  slowings.forEach(([point, depth]) => {
+    const from = point - beatsPerBar;
+    if (beat >= from && beat < point) {
+      factor = Math.min(factor, 1 - depth * amount * ((beat - from) / beatsPerBar));
+    }
+  });
+  return factor;
+};
+
+// Table of performed beats at every WARP_STEP of the score, and conversions
+// in both directions by interpolating it
+const buildTimeWarp = (
+  length: number,
+  tempoFactor: (beat: number) => number,
+): Pick<Performance, "toPerformedBeat" | "toScoreBeat"> => {
+  const steps = Math.ceil(length / WARP_STEP);
+  const performed = [0];
+  for (let i = 0; i < steps; i++) {
+    // Time taken by each step grows as the tempo falls
+    performed.push(performed[i] + WARP_STEP / tempoFactor((i + 0.5) * WARP_STEP));
+  }
+  const last = performed[steps];
+
+  const toPerformedBeat = (scoreBeat: number): number => {
+    if (scoreBeat <= 0) return scoreBeat;
+    if (scoreBeat >= steps * WARP_STEP) return last + (scoreBeat - steps * WARP_STEP);
+    const index = Math.floor(scoreBeat / WARP_STEP);
+    const fraction = scoreBeat / WARP_STEP - index;
+    return performed[index] + (performed[index + 1] - performed[index]) * fraction;
+  };
+
+  const toScoreBeat = (performedBeat: number): number => {
+    if (performedBeat <= 0) return performedBeat;
+    if (performedBeat >= last) return steps * WARP_STEP + (performedBeat - last);
+    let low = 0;
+    let high = steps;
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      if (performed[middle] <= performedBeat) low = middle;
+      else high = middle;
+    }
+    const fraction = (performedBeat - performed[low]) / (performed[high] - performed[low]);
+    return (low + fraction) * WARP_STEP;
+  };
+
+  return { toPerformedBeat, toScoreBeat };
+};
+
+// Velocity change for a note's place in the bar: accents on the downbeat
+// and the middle of even meters, slightly softer off the beat
+const getMetricAccent = (start: number, timeSignature?: TimeSignature): number => {
+  const [numerator, denominator] = timeSignature ?? [4, 4];
+  const beatsPerBar = getBeatsPerBar(timeSignature);
+  // Compound meters (6/8, 9/8, 12/8) are felt in dotted-quarter beats
+  const beatLength = denominator === 8 && numerator % 3 === 0 ? 1.5 : 4 / denominator;
+  const position = ((start % beatsPerBar) + beatsPerBar) % beatsPerBar;
+  const isOn = (beat: number) => Math.abs(position - beat) < 0.01;
+
+  if (isOn(0)) return DOWNBEAT_ACCENT;
+  const beatsInBar = Math.round(beatsPerBar / beatLength);
+  if (beatsInBar % 2 === 0 && beatsInBar > 2 && isOn(beatsPerBar / 2)) return SECONDARY_ACCENT;
+  const offset = position % beatLength;
+  return offset > 0.01 && beatLength - offset > 0.01 ? -OFFBEAT_SOFTENING : 0;
+};
+
+// Phrase boundaries: the cadences, with long stretches split into groups
+// of DEFAULT_PHRASE_BARS bars
+const getPhraseBoundaries = (cadences: number[], end: number, beatsPerBar: number): number[] => {
+  const boundaries = [0];
+  [...cadences, end].forEach((point) => {
+    const start = boundaries[boundaries.length - 1];
+    if (point <= start) return;
+    if (point - start > MAX_PHRASE_BARS * beatsPerBar) {
+      for (let split = start + DEFAULT_PHRASE_BARS * beatsPerBar; split < point; split += DEFAULT_PHRASE_BARS * beatsPerBar) {
+        boundaries.push(split);
+      }
+    }
+    if (point > boundaries[boundaries.length - 1]) boundaries.push(point);
+  });
+  return boundaries;
+};
+
+// Velocity change for a note's place in its phrase: an arch that swells
+// towards the middle and relaxes towards the ends
+const getPhraseSwell = (start: number, boundaries: number[]): number => {
+  const index = boundaries.findIndex((boundary, i) => start >= boundary && start < (boundaries[i + 1] ?? Infinity));
+  const from = boundaries[index] ?? 0;
+  const to = boundaries[index + 1] ?? from + 1;
+  const position = clamp((start - from) / (to - from), 0, 1);
+  return PHRASE_SWELL * (Math.sin(Math.PI * position) - 0.5);
+};
+
+// Lengthen each single melody note that leads straight into the next one,
+// so consecutive notes overlap slightly as in legato playing
+const addLegato = (notes: Note[], amount: number): Note[] => {
+  const overlap = LEGATO_OVERLAP * amount;
+  // Notes of each hand by onset, with beats rounded to the warp table's step
+  const onsets = new Map<string, Note[]>();
+  const onsetKey = (voice: string, beat: number) => `${voice}:${Math.round(beat / WARP_STEP)}`;
+  notes.forEach((note) => {
+    const key = onsetKey(note.voice, note.start);
+    onsets.set(key, [...(onsets.get(key) ?? []), note]);
+  });
+
+  return notes.map((note) => {
+    const next = onsets.get(onsetKey(note.voice, note.start + note.duration));
+    if (onsets.get(onsetKey(note.voice, note.start))?.length !== 1 || next?.length !== 1) return note;
+    return { ...note, duration: note.duration + Math.min(overlap, next[0].duration / 2) };
+  });
+};
+
+/**
+ * Render a score as a humanized performance. With an amount of 0 the
+ * score is returned as written.
+ * @param score The notes as written, in beats
+ * @param options Amount of expression and the seed for its deviations
+ */
+export const renderPerformance = (score: NoteSequence, options: PerformanceOptions): Performance => {
+  const amount = clamp(options.amount, 0, 1);
+  if (amount === 0 || score.notes.length === 0) {
+    return { sequence: score, toPerformedBeat: (beat) => beat, toScoreBeat: (beat) => beat };
+  }
+
+  const random = createRandom(options.seed ?? DEFAULT_PERFORMANCE_SEED);
+  const beatsPerBar = getBeatsPerBar(score.timeSignature);
+  const end = getSequenceLengthInBeats(score.notes);
+  const cadences = findCadences(score.notes, score.timeSignature).filter((beat) => beat < end);
+  const phrases = getPhraseBoundaries(cadences, end, beatsPerBar);
+  const warp = buildTimeWarp(end, (beat) => getTempoFactor(beat, cadences, end, beatsPerBar, amount));
+
+  // Notes struck together by one hand move together, apart from a small spread
+  const onsetShifts = new Map<string, number>();
+  const notes = addLegato(sortNotes(score.notes), amount).map((note) => {
+    const onset = `${note.voice}:${note.start}`;
+    if (!onsetShifts.has(onset)) {
+      onsetShifts.set(onset, randomDeviation(random) * TIMING_DEVIATION * amount);
+    }
+    const shift = (onsetShifts.get(onset) ?? 0) + randomDeviation(random) * CHORD_SPREAD * amount;
+    const start = Math.max(0, warp.toPerformedBeat(note.start) + shift);
+    const noteEnd = warp.toPerformedBeat(note.start + note.duration) + shift;
+
+    const expression =
+      getPhraseSwell(note.start, phrases) +
+      getMetricAccent(note.start, score.timeSignature) +
+      randomDeviation(random) * VELOCITY_DEVIATION;
+
+    return {
+      ...note,
+      start,
+      duration: Math.max(noteEnd - start, note.duration / 2),
+      velocity: clamp(note.velocity + expression * amount, MIN_VELOCITY, 1),
+    };
+  });
+
+  return {
+    sequence: {
+      ...score,
+      notes: sortNotes(notes),
+      sections: score.sections?.map((section) => ({
+        ...section,
+        start: warp.toPerformedBeat(section.start),
+      })),
+    },
+    ...warp,
+  };
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PPQ,
+  beatsToTicks,
+  formatPitch,
+  getKeySpelling,
+  midiNumberToNote,
+  noteToMidiNumber,
+  parsePitch,
+  readLoosePitch,
+  respellPitch,
+  spelledPitchToMidiNumber,
+  ticksToBeats,
+} from "./pitch";
+
+describe("parsePitch", () => {
+  it("reads naturals, single and double accidentals", () => {
+    expect(parsePitch("C4")).toEqual({ letter: "C", alteration: 0, octave: 4 });
+    expect(parsePitch("F#5")).toEqual({ letter: "F", alteration: 1, octave: 5 });
+    expect(parsePitch("Bb3")).toEqual({ letter: "B", alteration: -1, octave: 3 });
+    expect(parsePitch("C##4")).toEqual({ letter: "C", alteration: 2, octave: 4 });
+    expect(parsePitch("Ebb2")).toEqual({ letter: "E", alteration: -2, octave: 2 });
+  });
+
+  it("reads octaves -1 and 9", () => {
+    expect(parsePitch("C-1")).toEqual({ letter: "C", alteration: 0, octave: -1 });
+    expect(parsePitch("G9")).toEqual({ letter: "G", alteration: 0, octave: 9 });
+  });
+
+  it("rejects loose spellings and names outside scientific notation", () => {
+    for (const name of ["c4", "H4", "C###4", "Cx4", "C10", "C-2", "C", "4", "", "C 4", "F♯4"]) {
+      expect(parsePitch(name)).toBeNull();
+    }
+  });
+
+  it("round-trips through formatPitch", () => {
+    for (const name of ["C4", "F#5", "Bb3", "C##4", "Ebb2", "A-1"]) {
+      expect(formatPitch(parsePitch(name)!)).toBe(name);
+    }
+  });
+});
+
+describe("readLoosePitch", () => {
+  it("accepts either letter case and x for a double sharp", () => {
+    expect(readLoosePitch("c#4")).toEqual({ letter: "C", alteration: 1, octave: 4 });
+    expect(readLoosePitch("Fx5")).toEqual({ letter: "F", alteration: 2, octave: 5 });
+    expect(readLoosePitch("gbb3")).toEqual({ letter: "G", alteration: -2, octave: 3 });
+  });
+
+  it("converts Unicode accidentals", () => {
+    expect(readLoosePitch("B♭3")).toEqual({ letter: "B", alteration: -1, octave: 3 });
+    expect(readLoosePitch("F♯4")).toEqual({ letter: "F", alteration: 1, octave: 4 });
+    expect(readLoosePitch("C\u{1D12A}4")).toEqual({ letter: "C", alteration: 2, octave: 4 });
+    expect(readLoosePitch("D\u{1D12B}4")).toEqual({ letter: "D", alteration: -2, octave: 4 });
+    expect(readLoosePitch("E♮4")).toEqual({ letter: "E", alteration: 0, octave: 4 });
+  });
+
+  it("trims whitespace and leaves the octave unchecked", () => {
+    expect(readLoosePitch("  a4 ")).toEqual({ letter: "A", alteration: 0, octave: 4 });
+    expect(readLoosePitch("C10")).toEqual({ letter: "C", alteration: 0, octave: 10 });
+    expect(readLoosePitch("C-1")).toEqual({ letter: "C", alteration: 0, octave: -1 });
+  });
+
+  it("rejects text that is not a pitch", () => {
+    for (const text of ["", "R", "-", "H4", "C", "C#", "C123", "4C"]) {
+      expect(readLoosePitch(text)).toBeNull();
+    }
+  });
+});
+
+describe("noteToMidiNumber", () => {
+  it("numbers the ends of the MIDI range", () => {
+    expect(noteToMidiNumber("C-1")).toBe(0);
+    expect(noteToMidiNumber("G9")).toBe(127);
+    expect(noteToMidiNumber("Cb-1")).toBeNull();
+    expect(noteToMidiNumber("G#9")).toBeNull();
+    expect(noteToMidiNumber("A9")).toBeNull();
+  });
+
+  it("keeps the octave with the letter across the B-C boundary", () => {
+    expect(noteToMidiNumber("Cb4")).toBe(59);
+    expect(noteToMidiNumber("B3")).toBe(59);
+    expect(noteToMidiNumber("B#3")).toBe(60);
+    expect(noteToMidiNumber("C4")).toBe(60);
+    expect(noteToMidiNumber("B##3")).toBe(61);
+    expect(noteToMidiNumber("Cbb4")).toBe(58);
+  });
+
+  it("moves E# and Fb across the E-F boundary without changing octave", () => {
+    expect(noteToMidiNumber("E#4")).toBe(65);
+    expect(noteToMidiNumber("F4")).toBe(65);
+    expect(noteToMidiNumber("Fb4")).toBe(64);
+  });
+
+  it("respells wrapped names with their sounding octave", () => {
+    expect(respellPitch("Cb4")).toBe("B3");
+    expect(respellPitch("B#3")).toBe("C4");
+    expect(respellPitch("E#4")).toBe("F4");
+    expect(respellPitch("Cbb4", "flats")).toBe("Bb3");
+  });
+
+  it("agrees with spelledPitchToMidiNumber outside the range", () => {
+    expect(spelledPitchToMidiNumber({ letter: "C", alteration: -1, octave: -1 })).toBe(-1);
+    expect(spelledPitchToMidiNumber({ letter: "C", alteration: 0, octave: 10 })).toBe(132);
+  });
+});
+
+describe("midiNumberToNote", () => {
+  it("names black keys with sharps by default", () => {
+    expect(midiNumberToNote(60)).toBe("C4");
+    expect(midiNumberToNote(61)).toBe("C#4");
+    expect(midiNumberToNote(0)).toBe("C-1");
+    expect(midiNumberToNote(127)).toBe("G9");
+  });
+
+  it("spells black keys from the key signature", () => {
+    const inKey = (midiNumber: number, tonic: string, mode: "major" | "minor") =>
+      midiNumberToNote(midiNumber, getKeySpelling(tonic, mode));
+
+    expect(inKey(70, "F", "major")).toBe("Bb4");
+    expect(inKey(70, "D", "minor")).toBe("Bb4");
+    expect(inKey(63, "Eb", "major")).toBe("Eb4");
+    expect(inKey(66, "G", "major")).toBe("F#4");
+    expect(inKey(66, "E", "minor")).toBe("F#4");
+    expect(inKey(68, "A", "major")).toBe("G#4");
+    expect(inKey(61, "C", "minor")).toBe("Db4");
+    expect(inKey(61, "C", "major")).toBe("C#4");
+  });
+});
+
+describe("getKeySpelling", () => {
+  it("follows the accidental in the tonic name", () => {
+    expect(getKeySpelling("F#", "major")).toBe("sharps");
+    expect(getKeySpelling("Bb", "minor")).toBe("flats");
+  });
+
+  it("uses flats for natural tonics whose signature has flats", () => {
+    expect(getKeySpelling("F", "major")).toBe("flats");
+    expect(getKeySpelling("D", "minor")).toBe("flats");
+    expect(getKeySpelling("G", "minor")).toBe("flats");
+    expect(getKeySpelling("C", "major")).toBe("sharps");
+    expect(getKeySpelling("A", "minor")).toBe("sharps");
+    expect(getKeySpelling("D", "major")).toBe("sharps");
+  });
+});
+
+describe("beatsToTicks and ticksToBeats", () => {
+  it("use the default resolution", () => {
+    expect(beatsToTicks(1)).toBe(DEFAULT_PPQ);
+    expect(ticksToBeats(DEFAULT_PPQ)).toBe(1);
+  });
+
+  it("round-trip beats on the tick grid", () => {
+    for (const beats of [0, 0.25, 0.5, 1 / 3, 1.5, 3.75, 16, 1000]) {
+      for (const ppq of [96, 480, 960]) {
+        const ticks = beatsToTicks(beats, ppq);
+        expect(Number.isInteger(ticks)).toBe(true);
+        expect(beatsToTicks(ticksToBeats(ticks, ppq), ppq)).toBe(ticks);
+        expect(Math.abs(ticksToBeats(ticks, ppq) - beats)).toBeLessThanOrEqual(0.5 / ppq);
+      }
+    }
+  });
+
+  it("round-trip ticks exactly", () => {
+    for (const ticks of [0, 1, 120, 479, 480, 12345]) {
+      expect(beatsToTicks(ticksToBeats(ticks))).toBe(ticks);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+// Pitch spelling, MIDI note numbers, frequencies and MIDI time. Every part
+// of the app reads and writes pitches through this module, so they all agree
+// on which names are valid and which key a name refers to.
+
+export type Letter = "C" | "D" | "E" | "F" | "G" | "A" | "B";
+
+// A pitch as written: letter, sharps (positive) or flats (negative), and
+// octave. The octave belongs to the letter, so B#3 sounds as C4 and Cb4 as B3.
+export interface SpelledPitch {
+  letter: Letter;
+  alteration: number;
+  octave: number;
+}
+
+// Whether black keys are named with sharps (C#) or flats (Db)
+export type Spelling = "sharps" | "flats";
+
+// Full MIDI range, C-1 to G9
+export const LOWEST_MIDI_NUMBER = 0;
+export const HIGHEST_MIDI_NUMBER = 127;
+// Range of an 88-key piano, A0 to C8
+export const PIANO_LOWEST_MIDI_NUMBER = 21;
+export const PIANO_HIGHEST_MIDI_NUMBER = 108;
+
+export const MIDDLE_C = 60;
+const A4_MIDI_NUMBER = 69;
+export const A4_FREQUENCY = 440;
+
+// Ticks per quarter note used for MIDI files written by the app
+export const DEFAULT_PPQ = 480;
+
+// Scientific pitch notation: a letter, up to two sharps or flats, and an
+// octave from -1 to 9
+const PITCH_PATTERN = /^([A-G])(##|#|bb|b)?(-1|\d)$/;
+
+// Semitones above C of each natural note
+const LETTER_OFFSETS: Record<Letter, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+const ACCIDENTAL_ALTERATIONS: Record<string, number> = {
+  "": 0,
+  "#": 1,
+  "##": 2,
+  b: -1,
+  bb: -2,
+};
+
+// Names of the twelve pitch classes, from C
+const SHARP_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLAT_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+// Looser spelling accepted when reading pitches written by hand or by a
+// model: either letter case, "x" for a double sharp, and any octave
+const LOOSE_PITCH_PATTERN = /^([A-Ga-g])(##|#|x|bb|b)?(-?\d{1,2})$/;
+
+// Unicode accidentals and their ASCII spellings
+const UNICODE_ACCIDENTALS: Array<[RegExp, string]> = [
+  [/\u{1D12A}/gu, "##"],
+  [/\u{1D12B}/gu, "bb"],
+  [/\u266F/g, "#"],
+  [/\u266D/g, "b"],
+  [/\u266E/g, ""],
+];
+
+// Pitch classes of the major keys with natural-letter relative minors that
+// are written with flats (F, Bb, Eb and Ab)
+const FLAT_MAJOR_KEYS = [5, 10, 3, 8];
+
+// Read a pitch name such as "F#5", "Bb3" or "C##4"; null if it isn't one
+export const parsePitch = (pitch: string): SpelledPitch | null => {
+  const match = pitch.match(PITCH_PATTERN);
+  if (!match) return null;
+
+  const [, letter, accidental = "", octave] = match;
+  return {
+    letter: letter as Letter,
+    alteration: ACCIDENTAL_ALTERATIONS[accidental],
+    octave: parseInt(octave, 10),
+  };
+};
+
+// Read a loosely written pitch such as "c#4", "B♭3", "Fx5" or "C10";
+// null if it isn't one. The octave is not checked against any range.
+export const readLoosePitch = (text: string): SpelledPitch | null => {
+  const ascii = UNICODE_ACCIDENTALS.reduce(
+    (name, [pattern, replacement]) => name.replace(pattern, replacement),
+    text.trim(),
+  );
+  const match = ascii.match(LOOSE_PITCH_PATTERN);
+  if (!match) return null;
+
+  const [, letter, accidental = "", octave] = match;
+  return {
+    letter: letter.toUpperCase() as Letter,
+    alteration: ACCIDENTAL_ALTERATIONS[accidental === "x" ? "##" : accidental],
+    octave: parseInt(octave, 10),
+  };
+};
+
+// Rests written where a pitch was expected: "R", "rest" or a dash
+const REST_PATTERN = /^(r|rest|-+|\u2013|\u2014)$/i;
+
+export const isRestSymbol = (text: string): boolean => REST_PATTERN.test(text.trim());
+
+// Write a spelled pitch as a name, e.g. { E, -1, 4 } as "Eb4"
+export const formatPitch = ({ letter, alteration, octave }: SpelledPitch): string => {
+  const accidental = alteration > 0 ? "#".repeat(alteration) : "b".repeat(-alteration);
+  return `${letter}${accidental}${octave}`;
+};
+
+// MIDI number of a spelled pitch, which may fall outside the MIDI range
+export const spelledPitchToMidiNumber = ({ letter, alteration, octave }: SpelledPitch): number =>
+  (octave + 1) * 12 + LETTER_OFFSETS[letter] + alteration;
+
+// MIDI note number of a pitch name; null if the name can't be read or lies
+// outside the MIDI range
+export const noteToMidiNumber = (pitch: string): number | null => {
+  const parsed = parsePitch(pitch);
+  if (!parsed) return null;
+
+  const midiNumber = spelledPitchToMidiNumber(parsed);
+  if (midiNumber < LOWEST_MIDI_NUMBER || midiNumber > HIGHEST_MIDI_NUMBER) return null;
+  return midiNumber;
+};
+
+// Whether a string is a pitch name within the MIDI range (e.g. C4, F#5, Bb3)
+export const isValidNote = (pitch: string): boolean => noteToMidiNumber(pitch) !== null;
+
+// Whether a MIDI note number can be played on an 88-key piano
+export const isPianoMidiNumber = (midiNumber: number): boolean =>
+  midiNumber >= PIANO_LOWEST_MIDI_NUMBER && midiNumber <= PIANO_HIGHEST_MIDI_NUMBER;
+
+// Name of a MIDI note number. Black keys use sharps unless flats are asked for.
+export const midiNumberToNote = (midiNumber: number, spelling: Spelling = "sharps"): string => {
+  const pitchClass = ((midiNumber % 12) + 12) % 12;
+  const octave = Math.floor(midiNumber / 12) - 1;
+  return `${(spelling === "flats" ? FLAT_NAMES : SHARP_NAMES)[pitchClass]}${octave}`;
+};
+
+// Pitch class (0 for C up to 11 for B) of a pitch name; null if invalid
+export const getPitchClass = (pitch: string): number | null => {
+  const midiNumber = noteToMidiNumber(pitch);
+  return midiNumber === null ? null : midiNumber % 12;
+};
+
+// Whether two pitch names sound the same, e.g. "F#4" and "Gb4"
+export const areEnharmonic = (a: string, b: string): boolean => {
+  const midiNumber = noteToMidiNumber(a);
+  return midiNumber !== null && midiNumber === noteToMidiNumber(b);
+};
+
+// Simplest name for a pitch, with at most one sharp or flat, e.g. "B#3"
+// as "C4" or "Fb4" as "E4"; null if the name is invalid
+export const respellPitch = (pitch: string, spelling: Spelling = "sharps"): string | null => {
+  const midiNumber = noteToMidiNumber(pitch);
+  return midiNumber === null ? null : midiNumberToNote(midiNumber, spelling);
+};
+
+// Whether a key's signature uses flats, e.g. flats for F major and D minor
+export const getKeySpelling = (tonic: string, mode: "major" | "minor"): Spelling => {
+  if (tonic.includes("#")) return "sharps";
+  if (tonic.includes("b")) return "flats";
+
+  const pitchClass = getPitchClass(`${tonic}4`);
+  if (pitchClass === null) return "sharps";
+  const relativeMajor = mode === "minor" ? (pitchClass + 3) % 12 : pitchClass;
+  return FLAT_MAJOR_KEYS.includes(relativeMajor) ? "flats" : "sharps";
+};
+
+// Frequency in Hz of a MIDI note number, in equal temperament
+export const midiNumberToFrequency = (midiNumber: number, tuning: number = A4_FREQUENCY): number =>
+  tuning * Math.pow(2, (midiNumber - A4_MIDI_NUMBER) / 12);
+
+// Frequency in Hz of a pitch name; 0 if the name is invalid
+export const noteToFrequency = (pitch: string): number => {
+  const midiNumber = noteToMidiNumber(pitch);
+  return midiNumber === null ? 0 : midiNumberToFrequency(midiNumber);
+};
+
+// Convert a time in beats (quarter notes) to MIDI ticks
+export const beatsToTicks = (beats: number, ppq: number = DEFAULT_PPQ): number =>
+  Math.round(beats * ppq);
+
+// Convert MIDI ticks to a time in beats (quarter notes)
+export const ticksToBeats = (ticks: number, ppq: number = DEFAULT_PPQ): number => ticks / ppq;
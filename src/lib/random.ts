@@ -0,0 +1,37 @@
+// Seeded randomness, so offline compositions are repeatable: the same
+// seed always gives the same sequence of numbers
+
+// Small seeded PRNG (mulberry32) returning numbers in [0, 1)
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Random = ReturnType<typeof createRandom>;
+
+// FNV-1a hash of a string, used as a seed
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Pick one option, each with a chance proportional to its weight
+export const pickWeighted = <T>(random: Random, options: Array<[T, number]>): T => {
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+  let target = random() * total;
+  for (const [option, weight] of options) {
+    target -= weight;
+    if (target < 0) return option;
+  }
+  return options[options.length - 1][0];
+};
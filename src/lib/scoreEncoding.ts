@@ -0,0 +1,38 @@
+// Compact text encoding of a score, used to send existing music back to the
+// model as context. It is much shorter than the JSON answer format.
+import type { Note } from "@/services/openai";
+import { sortNotes } from "./musicUtils";
+
+// Round to at most three decimals and drop trailing zeros
+const formatNumber = (value: number): string => {
+  return String(Math.round(value * 1000) / 1000);
+};
+
+/**
+ * Encode notes as one line per event:
+ *   <hand R|L> <start> <duration> <velocity 0-100> <pitches joined by +>
+ * Notes of the same hand sharing start, duration and velocity form a chord.
+ * @param notes Notes to encode
+ */
+export const encodeNotesCompact = (notes: Note[]): string => {
+  const lines: string[] = [];
+  let previousKey = "";
+
+  sortNotes(notes).forEach((note) => {
+    const velocity = Math.round(note.velocity * 100);
+    const key = `${note.voice === "left" ? "L" : "R"} ${formatNumber(note.start)} ${formatNumber(note.duration)} ${velocity}`;
+
+    if (key === previousKey) {
+      lines[lines.length - 1] += `+${note.pitch}`;
+    } else {
+      lines.push(`${key} ${note.pitch}`);
+      previousKey = key;
+    }
+  });
+
+  return lines.join("\n");
+};
+
+// Explanation of the encoding, included in prompts that use it
+export const COMPACT_ENCODING_LEGEND =
+  "Each line is one event: hand (R = right, L = left), start beat, duration in beats, velocity (0-100), pitches joined by +.";
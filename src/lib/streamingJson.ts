@@ -0,0 +1,135 @@
+// Incremental extraction of composition events from a JSON answer that is
+// still being streamed. Each event object is reported as soon as its closing
+// brace arrives, so playback can start long before the answer is complete.
+
+interface Frame {
+  type: "object" | "array";
+  // Key under which this container sits in its parent object, if any
+  key: string | null;
+  start: number;
+}
+
+export interface CompositionStreamParser {
+  // Feed the next fragment of the answer; returns the events it completed
+  push: (fragment: string) => unknown[];
+  // Tempo, once its value has been read
+  getTempo: () => number | undefined;
+}
+
+export const createCompositionStreamParser = (): CompositionStreamParser => {
+  let buffer = "";
+  let position = 0;
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString: string | null = null;
+  let pendingKey: string | null = null;
+
+  // Primitive value of a top-level key that is still being read
+  let valueStart = -1;
+  let valueKey: string | null = null;
+  let tempo: number | undefined;
+
+  const flushValue = (end: number) => {
+    if (valueStart === -1) return;
+    const value = Number(buffer.slice(valueStart, end).trim());
+    if (valueKey === "tempo" && isFinite(value)) {
+      tempo = value;
+    }
+    valueStart = -1;
+    valueKey = null;
+  };
+
+  const push = (fragment: string): unknown[] => {
+    buffer += fragment;
+    const completed: unknown[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          try {
+            lastString = JSON.parse(buffer.slice(stringStart, position + 1));
+          } catch {
+            lastString = null;
+          }
+        }
+        continue;
+      }
+
+      // Ignore anything (such as a markdown fence) before the root object
+      if (stack.length === 0 && char !== "{") continue;
+
+      const top = stack[stack.length - 1];
+
+      switch (char) {
+        case '"':
+          inString = true;
+          stringStart = position;
+          break;
+        case ":":
+          pendingKey = lastString;
+          break;
+        case "{":
+        case "[":
+          stack.push({
+            type: char === "{" ? "object" : "array",
+            key: top?.type === "object" ? pendingKey : null,
+            start: position,
+          });
+          pendingKey = null;
+          break;
+        case "}":
+        case "]": {
+          flushValue(position);
+          const frame = stack.pop();
+          const parent = stack[stack.length - 1];
+          // An event is an object directly inside the root's "events" array
+          if (
+            frame?.type === "object" &&
+            stack.length === 2 &&
+            parent.type === "array" &&
+            parent.key === "events"
+          ) {
+            try {
+              completed.push(JSON.parse(buffer.slice(frame.start, position + 1)));
+            } catch {
+              // Malformed event; the full answer is validated at the end
+            }
+          }
+          break;
+        }
+        case ",":
+          flushValue(position);
+          pendingKey = null;
+          break;
+        default:
+          // Start of a primitive value of a top-level key
+          if (
+            valueStart === -1 &&
+            stack.length === 1 &&
+            pendingKey !== null &&
+            !/\s/.test(char)
+          ) {
+            valueStart = position;
+            valueKey = pendingKey;
+          }
+      }
+    }
+
+    return completed;
+  };
+
+  return {
+    push,
+    getTempo: () => tempo,
+  };
+};
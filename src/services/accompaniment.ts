@@ -0,0 +1,149 @@
+// Accompaniment for a given melody. The melody is sent to the model as
+// context and the model writes only the left hand, in a chosen pattern;
+// the answer is then merged under the melody as a second voice.
+import {
+  DEFAULT_MAX_TOKENS,
+  GenerateOptions,
+  GeneratedComposition,
+  Note,
+  NoteSequence,
+  SYSTEM_PROMPT,
+  TOKENS_PER_BAR,
+  requestComposition,
+} from './openai';
+import {
+  formatKey,
+  formatTimeSignature,
+  getBeatsPerBar,
+  getSequenceLengthInBeats,
+  getVoiceNotes,
+  inferKey,
+  sortNotes,
+} from '@/lib/musicUtils';
+import { COMPACT_ENCODING_LEGEND, encodeNotesCompact } from '@/lib/scoreEncoding';
+
+export interface AccompanimentOptions extends GenerateOptions {
+  // What the user asked for, when there is more to it than the style
+  instructions?: string;
+}
+
+export type AccompanimentStyle = 'alberti' | 'stride' | 'block-chords' | 'arpeggio';
+
+export const ACCOMPANIMENT_STYLES: Record<AccompanimentStyle, { label: string; description: string }> = {
+  alberti: {
+    label: 'Alberti bass',
+    description:
+      'Alberti bass: broken triads played lowest, highest, middle, highest in even eighth notes, as in Classical-era sonatas. Keep it within about an octave below middle C.',
+  },
+  stride: {
+    label: 'Stride',
+    description:
+      'Stride: a low bass note (root or fifth, an octave or tenth below) on beats 1 and 3, and a mid-range chord on beats 2 and 4, as in ragtime and stride piano.',
+  },
+  'block-chords': {
+    label: 'Block chords',
+    description:
+      'Block chords: full three- or four-note chords struck together, changing with the harmony (usually once or twice per bar), with smooth voice leading between them.',
+  },
+  arpeggio: {
+    label: 'Arpeggios',
+    description:
+      'Arpeggios: flowing broken chords rising (and optionally falling) over one or two octaves from the bass note, in steady eighth or sixteenth notes.',
+  },
+};
+
+// Accompaniment onsets are snapped to this grid (a sixteenth note), so they
+// line up with the melody's beats
+const ALIGNMENT_GRID = 0.25;
+
+const snapToGrid = (beat: number): number => Math.round(beat / ALIGNMENT_GRID) * ALIGNMENT_GRID;
+
+/**
+ * Combine a melody with an accompaniment. The melody becomes the right
+ * hand, the accompaniment the left; accompaniment notes are snapped to the
+ * beat grid and cut off where the melody's last bar ends.
+ * @param melody The melody, whose tempo and meter are kept
+ * @param accompaniment Notes written for the melody, timed from its start
+ */
+export const mergeAccompaniment = (melody: NoteSequence, accompaniment: Note[]): NoteSequence => {
+  const beatsPerBar = getBeatsPerBar(melody.timeSignature);
+  const end = Math.ceil(getSequenceLengthInBeats(melody.notes) / beatsPerBar) * beatsPerBar;
+
+  // If the model also wrote a right-hand part, only its left hand is used
+  const leftHand = getVoiceNotes(accompaniment, 'left');
+  const bass = leftHand.length > 0 ? leftHand : accompaniment;
+
+  const aligned = bass
+    .map((note) => ({ ...note, start: snapToGrid(note.start), voice: 'left' as const }))
+    .filter((note) => note.start >= 0 && note.start < end)
+    .map((note) => ({
+      ...note,
+      duration: Math.min(Math.max(snapToGrid(note.duration), ALIGNMENT_GRID), end - note.start),
+    }));
+
+  return {
+    notes: sortNotes([
+      ...melody.notes.map((note) => ({ ...note, voice: 'right' as const })),
+      ...aligned,
+    ]),
+    tempo: melody.tempo,
+    timeSignature: melody.timeSignature,
+  };
+};
+
+/**
+ * Ask the model for a left-hand accompaniment to a melody in the given
+ * style, and merge it under the melody.
+ * @param melody The melody; all of its notes are treated as the right hand
+ * @param style Accompaniment pattern
+ * @param options Generation options and any further instructions
+ * @returns The melody with its accompaniment
+ */
+export const generateAccompaniment = async (
+  melody: NoteSequence,
+  style: AccompanimentStyle,
+  options?: AccompanimentOptions
+): Promise<GeneratedComposition> => {
+  const beatsPerBar = getBeatsPerBar(melody.timeSignature);
+  const bars = Math.max(1, Math.ceil(getSequenceLengthInBeats(melody.notes) / beatsPerBar));
+  const melodyNotes = melody.notes.map((note) => ({ ...note, voice: 'right' as const }));
+
+  const prompt = `Write a left-hand piano accompaniment for this melody.
+
+Style: ${ACCOMPANIMENT_STYLES[style].description}
+${options?.instructions ? `\n${options.instructions}\n` : ''}
+Tempo: ${melody.tempo} BPM
+Key: ${formatKey(inferKey(melodyNotes))}
+Time signature: ${formatTimeSignature(melody.timeSignature)}
+Length: ${bars} bars (${bars * beatsPerBar} beats)
+
+Melody (${COMPACT_ENCODING_LEGEND}):
+${encodeNotesCompact(melodyNotes)}
+
+Choose harmonies that fit the melody notes on the strong beats, and follow the phrases of the melody. Keep the accompaniment below the melody and place every event on the melody's beat grid.
+
+Return only the accompaniment: events with "hand": "left", with "start" measured from the first beat of the melody, covering all ${bars} bars. Do not repeat the melody. Keep the tempo at ${melody.tempo}.`;
+
+  const accompaniment = await requestComposition(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    {
+      ...options,
+      maxTokens: options?.maxTokens || Math.max(DEFAULT_MAX_TOKENS, bars * TOKENS_PER_BAR),
+    },
+  );
+
+  return {
+    ...mergeAccompaniment(melody, accompaniment.notes),
+    report: accompaniment.report,
+    recipe: {
+      ...accompaniment.recipe,
+      postProcessing: [
+        ...accompaniment.recipe.postProcessing,
+        `Accompaniment snapped to a ${ALIGNMENT_GRID}-beat grid, cut at beat ${bars * beatsPerBar} and merged as the left hand under the ${melody.notes.length}-note melody`,
+      ],
+    },
+  };
+};
@@ -57,8 +57,8 @@ export const downloadMp3FromNoteSequence = async (
       }).connect(recorder);
     }
     
-    // Calculate note duration based on tempo (in seconds)
-    const quarterNoteDuration = 60 / noteSequence.tempo;
+    // Length of one beat at the sequence tempo (in seconds)
+    const secondsPerBeat = 60 / noteSequence.tempo;
     
     // Start recording
     recorder.start();
@@ -66,28 +66,29 @@ export const downloadMp3FromNoteSequence = async (
     
     // Schedule all notes to play
     const now = Tone.now() + 0.5; // Add a small delay before starting
-    let currentTime = now;
+    let endTime = 0;
     let notesScheduled = 0;
     
-    // Play each note
+    // Play each note at its own onset, length and loudness
     for (const note of noteSequence.notes) {
       try {
         instrument.triggerAttackRelease(
-          note, 
-          quarterNoteDuration * 0.8, // Slightly shorter than full duration for separation
-          currentTime
+          note.pitch, 
+          note.duration * secondsPerBeat,
+          now + note.start * secondsPerBeat,
+          note.velocity
         );
-        currentTime += quarterNoteDuration;
+        endTime = Math.max(endTime, (note.start + note.duration) * secondsPerBeat);
         notesScheduled++;
       } catch (error) {
-        console.warn(`Could not play note ${note}:`, error);
+        console.warn(`Could not play note ${note.pitch}:`, error);
       }
     }
     
     console.log(`Scheduled ${notesScheduled} notes for playback`);
     
     // Calculate total duration plus some buffer
-    const totalDuration = (notesScheduled * quarterNoteDuration) + 2;
+    const totalDuration = endTime + 2;
     console.log(`Recording for ${totalDuration} seconds`);
     
     // Wait until all notes have been played
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { GenerationReport, ValidationIssue } from "./openai";
+import {
+  checkComposition,
+  countValidationIssues,
+  summarizeGenerationReport,
+  summarizeValidation,
+} from "./compositionSchema";
+
+const fixed = (path: string): ValidationIssue => ({ path, action: "fixed", message: "fixed" });
+const dropped = (path: string): ValidationIssue => ({ path, action: "dropped", message: "dropped" });
+
+const report = (overrides: Partial<GenerationReport>): GenerationReport => ({
+  attempts: 1,
+  repairs: [],
+  salvaged: false,
+  fixed: [],
+  dropped: [],
+  usage: { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 },
+  cacheHit: false,
+  ...overrides,
+});
+
+const answer = (pitches: string[]) =>
+  JSON.stringify({
+    tempo: 96,
+    events: [
+      { hand: "right", pitches: ["E4"], start: 0, duration: 1, velocity: 0.7 },
+      { hand: "right", pitches, start: 1, duration: 1, velocity: 0.7 },
+    ],
+  });
+
+describe("checkComposition", () => {
+  it("accepts rests and pitches the validator can normalize without a repair", () => {
+    for (const pitches of [["R"], ["-"], ["rest"], ["c#4"], ["B♭3"]]) {
+      const check = checkComposition(answer(pitches));
+      expect(check.errors).toEqual([]);
+      expect(check.composition?.events[1].pitches).toEqual(pitches);
+    }
+  });
+
+  it("rejects pitches it cannot read", () => {
+    const check = checkComposition(answer(["H4"]));
+    expect(check.composition).toBeUndefined();
+    expect(check.errors).toEqual([expect.stringContaining('events.1.pitches.0: "H4" is not a valid pitch')]);
+  });
+});
+
+describe("countValidationIssues", () => {
+  it("counts a note with several corrections once", () => {
+    expect(
+      countValidationIssues({
+        fixed: [fixed("events[0].pitch"), fixed("events[0]"), fixed("events[2].pitches[1]")],
+        dropped: [],
+      }),
+    ).toEqual({ corrected: 2, dropped: 0, other: 0 });
+  });
+
+  it("keeps section prefixes apart and counts issues that aren't about a note", () => {
+    expect(
+      countValidationIssues({
+        fixed: [fixed("sections[0].events[1]"), fixed("sections[1].events[1]"), fixed("tempo")],
+        dropped: [dropped("voices.left[3].pitch"), dropped("notes.4.pitch")],
+      }),
+    ).toEqual({ corrected: 2, dropped: 2, other: 1 });
+  });
+});
+
+describe("summarizeValidation", () => {
+  it("is empty when nothing changed", () => {
+    expect(summarizeValidation({ fixed: [], dropped: [] })).toBe("");
+  });
+
+  it("names corrected and dropped notes", () => {
+    expect(
+      summarizeValidation({
+        fixed: [fixed("events[0]"), fixed("events[1]"), fixed("events[2]")],
+        dropped: [dropped("events[3]"), dropped("events[4]")],
+      }),
+    ).toBe("3 notes corrected, 2 dropped");
+    expect(summarizeValidation({ fixed: [], dropped: [dropped("events[0]")] })).toBe("1 note dropped");
+    expect(summarizeValidation({ fixed: [fixed("tempo")], dropped: [] })).toBe("1 other fix");
+  });
+});
+
+describe("summarizeGenerationReport", () => {
+  it("combines repairs, salvage and validation", () => {
+    expect(
+      summarizeGenerationReport(
+        report({
+          attempts: 3,
+          repairs: [
+            { attempt: 1, errors: ["bad"] },
+            { attempt: 2, errors: ["bad"] },
+          ],
+          salvaged: true,
+          fixed: [fixed("events[0]")],
+        }),
+      ),
+    ).toBe("Repaired after 2 retries, partially salvaged, 1 note corrected");
+  });
+
+  it("is empty for a clean first answer and short for a cached one", () => {
+    expect(summarizeGenerationReport(report({}))).toBe("");
+    expect(summarizeGenerationReport(report({ cacheHit: true, fixed: [fixed("events[0]")] }))).toBe(
+      "Loaded from cache, no tokens used",
+    );
+  });
+});
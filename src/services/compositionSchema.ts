@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import { isRestSymbol, readLoosePitch } from '@/lib/pitch';
+import { formatAbcError, parseAbc } from '@/lib/abcNotation';
+import type { GenerationReport, ResponseFormat, ValidationIssue } from './openai';
+
+// Schema for the composition format the model is asked to return. The zod
+// schema is the source of truth for validation; COMPOSITION_JSON_SCHEMA
+// mirrors it for providers that support structured output.
+
+export const MIN_TEMPO = 40;
+export const MAX_TEMPO = 240;
+
+// Pitches the validator can normalize (lowercase letters, Unicode
+// accidentals, octaves beyond the keyboard, rests such as "R" or "-") pass,
+// so they are corrected rather than costing a repair request
+const PitchSchema = z
+  .string()
+  .refine((pitch) => isRestSymbol(pitch) || readLoosePitch(pitch) !== null, (pitch) => ({
+    message: `"${pitch}" is not a valid pitch; use scientific pitch notation such as C4, F#5 or Bb3`,
+  }));
+
+export const NoteEventSchema = z.object({
+  hand: z.enum(['right', 'left']),
+  pitches: z.array(PitchSchema).min(1, 'An event needs at least one pitch'),
+  start: z.number().min(0),
+  duration: z.number().positive().max(16),
+  velocity: z.number().min(0).max(1),
+});
+
+// Events of both hands share one list ordered by start time, so a streamed
+// answer can be played while it is still arriving
+export const CompositionSchema = z.object({
+  tempo: z.number().min(MIN_TEMPO).max(MAX_TEMPO),
+  events: z.array(NoteEventSchema).min(1, 'The composition has no notes'),
+});
+
+export type NoteEvent = z.infer<typeof NoteEventSchema>;
+export type Composition = z.infer<typeof CompositionSchema>;
+
+const NOTE_EVENT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    hand: { type: 'string', enum: ['right', 'left'] },
+    pitches: { type: 'array', items: { type: 'string' } },
+    start: { type: 'number' },
+    duration: { type: 'number' },
+    velocity: { type: 'number' },
+  },
+  required: ['hand', 'pitches', 'start', 'duration', 'velocity'],
+  additionalProperties: false,
+};
+
+export const COMPOSITION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    tempo: { type: 'number' },
+    events: { type: 'array', items: NOTE_EVENT_JSON_SCHEMA },
+  },
+  required: ['tempo', 'events'],
+  additionalProperties: false,
+};
+
+export interface CompositionCheck {
+  // Set when the content fully matches the schema
+  composition?: Composition;
+  // The parsed JSON, if any could be extracted, for lenient salvage
+  parsed?: unknown;
+  errors: string[];
+}
+
+/**
+ * Extract the JSON object from a model response, ignoring any markdown
+ * fences or prose around it
+ * @param content Raw response text
+ */
+export const extractJson = (content: string): unknown => {
+  const unfenced = content.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('The response does not contain a JSON object');
+  }
+
+  return JSON.parse(unfenced.slice(start, end + 1));
+};
+
+/**
+ * Validate a model response against the composition schema
+ * @param content Raw response text
+ * @returns The composition if valid, plus readable errors for the repair prompt
+ */
+export const checkComposition = (content: string): CompositionCheck => {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(content);
+  } catch (error) {
+    return {
+      errors: [
+        `The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  const result = CompositionSchema.safeParse(parsed);
+  if (result.success) {
+    return { composition: result.data, parsed, errors: [] };
+  }
+
+  const errors = result.error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+
+  return { parsed, errors };
+};
+
+/**
+ * Check an answer written in ABC notation. The tune is converted to the
+ * JSON composition format, so it is validated (and salvaged) the same way.
+ * @param content Raw response text
+ * @returns The composition if valid, plus errors with line and column for the repair prompt
+ */
+export const checkAbcComposition = (content: string): CompositionCheck => {
+  const { tune, errors, found } = parseAbc(content);
+  if (!found) {
+    return { errors: ['The response does not contain an ABC tune; start it with the X: and K: header fields'] };
+  }
+
+  const parsed = {
+    tempo: tune.tempo,
+    events: tune.notes.map((note) => ({
+      hand: note.voice,
+      pitches: [note.pitch],
+      start: note.start,
+      duration: note.duration,
+      velocity: note.velocity,
+    })),
+  };
+  if (errors.length > 0) {
+    return { parsed, errors: errors.map(formatAbcError) };
+  }
+
+  const result = CompositionSchema.safeParse(parsed);
+  if (result.success) {
+    return { composition: result.data, parsed, errors: [] };
+  }
+  return {
+    parsed,
+    errors: result.error.issues.map((issue) =>
+      issue.path[0] === 'tempo' ? `Q: ${issue.message}` : issue.message,
+    ),
+  };
+};
+
+// Most errors listed in a repair prompt; long lists add little and cost tokens
+const MAX_REPAIR_ERRORS = 20;
+
+/**
+ * Build the follow-up message asking the model to fix its previous answer
+ * @param errors Validation errors from checkComposition or checkAbcComposition
+ * @param format The format the answer must be in
+ */
+export const buildRepairPrompt = (errors: string[], format: ResponseFormat = 'json'): string => {
+  const listed = errors.slice(0, MAX_REPAIR_ERRORS).map((error) => `- ${error}`);
+  if (errors.length > MAX_REPAIR_ERRORS) {
+    listed.push(`- ...and ${errors.length - MAX_REPAIR_ERRORS} more errors`);
+  }
+
+  return `Your previous answer did not match the required format. Fix these problems and return the complete corrected ${format === 'abc' ? 'ABC tune' : 'JSON object'} only:
+${listed.join('\n')}`;
+};
+
+// Note or event an issue belongs to, e.g. "events[3]" for
+// "events[3].pitches[1]" or "notes.5" for "notes.5.duration", keeping any
+// section prefix; null for issues that aren't about a note, such as the tempo
+const getIssueNote = (path: string): string | null => {
+  const match = path.match(/^(.*?(?:events|voices\.\w+)\[\d+\]|.*?notes\.\d+)/);
+  return match ? match[1] : null;
+};
+
+const countIssueNotes = (issues: ValidationIssue[]): number =>
+  new Set(issues.map((issue) => getIssueNote(issue.path)).filter(Boolean)).size;
+
+/**
+ * Count the notes corrected and dropped while validating an answer. A
+ * note with several corrections counts once; issues that aren't about a
+ * note, such as a clamped tempo, are counted as other fixes.
+ * @param report Report returned with a generated composition
+ */
+export const countValidationIssues = (
+  report: Pick<GenerationReport, 'fixed' | 'dropped'>
+): { corrected: number; dropped: number; other: number } => ({
+  corrected: countIssueNotes(report.fixed),
+  dropped: countIssueNotes(report.dropped),
+  other: [...report.fixed, ...report.dropped].filter((issue) => !getIssueNote(issue.path)).length,
+});
+
+/**
+ * Describe what validation changed, e.g. "3 notes corrected, 2 dropped",
+ * or an empty string if nothing had to change
+ * @param report Report returned with a generated composition
+ */
+export const summarizeValidation = (report: Pick<GenerationReport, 'fixed' | 'dropped'>): string => {
+  const { corrected, dropped, other } = countValidationIssues(report);
+  const parts: string[] = [];
+
+  if (corrected > 0) {
+    parts.push(`${corrected} ${corrected === 1 ? 'note' : 'notes'} corrected`);
+  }
+  if (dropped > 0) {
+    parts.push(corrected > 0 ? `${dropped} dropped` : `${dropped} ${dropped === 1 ? 'note' : 'notes'} dropped`);
+  }
+  if (other > 0) {
+    parts.push(`${other} other ${other === 1 ? 'fix' : 'fixes'}`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * One-line summary of a generation report, or an empty string when the
+ * first answer was valid and nothing had to change
+ * @param report Report returned with a generated composition
+ */
+export const summarizeGenerationReport = (report: GenerationReport): string => {
+  // Repairs of a cached result happened when it was first generated
+  if (report.cacheHit) return 'Loaded from cache, no tokens used';
+
+  const parts: string[] = [];
+
+  if (report.repairs.length > 0) {
+    parts.push(`repaired after ${report.repairs.length} ${report.repairs.length === 1 ? 'retry' : 'retries'}`);
+  }
+  if (report.salvaged) {
+    parts.push('partially salvaged');
+  }
+  const validation = summarizeValidation(report);
+  if (validation) {
+    parts.push(validation);
+  }
+
+  if (parts.length === 0) return '';
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
@@ -0,0 +1,286 @@
+// Long-form composition. A piece too long for one answer is first planned
+// as a form outline, then written one section per request with the music
+// before it as context, and finally stitched into a single score.
+import { z } from 'zod';
+import {
+  BEATS_PER_BAR,
+  DEFAULT_MAX_TOKENS,
+  GenerateOptions,
+  GeneratedComposition,
+  Note,
+  NoteSequence,
+  SYSTEM_PROMPT,
+  TOKENS_PER_BAR,
+  requestComposition,
+} from './openai';
+import {
+  ChatMessage,
+  getActiveProvider,
+  getActiveProviderId,
+  getProviderCredentials,
+  isProviderConfigured,
+} from './providers';
+import { MAX_TEMPO, MIN_TEMPO, buildRepairPrompt, extractJson } from './compositionSchema';
+import { assertWithinSpendingCap, recordUsage } from './usage';
+import { InvalidApiKeyError, UnparsableResponseError } from './generationErrors';
+import { sortNotes } from '@/lib/musicUtils';
+import { COMPACT_ENCODING_LEGEND, encodeNotesCompact } from '@/lib/scoreEncoding';
+
+const MAX_SECTIONS = 12;
+const MAX_SECTION_BARS = 32;
+
+export const FormSectionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  key: z.string().min(1),
+  tempo: z.number().min(MIN_TEMPO).max(MAX_TEMPO),
+  bars: z.number().int().min(1).max(MAX_SECTION_BARS),
+});
+
+export const FormPlanSchema = z.object({
+  title: z.string(),
+  form: z.string(),
+  sections: z
+    .array(FormSectionSchema)
+    .min(2, 'A long-form piece needs at least two sections')
+    .max(MAX_SECTIONS, `Use at most ${MAX_SECTIONS} sections`),
+});
+
+export type FormSection = z.infer<typeof FormSectionSchema>;
+export type FormPlan = z.infer<typeof FormPlanSchema>;
+
+export const FORM_PLAN_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    form: { type: 'string' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          key: { type: 'string' },
+          tempo: { type: 'number' },
+          bars: { type: 'integer' },
+        },
+        required: ['name', 'description', 'key', 'tempo', 'bars'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['title', 'form', 'sections'],
+  additionalProperties: false,
+};
+
+const PLANNER_SYSTEM_PROMPT = `You are a composer planning the large-scale form of a solo piano piece before writing it. Return ONLY a JSON object describing the form:
+{
+  "title": "Nocturne in D minor",
+  "form": "ABA'",
+  "sections": [
+    { "name": "A", "description": "Lyrical main theme over broken chords", "key": "D minor", "tempo": 66, "bars": 16 },
+    { "name": "B", "description": "Agitated middle section, rising to a climax", "key": "F major", "tempo": 84, "bars": 16 },
+    { "name": "A'", "description": "Return of the main theme, varied, with a quiet coda", "key": "D minor", "tempo": 60, "bars": 16 }
+  ]
+}
+
+Choose a form that suits the request (for example AABA, ternary, rondo, theme and variations, or sonata form with exposition, development and recapitulation). Give every section a short name, a one-sentence description of its material and character, a key such as "C major" or "F# minor", a tempo between ${MIN_TEMPO} and ${MAX_TEMPO} BPM, and a length of 4 to ${MAX_SECTION_BARS} bars of 4/4. Use 2 to ${MAX_SECTIONS} sections. Return only the JSON object, without explanations or markdown.`;
+
+const PLAN_MAX_TOKENS = 800;
+const PLAN_TEMPERATURE = 0.4;
+const DEFAULT_PLAN_REPAIR_ATTEMPTS = 2;
+// Bars of the preceding music sent as context for the next section
+const CONTEXT_BARS = 8;
+
+/**
+ * Ask the active provider for a form outline of a long piece. Invalid
+ * outlines are sent back with their errors, like compositions are.
+ * @param prompt The user's description of the piece
+ * @param options Generation options
+ */
+export const planLongForm = async (
+  prompt: string,
+  options?: GenerateOptions
+): Promise<FormPlan> => {
+  const provider = getActiveProvider();
+  if (!isProviderConfigured(provider.id)) {
+    throw new InvalidApiKeyError(provider.name);
+  }
+
+  const maxRepairAttempts = options?.maxRepairAttempts ?? DEFAULT_PLAN_REPAIR_ATTEMPTS;
+  const conversation: ChatMessage[] = [
+    { role: 'system', content: PLANNER_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+
+  const model = options?.model || provider.defaultModel;
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    assertWithinSpendingCap();
+    const { content, usage } = await provider.complete(
+      {
+        model,
+        messages: conversation,
+        temperature: options?.temperature ?? PLAN_TEMPERATURE,
+        maxTokens: PLAN_MAX_TOKENS,
+        responseSchema: { name: 'form_plan', schema: FORM_PLAN_JSON_SCHEMA },
+        signal: options?.signal,
+        timeoutMs: options?.timeoutMs,
+        maxRetries: options?.maxRetries,
+        onStatus: options?.onStatus,
+      },
+      getProviderCredentials(getActiveProviderId()),
+    );
+    recordUsage(provider.id, model, usage);
+
+    let errors: string[];
+    try {
+      const result = FormPlanSchema.safeParse(extractJson(content || ''));
+      if (result.success) {
+        return result.data;
+      }
+      errors = result.error.issues.map((issue) => {
+        const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+        return `${path}: ${issue.message}`;
+      });
+    } catch (error) {
+      errors = [`The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    console.warn(`Form plan attempt ${attempt} failed validation:`, errors);
+    if (attempt > maxRepairAttempts) {
+      throw new UnparsableResponseError(provider.name, `Invalid form plan: ${errors.slice(0, 3).join('; ')}`);
+    }
+
+    conversation.push(
+      { role: 'assistant', content: content || '' },
+      { role: 'user', content: buildRepairPrompt(errors) },
+    );
+  }
+
+  throw new UnparsableResponseError(provider.name, 'No valid form plan');
+};
+
+/**
+ * Beat at which each section of a plan begins, from the planned lengths
+ * @param plan The form outline
+ */
+export const getSectionStarts = (plan: FormPlan): number[] => {
+  const starts: number[] = [];
+  let beat = 0;
+  for (const section of plan.sections) {
+    starts.push(beat);
+    beat += section.bars * BEATS_PER_BAR;
+  }
+  return starts;
+};
+
+// Notes sounding between two beats, shifted so the window starts at 0
+const sliceNotes = (notes: Note[], from: number, to: number): Note[] =>
+  notes
+    .filter((note) => note.start >= from && note.start < to)
+    .map((note) => ({ ...note, start: note.start - from }));
+
+const describeSection = (section: FormSection, index: number): string =>
+  `${index + 1}. ${section.name}: ${section.bars} bars, ${section.key}, ${section.tempo} BPM. ${section.description}`;
+
+/**
+ * Write one section of a planned piece. The opening section and the bars
+ * just before this one are sent as context, so themes can return and the
+ * music flows across the join.
+ * @param prompt The user's description of the piece
+ * @param plan The form outline
+ * @param index Index of the section to write
+ * @param previousNotes Stitched music written so far, timed from the start of the piece
+ * @param options Generation options
+ * @returns The section, timed from its own first beat
+ */
+export const generateSection = async (
+  prompt: string,
+  plan: FormPlan,
+  index: number,
+  previousNotes: Note[],
+  options?: GenerateOptions
+): Promise<GeneratedComposition> => {
+  const section = plan.sections[index];
+  const starts = getSectionStarts(plan);
+  const sectionStart = starts[index];
+
+  const context: string[] = [];
+  if (index > 1) {
+    const opening = sliceNotes(previousNotes, 0, starts[1]);
+    if (opening.length > 0) {
+      context.push(`Opening section "${plan.sections[0].name}" (for returning themes):
+${encodeNotesCompact(opening)}`);
+    }
+  }
+  if (index > 0) {
+    const contextStart = Math.max(starts[index - 1], sectionStart - CONTEXT_BARS * BEATS_PER_BAR);
+    const recent = sliceNotes(previousNotes, contextStart, sectionStart);
+    if (recent.length > 0) {
+      context.push(`The ${(sectionStart - contextStart) / BEATS_PER_BAR} bars just before this section:
+${encodeNotesCompact(recent)}`);
+    }
+  }
+
+  const userPrompt = `We are writing a long piano piece section by section.
+
+Request: ${prompt}
+
+Form: ${plan.form} ("${plan.title}")
+${plan.sections.map(describeSection).join('\n')}
+
+Write section ${describeSection(section, index)}
+${context.length > 0 ? `\nMusic so far (${COMPACT_ENCODING_LEGEND}):\n\n${context.join('\n\n')}\n` : ''}
+Return only this section: exactly ${section.bars} bars (${section.bars * BEATS_PER_BAR} beats) of 4/4 in ${section.key}, with "start" measured from the first beat of the section and the tempo set to ${section.tempo}.`;
+
+  return requestComposition(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: userPrompt },
+    ],
+    {
+      ...options,
+      maxTokens: options?.maxTokens || Math.max(DEFAULT_MAX_TOKENS, section.bars * TOKENS_PER_BAR),
+    },
+  );
+};
+
+/**
+ * Join written sections into one score with a marker at each section.
+ * Sections keep their planned place, so a missing section leaves silence
+ * until it is written; notes running past the end of a section are cut.
+ * @param plan The form outline
+ * @param sectionNotes Notes of each section timed from its own start, or null if not written yet
+ */
+export const stitchSections = (
+  plan: FormPlan,
+  sectionNotes: Array<Note[] | null>
+): NoteSequence => {
+  const starts = getSectionStarts(plan);
+  const notes: Note[] = [];
+
+  plan.sections.forEach((section, index) => {
+    const length = section.bars * BEATS_PER_BAR;
+    for (const note of sectionNotes[index] ?? []) {
+      if (note.start >= length) continue;
+      notes.push({
+        ...note,
+        start: note.start + starts[index],
+        duration: Math.min(note.duration, length - note.start),
+      });
+    }
+  });
+
+  return {
+    notes: sortNotes(notes),
+    tempo: plan.sections[0].tempo,
+    sections: plan.sections.map((section, index) => ({
+      name: section.name,
+      start: starts[index],
+      key: section.key,
+      tempo: section.tempo,
+    })),
+  };
+};
@@ -0,0 +1,171 @@
+// Content-addressed cache of generations in IndexedDB. The key is a hash of
+// everything that determines the model's answer: provider, model, system
+// prompt version, the conversation and the generation options. Repeating an
+// identical request loads the stored result instead of calling the API.
+// The store keeps the most recently used MAX_CACHE_ENTRIES results.
+import type { GeneratedComposition } from './openai';
+import { ChatMessage, ProviderId } from './providers';
+import { RecipeParameters } from './recipes';
+import { isIndexedDbAvailable, openDatabase, withStore, withStoreTransaction } from '@/lib/indexedDb';
+
+export interface CacheKeyInput {
+  providerId: ProviderId;
+  model: string;
+  systemPromptVersion?: string;
+  // The conversation after the system prompt
+  messages: ChatMessage[];
+  parameters: RecipeParameters;
+}
+
+interface CacheEntry {
+  storedAt: number;
+  // Last time the entry was stored or read, for eviction
+  usedAt?: number;
+  composition: GeneratedComposition;
+}
+
+const DATABASE_NAME = 'ai-piano-performer.generation-cache';
+const STORE = 'generations';
+// Least recently used entries beyond this are evicted
+export const MAX_CACHE_ENTRIES = 200;
+
+const database = () => openDatabase(DATABASE_NAME, [STORE]);
+const listeners = new Set<() => void>();
+
+const notify = (): void => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Be told whenever entries are added or the cache is cleared
+ * @returns Function that removes the listener
+ */
+export const subscribeToCache = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Whether this page can hash text. crypto.subtle only exists in secure
+ * contexts, so it is missing when the app is served over plain http.
+ */
+export const isHashingAvailable = (): boolean => Boolean(globalThis.crypto?.subtle);
+
+/**
+ * Whether generations can be cached: IndexedDB is needed to store them and
+ * hashing to key them
+ */
+export const isGenerationCacheAvailable = (): boolean =>
+  isIndexedDbAvailable() && isHashingAvailable();
+
+// JSON with object keys sorted, so equal inputs always serialize the same
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item,
+  );
+
+/**
+ * SHA-256 of a text, as hex
+ * @param text Text to hash
+ */
+export const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Short version tag of a system prompt: the start of its hash
+ * @param systemPrompt The system prompt text
+ */
+export const getSystemPromptVersion = async (systemPrompt: string): Promise<string> =>
+  (await hashText(systemPrompt)).slice(0, 12);
+
+/**
+ * Cache key of a request
+ * @param input Everything that determines the answer
+ */
+export const computeCacheKey = (input: CacheKeyInput): Promise<string> =>
+  hashText(canonicalJson(input));
+
+/**
+ * The stored result of a request, if any. Cache failures are logged and
+ * treated as a miss.
+ * @param key Cache key from computeCacheKey
+ */
+export const getCachedComposition = async (key: string): Promise<GeneratedComposition | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const entry = await withStore<CacheEntry | undefined>(database(), STORE, 'readonly', (store) =>
+      store.get(key),
+    );
+    if (!entry) return null;
+    // Mark the entry as recently used so it outlives older ones
+    const touched: CacheEntry = { ...entry, usedAt: Date.now() };
+    await withStore(database(), STORE, 'readwrite', (store) => store.put(touched, key));
+    return entry.composition;
+  } catch (error) {
+    console.warn('Could not read the generation cache:', error);
+    return null;
+  }
+};
+
+// Delete the least recently used entries once the store holds more than
+// MAX_CACHE_ENTRIES. The scan and the deletes share one transaction, so
+// entries stored or touched meanwhile by other requests wait for it.
+const evictLeastRecentlyUsed = (): Promise<void> =>
+  withStoreTransaction(database(), STORE, 'readwrite', (store) => {
+    const entries: { key: IDBValidKey; usedAt: number }[] = [];
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const entry = cursor.value as CacheEntry;
+        entries.push({ key: cursor.primaryKey, usedAt: entry.usedAt ?? entry.storedAt ?? 0 });
+        cursor.continue();
+        return;
+      }
+      if (entries.length <= MAX_CACHE_ENTRIES) return;
+      entries
+        .sort((a, b) => a.usedAt - b.usedAt)
+        .slice(0, entries.length - MAX_CACHE_ENTRIES)
+        .forEach(({ key }) => store.delete(key));
+    };
+  });
+
+/**
+ * Store the result of a request
+ * @param key Cache key from computeCacheKey
+ * @param composition The generated composition, with its recipe
+ */
+export const cacheComposition = async (key: string, composition: GeneratedComposition): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const now = Date.now();
+    const entry: CacheEntry = { storedAt: now, usedAt: now, composition };
+    await withStore(database(), STORE, 'readwrite', (store) => store.put(entry, key));
+    await evictLeastRecentlyUsed();
+    notify();
+  } catch (error) {
+    console.warn('Could not write to the generation cache:', error);
+  }
+};
+
+export const getCacheSize = async (): Promise<number> => {
+  if (!isIndexedDbAvailable()) return 0;
+  try {
+    return await withStore(database(), STORE, 'readonly', (store) => store.count());
+  } catch (error) {
+    console.warn('Could not read the generation cache:', error);
+    return 0;
+  }
+};
+
+export const clearGenerationCache = async (): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(database(), STORE, 'readwrite', (store) => store.clear());
+  notify();
+};
@@ -0,0 +1,197 @@
+import type { NoteSequence, ResponseFormat, TimeSignature, ValidationIssue } from './openai';
+import {
+  KEY_TONIC_NAMES,
+  MAJOR_SCALE_STEPS,
+  MINOR_SCALE_STEPS,
+  formatTimeSignature,
+  getBeatsPerBar,
+  getSequenceLengthInBeats,
+  inferKey,
+  sortNotes,
+} from '@/lib/musicUtils';
+import { noteToMidiNumber } from '@/lib/pitch';
+
+// Musical settings chosen by the user. They are written into the system
+// prompt, and answers that ignore them are sent back for repair; whatever
+// can be enforced mechanically (tempo, length) is enforced on the result.
+export interface CompositionConstraints {
+  tonic?: string; // One of KEY_TONIC_NAMES
+  mode?: 'major' | 'minor';
+  timeSignature?: TimeSignature;
+  lengthBars?: number;
+  minTempo?: number;
+  maxTempo?: number;
+}
+
+// Share of sounding time allowed outside the requested scale, leaving room
+// for chromatic passing notes and secondary dominants
+const MAX_OUT_OF_KEY_SHARE = 0.2;
+// Relative length difference tolerated before asking for a repair
+const LENGTH_TOLERANCE = 0.25;
+
+// Pitch classes of the requested key. Minor keys also allow the raised
+// sixth and seventh of the melodic and harmonic minor.
+const getKeyPitchClasses = (tonic: string, mode?: 'major' | 'minor'): Set<number> => {
+  const root = KEY_TONIC_NAMES.indexOf(tonic);
+  const steps = mode === 'major'
+    ? MAJOR_SCALE_STEPS
+    : mode === 'minor'
+      ? [...MINOR_SCALE_STEPS, 9, 11]
+      : [...MAJOR_SCALE_STEPS, ...MINOR_SCALE_STEPS];
+  return new Set(steps.map((step) => (root + step) % 12));
+};
+
+const describeKey = (constraints: CompositionConstraints): string | null => {
+  if (constraints.tonic && constraints.mode) return `${constraints.tonic} ${constraints.mode}`;
+  if (constraints.tonic) return `${constraints.tonic} (major or minor)`;
+  if (constraints.mode) return `any ${constraints.mode} key`;
+  return null;
+};
+
+/**
+ * Whether any setting is constrained
+ * @param constraints Settings chosen by the user
+ */
+export const hasConstraints = (constraints?: CompositionConstraints): boolean =>
+  !!constraints && Object.values(constraints).some((value) => value !== undefined);
+
+/**
+ * Instructions to append to the system prompt, or an empty string when
+ * nothing is constrained
+ * @param constraints Settings chosen by the user
+ */
+export const describeConstraints = (constraints?: CompositionConstraints): string => {
+  if (!constraints || !hasConstraints(constraints)) return '';
+
+  const lines: string[] = [];
+  const key = describeKey(constraints);
+  if (key) {
+    lines.push(`- Key: ${key}`);
+  }
+  if (constraints.timeSignature) {
+    lines.push(
+      `- Time signature: ${formatTimeSignature(constraints.timeSignature)} (a bar is ${getBeatsPerBar(constraints.timeSignature)} beats; "start" and "duration" are still counted in quarter-note beats)`,
+    );
+  }
+  if (constraints.lengthBars) {
+    const beats = constraints.lengthBars * getBeatsPerBar(constraints.timeSignature);
+    lines.push(`- Length: exactly ${constraints.lengthBars} bars (${beats} beats); scale the number of events to fit`);
+  }
+  if (constraints.minTempo !== undefined || constraints.maxTempo !== undefined) {
+    lines.push(`- Tempo: between ${constraints.minTempo ?? 'any'} and ${constraints.maxTempo ?? 'any'} BPM`);
+  }
+
+  return `REQUIRED SETTINGS (these override the guidelines above):
+  ${lines.join('\n  ')}`;
+};
+
+/**
+ * List the ways a validated piece breaks the requested settings, worded
+ * for a repair prompt
+ * @param sequence The validated piece
+ * @param constraints Settings chosen by the user
+ */
+export const checkConstraints = (
+  sequence: NoteSequence,
+  constraints?: CompositionConstraints
+): string[] => {
+  if (!constraints) return [];
+  const errors: string[] = [];
+
+  const { minTempo, maxTempo } = constraints;
+  if ((minTempo !== undefined && sequence.tempo < minTempo) ||
+      (maxTempo !== undefined && sequence.tempo > maxTempo)) {
+    errors.push(`tempo: ${sequence.tempo} BPM is outside the requested range of ${minTempo ?? 'any'}-${maxTempo ?? 'any'} BPM`);
+  }
+
+  if (constraints.lengthBars) {
+    const beatsPerBar = getBeatsPerBar(constraints.timeSignature);
+    const bars = Math.ceil(getSequenceLengthInBeats(sequence.notes) / beatsPerBar);
+    if (Math.abs(bars - constraints.lengthBars) > Math.max(1, constraints.lengthBars * LENGTH_TOLERANCE)) {
+      errors.push(`events: the piece is ${bars} bars long; write exactly ${constraints.lengthBars} bars (${constraints.lengthBars * beatsPerBar} beats)`);
+    }
+  }
+
+  if (constraints.tonic) {
+    const allowed = getKeyPitchClasses(constraints.tonic, constraints.mode);
+    let total = 0;
+    let outside = 0;
+    for (const note of sequence.notes) {
+      const midiNumber = noteToMidiNumber(note.pitch);
+      if (midiNumber === null) continue;
+      total += note.duration;
+      if (!allowed.has(midiNumber % 12)) outside += note.duration;
+    }
+    if (total > 0 && outside / total > MAX_OUT_OF_KEY_SHARE) {
+      errors.push(`events: ${Math.round((outside / total) * 100)}% of the music is outside ${describeKey(constraints)}; keep to its scale apart from occasional chromatic notes`);
+    }
+  } else if (constraints.mode && sequence.notes.length > 0) {
+    const key = inferKey(sequence.notes);
+    if (key.mode !== constraints.mode) {
+      errors.push(`events: the piece sounds like ${key.tonic} ${key.mode}, but a ${constraints.mode} key was requested`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Build the follow-up message asking the model to respect the settings
+ * @param errors Problems found by checkConstraints
+ * @param format The format the answer must be in
+ */
+export const buildConstraintRepairPrompt = (errors: string[], format: ResponseFormat = 'json'): string => {
+  return `Your previous answer does not follow the required settings. Fix these problems and return the complete corrected ${format === 'abc' ? 'ABC tune' : 'JSON object'} only:
+${errors.map((error) => `- ${error}`).join('\n')}`;
+};
+
+/**
+ * Force the settings that can be applied mechanically: clamp the tempo
+ * into range and cut the piece at the requested length. Every change is
+ * recorded in `issues`.
+ * @param sequence The validated piece
+ * @param constraints Settings chosen by the user
+ * @param issues Collects the corrections made
+ */
+export const enforceConstraints = (
+  sequence: NoteSequence,
+  constraints: CompositionConstraints | undefined,
+  issues: ValidationIssue[] = []
+): NoteSequence => {
+  if (!constraints) return sequence;
+
+  let tempo = sequence.tempo;
+  const minTempo = constraints.minTempo ?? tempo;
+  const maxTempo = constraints.maxTempo ?? tempo;
+  if (tempo < minTempo || tempo > maxTempo) {
+    const clamped = Math.max(minTempo, Math.min(maxTempo, tempo));
+    issues.push({ path: 'tempo', action: 'fixed', message: `Tempo ${tempo} moved into the requested range: ${clamped} BPM` });
+    tempo = clamped;
+  }
+
+  let notes = sequence.notes;
+  if (constraints.lengthBars) {
+    const end = constraints.lengthBars * getBeatsPerBar(constraints.timeSignature);
+    notes = [];
+    sequence.notes.forEach((note, index) => {
+      if (note.start >= end) {
+        issues.push({ path: `notes.${index}`, action: 'dropped', message: `${note.pitch} at beat ${note.start} is past the requested ${constraints.lengthBars} bars` });
+        return;
+      }
+      if (note.start + note.duration > end) {
+        issues.push({ path: `notes.${index}.duration`, action: 'fixed', message: `${note.pitch} at beat ${note.start} cut at the end of bar ${constraints.lengthBars}` });
+        notes.push({ ...note, duration: end - note.start });
+        return;
+      }
+      notes.push(note);
+    });
+    notes = sortNotes(notes);
+  }
+
+  return {
+    ...sequence,
+    notes,
+    tempo,
+    timeSignature: constraints.timeSignature ?? sequence.timeSignature,
+  };
+};
@@ -0,0 +1,204 @@
+// Typed errors for failed generations. Provider and validation failures are
+// classified so the UI can explain what went wrong and offer the action
+// that fixes it.
+import { SpendingCapError } from './usage';
+
+export type GenerationErrorKind =
+  | 'invalid-key'
+  | 'quota'
+  | 'model-not-found'
+  | 'network'
+  | 'unparsable'
+  | 'invalid-notes'
+  | 'content-filtered'
+  | 'provider'; // Any other provider failure
+
+// What the user can do about a failure
+export type RecoveryAction =
+  | 'open-settings' // Fix the key or choose another provider
+  | 'open-usage' // Raise the spending cap
+  | 'switch-model'
+  | 'retry'
+  | 'retry-with-repair' // Retry, allowing more repair attempts
+  | 'rephrase'; // Only a different prompt can help
+
+export const GENERATION_ERROR_TITLES: Record<GenerationErrorKind, string> = {
+  'invalid-key': 'API key problem',
+  quota: 'Out of quota',
+  'model-not-found': 'Model not available',
+  network: 'Connection problem',
+  unparsable: 'Unreadable response',
+  'invalid-notes': 'No usable notes',
+  'content-filtered': 'Blocked by content filter',
+  provider: 'Provider error',
+};
+
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    public kind: GenerationErrorKind = 'provider',
+    public recovery: RecoveryAction = 'retry',
+    // Original message from the provider or validator, for the console
+    public detail?: string
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+export class InvalidApiKeyError extends GenerationError {
+  constructor(providerName: string, detail?: string) {
+    super(
+      detail
+        ? `${providerName} rejected the API key (${detail}). Check the key in the provider settings.`
+        : `${providerName} is not set up. Add its API key in the provider settings.`,
+      'invalid-key',
+      'open-settings',
+      detail,
+    );
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class QuotaExceededError extends GenerationError {
+  constructor(providerName: string, detail?: string, public rateLimited: boolean = false) {
+    super(
+      rateLimited
+        ? `${providerName} is still rate limiting requests after several retries. Wait a minute and try again.`
+        : `Your ${providerName} account is out of quota or credit. Add credit, or use another key or provider.`,
+      'quota',
+      rateLimited ? 'retry' : 'open-settings',
+      detail,
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class ModelNotFoundError extends GenerationError {
+  constructor(providerName: string, public model: string, detail?: string) {
+    super(
+      `${providerName} has no model called "${model}", or your key cannot use it. Switch to another model.`,
+      'model-not-found',
+      'switch-model',
+      detail,
+    );
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(providerName: string, detail?: string, public offline: boolean = false) {
+    super(
+      offline
+        ? 'You appear to be offline. Check your connection and try again.'
+        : `Could not reach ${providerName}${detail ? ` (${detail})` : ''}. Check your connection and try again.`,
+      'network',
+      'retry',
+      detail,
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+export class UnparsableResponseError extends GenerationError {
+  constructor(providerName: string, detail?: string) {
+    super(
+      `${providerName} did not answer with readable JSON, even after repair attempts. Retrying with more repair attempts often helps.`,
+      'unparsable',
+      'retry-with-repair',
+      detail,
+    );
+    this.name = 'UnparsableResponseError';
+  }
+}
+
+export class InvalidNotesError extends GenerationError {
+  constructor(providerName: string, detail?: string) {
+    super(
+      `${providerName} answered, but no playable notes could be kept from it. Retrying with more repair attempts often helps.`,
+      'invalid-notes',
+      'retry-with-repair',
+      detail,
+    );
+    this.name = 'InvalidNotesError';
+  }
+}
+
+export class ContentFilteredError extends GenerationError {
+  constructor(providerName: string, detail?: string) {
+    super(
+      `${providerName}'s content filter blocked this request. Rephrase the prompt and try again.`,
+      'content-filtered',
+      'rephrase',
+      detail,
+    );
+    this.name = 'ContentFilteredError';
+  }
+}
+
+const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Classify a failed HTTP response from a provider. Status codes are
+ * checked together with the provider's error type and message, since
+ * providers differ (Gemini reports a bad key as 400, for example).
+ * @param providerName Provider name for the message
+ * @param response The failed response
+ * @param model Model the request asked for
+ */
+export const createResponseError = async (
+  providerName: string,
+  response: Response,
+  model: string
+): Promise<GenerationError> => {
+  const errorData = await response.json().catch(() => ({}));
+  const error = errorData.error ?? errorData;
+  const detail: string = error?.message || response.statusText || `HTTP ${response.status}`;
+  const text = `${error?.type ?? ''} ${error?.code ?? ''} ${error?.status ?? ''} ${detail}`.toLowerCase();
+  const status = response.status;
+
+  if (status === 401 || /invalid_api_key|authentication|api key not valid|incorrect api key|invalid x-api-key/.test(text)) {
+    return new InvalidApiKeyError(providerName, detail);
+  }
+  if (status === 402 || /insufficient_quota|quota|billing|credit balance/.test(text)) {
+    return new QuotaExceededError(providerName, detail);
+  }
+  if (status === 404 || /model_not_found|not_found_error|model.*(not found|does not exist|is not supported)/.test(text)) {
+    return new ModelNotFoundError(providerName, model, detail);
+  }
+  if (/content_filter|content management policy|safety|prohibited/.test(text)) {
+    return new ContentFilteredError(providerName, detail);
+  }
+  if (status === 429) {
+    return new QuotaExceededError(providerName, detail, true);
+  }
+  if (status === 403) {
+    return new InvalidApiKeyError(providerName, detail);
+  }
+  return new GenerationError(`${providerName} error: ${detail}`, 'provider', 'retry', detail);
+};
+
+/**
+ * Error for a request that never got an answer
+ * @param providerName Provider name for the message
+ * @param detail What went wrong, such as a timeout
+ */
+export const createNetworkError = (providerName: string, detail: string): NetworkError =>
+  new NetworkError(providerName, detail, isOffline());
+
+/**
+ * Turn any thrown value into a GenerationError, so the UI can treat
+ * every failure the same way
+ * @param error Any thrown value
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof SpendingCapError) {
+    return new GenerationError(error.message, 'quota', 'open-usage');
+  }
+  if (isOffline()) return new NetworkError('the provider', undefined, true);
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new GenerationError(message || 'Generation failed. Please try again.', 'provider', 'retry', message);
+};
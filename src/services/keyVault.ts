@@ -0,0 +1,308 @@
+// Opt-in encrypted storage of provider credentials on this device. Keys
+// are encrypted with AES-GCM under a key derived from the user's passphrase
+// with PBKDF2, and kept in IndexedDB. Only ciphertext is ever written; the
+// derived key lives in memory while the vault is unlocked.
+import { ProviderCredentials, ProviderId } from './providers';
+import { isIndexedDbAvailable, openDatabase, withStore } from '@/lib/indexedDb';
+
+// Named set of credentials for one provider, as listed without unlocking
+export interface KeyProfileSummary {
+  id: string;
+  name: string;
+  providerId: ProviderId;
+  updatedAt: number;
+  lastUsedAt: number | null;
+}
+
+interface EncryptedValue {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+interface StoredProfile extends KeyProfileSummary {
+  credentials: EncryptedValue;
+}
+
+interface VaultMeta {
+  salt: Uint8Array;
+  iterations: number;
+  // A known text encrypted with the vault key, to check the passphrase
+  verifier: EncryptedValue;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The key vault is locked. Unlock it with your passphrase first.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const DATABASE_NAME = 'ai-piano-performer.key-vault';
+const META_STORE = 'meta';
+const PROFILE_STORE = 'profiles';
+const META_KEY = 'vault';
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'ai-piano-performer key vault';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Key derived from the passphrase; null while the vault is locked
+let vaultKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const database = () => openDatabase(DATABASE_NAME, [META_STORE, PROFILE_STORE]);
+
+const notify = (): void => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Be told whenever the vault is created, unlocked, locked or changed
+ * @param listener Called after every change
+ * @returns Function that removes the listener
+ */
+export const subscribeToVault = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Whether this browser can keep an encrypted vault
+ */
+export const isVaultSupported = (): boolean =>
+  isIndexedDbAvailable() && typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext),
+  );
+  return { iv, ciphertext };
+};
+
+// Rejects if the key is wrong or the data was tampered with
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, key, value.ciphertext);
+  return new TextDecoder().decode(plaintext);
+};
+
+const readMeta = (): Promise<VaultMeta | undefined> =>
+  withStore<VaultMeta | undefined>(database(), META_STORE, 'readonly', (store) => store.get(META_KEY));
+
+const readProfiles = (): Promise<StoredProfile[]> =>
+  withStore<StoredProfile[]>(database(), PROFILE_STORE, 'readonly', (store) => store.getAll());
+
+const requireKey = (): CryptoKey => {
+  if (!vaultKey) throw new VaultLockedError();
+  return vaultKey;
+};
+
+/**
+ * Whether a vault has been created on this device
+ */
+export const hasVault = async (): Promise<boolean> => {
+  if (!isVaultSupported()) return false;
+  try {
+    return Boolean(await readMeta());
+  } catch (error) {
+    console.warn('Could not open the key vault:', error);
+    return false;
+  }
+};
+
+/**
+ * Create the vault and unlock it
+ * @param passphrase Passphrase that will protect every saved key
+ */
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encrypt(key, VERIFIER_TEXT),
+  };
+
+  await withStore(database(), META_STORE, 'readwrite', (store) => store.put(meta, META_KEY));
+  vaultKey = key;
+  notify();
+};
+
+/**
+ * Unlock the vault so its keys can be read and saved
+ * @param passphrase The vault passphrase
+ * @throws WrongPassphraseError if the passphrase does not match
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const meta = await readMeta();
+  if (!meta) throw new Error('No key vault exists on this device');
+
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  // A wrong key fails AES-GCM authentication rather than decrypting
+  const verified = await decrypt(key, meta.verifier)
+    .then((text) => text === VERIFIER_TEXT)
+    .catch(() => false);
+  if (!verified) {
+    throw new WrongPassphraseError();
+  }
+
+  vaultKey = key;
+  notify();
+};
+
+/**
+ * Forget the derived key. Saved keys stay encrypted on the device.
+ */
+export const lockVault = (): void => {
+  vaultKey = null;
+  notify();
+};
+
+/**
+ * Delete the vault and every saved key, for example after the passphrase
+ * has been forgotten
+ */
+export const deleteVault = async (): Promise<void> => {
+  await withStore(database(), PROFILE_STORE, 'readwrite', (store) => store.clear());
+  await withStore(database(), META_STORE, 'readwrite', (store) => store.clear());
+  vaultKey = null;
+  notify();
+};
+
+/**
+ * Saved profiles, newest first. Names and providers are readable while
+ * the vault is locked; the credentials are not.
+ */
+export const listKeyProfiles = async (): Promise<KeyProfileSummary[]> => {
+  if (!(await hasVault())) return [];
+  const profiles = await readProfiles();
+  return profiles
+    .map(({ credentials, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Encrypt and save credentials under a profile name. Saving a name that
+ * already exists for the provider replaces its credentials.
+ * @param name Profile name, such as "Personal" or "Work"
+ * @param providerId Provider the credentials belong to
+ * @param credentials API key and base URL
+ * @returns The saved profile
+ */
+export const saveKeyProfile = async (
+  name: string,
+  providerId: ProviderId,
+  credentials: ProviderCredentials
+): Promise<KeyProfileSummary> => {
+  const key = requireKey();
+  const existing = (await readProfiles()).find(
+    (profile) => profile.providerId === providerId && profile.name === name,
+  );
+
+  const now = Date.now();
+  const profile: StoredProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    providerId,
+    updatedAt: now,
+    lastUsedAt: now,
+    credentials: await encrypt(key, JSON.stringify(credentials)),
+  };
+
+  await withStore(database(), PROFILE_STORE, 'readwrite', (store) => store.put(profile, profile.id));
+  notify();
+
+  return {
+    id: profile.id,
+    name,
+    providerId,
+    updatedAt: profile.updatedAt,
+    lastUsedAt: profile.lastUsedAt,
+  };
+};
+
+/**
+ * Decrypt the credentials of a profile and mark it as the last one used
+ * @param id Profile id
+ */
+export const loadKeyProfile = async (id: string): Promise<ProviderCredentials> => {
+  const key = requireKey();
+  const profile = await withStore<StoredProfile | undefined>(
+    database(),
+    PROFILE_STORE,
+    'readonly',
+    (store) => store.get(id),
+  );
+  if (!profile) throw new Error('This key profile no longer exists');
+
+  const credentials = JSON.parse(await decrypt(key, profile.credentials)) as ProviderCredentials;
+  await withStore(database(), PROFILE_STORE, 'readwrite', (store) =>
+    store.put({ ...profile, lastUsedAt: Date.now() }, id),
+  );
+  notify();
+  return credentials;
+};
+
+export const deleteKeyProfile = async (id: string): Promise<void> => {
+  await withStore(database(), PROFILE_STORE, 'readwrite', (store) => store.delete(id));
+  notify();
+};
+
+/**
+ * The most recently used profile of each provider, decrypted, so unlocking
+ * restores the keys the user was working with
+ */
+export const loadLastUsedProfiles = async (): Promise<
+  Partial<Record<ProviderId, ProviderCredentials>>
+> => {
+  requireKey();
+  const latest = new Map<ProviderId, KeyProfileSummary>();
+  for (const profile of await listKeyProfiles()) {
+    const current = latest.get(profile.providerId);
+    if (!current || (profile.lastUsedAt ?? 0) > (current.lastUsedAt ?? 0)) {
+      latest.set(profile.providerId, profile);
+    }
+  }
+
+  const credentials: Partial<Record<ProviderId, ProviderCredentials>> = {};
+  for (const [providerId, profile] of latest) {
+    credentials[providerId] = await loadKeyProfile(profile.id);
+  }
+  return credentials;
+};
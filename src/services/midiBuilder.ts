@@ -0,0 +1,159 @@
+import { Midi, Track } from '@tonejs/midi';
+import { Note, NoteSequence, Voice, VOICES } from './openai';
+import { detectKey, getRelativeMajorTonic, sortNotes } from '@/lib/musicUtils';
+import { beatsToTicks, midiNumberToNote, noteToMidiNumber, ticksToBeats } from '@/lib/pitch';
+
+export interface BuiltMidi {
+  midi: Midi;
+  notesAdded: number;
+}
+
+// Key signature meta event: FF 59 02 followed by sharps or flats (signed)
+// and major (0) or minor (1)
+const KEY_SIGNATURE_EVENT = [0xff, 0x59, 0x02];
+
+// Start of the first track's events: the 14-byte file header and the
+// 8-byte track header
+const FIRST_TRACK_START = 22;
+
+const TRACK_NAMES: Record<Voice, string> = {
+  right: "Piano (Right Hand)",
+  left: "Piano (Left Hand)"
+};
+
+/**
+ * Get the voice for a track number reported by the MIDI player. Track 1 of
+ * the written file holds only the header meta events, so voice tracks start
+ * at 2 and follow the order of VOICES.
+ * @param trackNumber 1-based track number of a MIDI event
+ */
+export const voiceForTrackNumber = (trackNumber: number): Voice => {
+  return VOICES[trackNumber - 2] ?? 'right';
+};
+
+/**
+ * Build a MIDI file from a note sequence. Note start times and durations are
+ * in beats, so they are written as ticks and stay correct at any tempo.
+ * Each voice gets its own track, always in the order of VOICES.
+ * @param noteSequence The note sequence to convert
+ */
+export const buildMidiFromNoteSequence = (noteSequence: NoteSequence): BuiltMidi => {
+  const midi = new Midi();
+  const tracks = {} as Record<Voice, Track>;
+  VOICES.forEach((voice, index) => {
+    const track = midi.addTrack();
+    track.name = TRACK_NAMES[voice];
+    track.channel = index;
+    track.instrument.name = "Piano";
+    tracks[voice] = track;
+  });
+
+  // Set tempo and time signature
+  midi.header.setTempo(noteSequence.tempo);
+  midi.header.timeSignatures = [{
+    ticks: 0,
+    timeSignature: noteSequence.timeSignature ?? [4, 4]
+  }];
+
+  // Key signature of the detected key; a minor key is written with the
+  // signature of its relative major, as MIDI requires
+  const [detected] = detectKey(noteSequence.notes, 1);
+  if (detected) {
+    midi.header.keySignatures = [{
+      ticks: 0,
+      key: getRelativeMajorTonic(detected.key),
+      scale: detected.key.mode
+    }];
+  }
+
+  const ppq = midi.header.ppq;
+
+  // Mark each section, and write its tempo change if it has one
+  let sectionTempo = noteSequence.tempo;
+  for (const section of noteSequence.sections ?? []) {
+    const ticks = beatsToTicks(section.start, ppq);
+    midi.header.meta.push({
+      type: 'marker',
+      text: section.key ? `${section.name} (${section.key})` : section.name,
+      ticks
+    });
+    if (section.tempo && section.tempo !== sectionTempo && ticks > 0) {
+      midi.header.tempos.push({ ticks, bpm: section.tempo });
+      sectionTempo = section.tempo;
+    }
+  }
+  midi.header.update();
+  let notesAdded = 0;
+
+  for (const note of noteSequence.notes) {
+    const midiNumber = noteToMidiNumber(note.pitch);
+
+    if (midiNumber === null) {
+      console.warn(`Could not parse note: ${note.pitch}, skipping`);
+      continue;
+    }
+
+    tracks[note.voice].addNote({
+      midi: midiNumber,
+      ticks: beatsToTicks(note.start, ppq),
+      durationTicks: Math.max(1, beatsToTicks(note.duration, ppq)),
+      velocity: note.velocity
+    });
+    notesAdded++;
+  }
+
+  return { midi, notesAdded };
+};
+
+/**
+ * Encode a built MIDI file as bytes. @tonejs/midi writes key signatures
+ * with sharps or flats 14 too high (it offsets an index that is already
+ * offset), so that byte of each key signature event is corrected. Only the
+ * first track is searched, as it holds the header meta events and no note
+ * data that could contain the same bytes.
+ * @param midi MIDI file from buildMidiFromNoteSequence
+ */
+export const encodeMidi = (midi: Midi): Uint8Array => {
+  const bytes = midi.toArray();
+  const firstTrackLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(FIRST_TRACK_START - 4);
+  const firstTrackEnd = Math.min(bytes.length, FIRST_TRACK_START + firstTrackLength);
+
+  for (let i = FIRST_TRACK_START; i + KEY_SIGNATURE_EVENT.length < firstTrackEnd; i++) {
+    if (KEY_SIGNATURE_EVENT.every((byte, offset) => bytes[i + offset] === byte)) {
+      const sharpsOrFlats = i + KEY_SIGNATURE_EVENT.length;
+      bytes[sharpsOrFlats] = (bytes[sharpsOrFlats] - 14) & 0xff;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Read the notes of a MIDI file. Tracks named as left-hand tracks, and
+ * every track after the first one with notes, are played by the left hand;
+ * the rest by the right. Times are converted from ticks to beats.
+ * @param data Contents of a .mid file
+ */
+export const readNoteSequenceFromMidi = (data: ArrayBuffer): NoteSequence => {
+  const midi = new Midi(data);
+  const ppq = midi.header.ppq;
+  const tracksWithNotes = midi.tracks.filter((track) => track.notes.length > 0);
+
+  const notes: Note[] = tracksWithNotes.flatMap((track, index) => {
+    const voice: Voice =
+      index > 0 || /left/i.test(track.name) ? 'left' : 'right';
+    return track.notes.map((note) => ({
+      pitch: midiNumberToNote(note.midi),
+      start: ticksToBeats(note.ticks, ppq),
+      duration: ticksToBeats(note.durationTicks, ppq),
+      velocity: note.velocity,
+      voice,
+    }));
+  });
+
+  const meter = midi.header.timeSignatures[0]?.timeSignature;
+  return {
+    notes: sortNotes(notes),
+    tempo: Math.round(midi.header.tempos[0]?.bpm ?? 120),
+    timeSignature: meter && meter.length === 2 ? [meter[0], meter[1]] : undefined,
+  };
+};
@@ -1,7 +1,16 @@
 import MidiPlayer from 'midi-player-js';
 import Soundfont from 'soundfont-player';
-import { NoteSequence } from './openai';
-import { Midi } from '@tonejs/midi';
+import { Note, NoteSequence, Voice } from './openai';
+import { buildMidiFromNoteSequence, encodeMidi, voiceForTrackNumber } from './midiBuilder';
+import { sortNotes } from '@/lib/musicUtils';
+import { beatsToTicks, midiNumberToNote, ticksToBeats } from '@/lib/pitch';
+import {
+  DEFAULT_HUMANIZE_AMOUNT,
+  DEFAULT_PERFORMANCE_SEED,
+  Performance,
+  PerformanceOptions,
+  renderPerformance,
+} from '@/lib/performance';
 
 // For storing the player instance
 let midiPlayer: MidiPlayer.Player | null = null;
@@ -12,8 +21,66 @@ let currentTempo = 120;
 let globalVolume = 1.0; // Default volume (range: 0.0 to 1.0)
 let gainNode: GainNode | null = null;
 
-// Callback for tracking the currently playing note
-let noteCallback: ((note: string | null) => void) | null = null;
+// Sequence currently loaded in the player
+let loadedSequence: NoteSequence | null = null;
+// How the loaded sequence is performed, and how much expression to add
+let loadedPerformance: Performance | null = null;
+let performanceOptions: PerformanceOptions = {
+  amount: DEFAULT_HUMANIZE_AMOUNT,
+  seed: DEFAULT_PERFORMANCE_SEED,
+};
+// True while notes are still being appended to the loaded sequence
+let isStreaming = false;
+// Set when playback caught up with a streaming sequence; playback resumes
+// from waitingAtTick as soon as more notes arrive
+let waitingForNotes = false;
+let waitingAtTick = 0;
+
+// A note that is currently sounding, and the hand playing it
+export interface ActiveNote {
+  note: string;
+  voice: Voice;
+}
+
+interface SoundingNote {
+  noteNumber: number;
+  voice: Voice;
+  node: Soundfont.Player | null;
+}
+
+// Callback for tracking the currently sounding notes
+let noteCallback: ((notes: ActiveNote[]) => void) | null = null;
+
+// Notes that are currently sounding, keyed by voice and MIDI note number so
+// both hands can hold the same key independently
+const activeNotes = new Map<string, SoundingNote>();
+
+/**
+ * Notify the note callback of the notes that are currently sounding
+ */
+const emitActiveNotes = (): void => {
+  if (noteCallback) {
+    const notes = Array.from(activeNotes.values())
+      .sort((a, b) => a.noteNumber - b.noteNumber)
+      .map(({ noteNumber, voice }) => ({ note: midiNumberToNote(noteNumber), voice }));
+    noteCallback(notes);
+  }
+};
+
+/**
+ * Release every sounding note and clear the keyboard highlight
+ */
+const releaseAllNotes = (): void => {
+  activeNotes.forEach(({ node }) => {
+    try {
+      node?.stop();
+    } catch (err) {
+      console.error('Error stopping note:', err);
+    }
+  });
+  activeNotes.clear();
+  emitActiveNotes();
+};
 
 /**
  * Initialize the MIDI player
@@ -60,39 +127,51 @@ export const initMidiPlayer = async (): Promise<void> => {
     
     // Initialize MIDI player
     midiPlayer = new MidiPlayer.Player((event) => {
+      const noteNumber = event.noteNumber;
+      if (typeof noteNumber !== 'number') return;
+
+      const voice = voiceForTrackNumber(event.track);
+      const key = `${voice}:${noteNumber}`;
+
       if (event.name === 'Note on' && event.velocity > 0) {
-        // Extract the note name
-        const noteName = event.noteName;
-        
-        // Call the note callback if defined
-        if (noteCallback && noteName) {
-          // Convert to scientific notation (e.g., C4, F#5)
-          const scientificNotation = noteName;
-          noteCallback(scientificNotation);
-        }
-        
-        // Play the note
+        // Retrigger cleanly if the same key is struck again before release
+        activeNotes.get(key)?.node?.stop();
+
+        // Start the note; it keeps sounding until its note off event
+        let node: Soundfont.Player | null = null;
         try {
           if (instrument && audioContext) {
-            instrument.play(event.noteName, audioContext.currentTime, {
+            node = instrument.play(midiNumberToNote(noteNumber), audioContext.currentTime, {
               gain: (event.velocity / 100) * globalVolume, // Apply global volume
-              duration: event.duration / 1000,
             });
           }
         } catch (err) {
           console.error('Error playing note:', event.noteName, err);
         }
+
+        activeNotes.set(key, { noteNumber, voice, node });
+        emitActiveNotes();
       } else if (event.name === 'Note off' || (event.name === 'Note on' && event.velocity === 0)) {
-        // Note off event - could be used to stop visualization
+        // Release the note and stop highlighting its key
+        if (activeNotes.has(key)) {
+          activeNotes.get(key)?.node?.stop();
+          activeNotes.delete(key);
+          emitActiveNotes();
+        }
       }
     });
     
     // Set event listeners
     midiPlayer.on('endOfFile', () => {
-      console.log('Playback completed');
-      if (noteCallback) {
-        noteCallback(null); // Clear the current note
+      if (isStreaming && midiPlayer) {
+        // Ran out of notes while more are still arriving: wait for them
+        console.log('Playback caught up with the stream, waiting for notes');
+        waitingForNotes = true;
+        waitingAtTick = midiPlayer.getTotalTicks();
+        return;
       }
+
+      console.log('Playback completed');
       stopMidi();
     });
     
@@ -107,9 +186,9 @@ export const initMidiPlayer = async (): Promise<void> => {
 
 /**
  * Set callback for note tracking
- * @param callback Function to call when a note is played
+ * @param callback Function to call with the sounding notes whenever they change
  */
-export const setNoteTrackingCallback = (callback: (note: string | null) => void): void => {
+export const setNoteTrackingCallback = (callback: (notes: ActiveNote[]) => void): void => {
   noteCallback = callback;
 };
 
@@ -131,118 +210,149 @@ export const loadNoteSequence = async (noteSequence: NoteSequence): Promise<void
       throw new Error('MIDI player not initialized');
     }
     
-    // Convert note sequence to MIDI
-    const midi = new Midi();
-    const track = midi.addTrack();
-    track.instrument.name = "Piano";
-    
-    // Set tempo and time signature
-    midi.header.setTempo(noteSequence.tempo);
-    midi.header.timeSignatures = [{
-      ticks: 0,
-      timeSignature: [4, 4]
-    }];
-    
-    // Convert notes to MIDI format and add to track
-    let currentTime = 0;
-    let notesAdded = 0;
-    
-    // Map of note names to MIDI note numbers (for middle C octave)
-    const noteToMidiBaseC4: Record<string, number> = {
-      'C': 60, 'C#': 61, 'Db': 61,
-      'D': 62, 'D#': 63, 'Eb': 63,
-      'E': 64,
-      'F': 65, 'F#': 66, 'Gb': 66,
-      'G': 67, 'G#': 68, 'Ab': 68,
-      'A': 69, 'A#': 70, 'Bb': 70,
-      'B': 71
-    };
-    
-    // Process each note in the sequence
-    for (const noteStr of noteSequence.notes) {
-      try {
-        // Parse scientific notation (e.g., C4, F#5)
-        const match = noteStr.match(/^([A-G][#b]?)(\d+)$/);
-        
-        if (match) {
-          const [, noteName, octaveStr] = match;
-          const octave = parseInt(octaveStr, 10);
-          
-          let midiNoteNumber: number;
-          
-          // Handle direct mapping for common notes
-          if (noteName in noteToMidiBaseC4) {
-            midiNoteNumber = noteToMidiBaseC4[noteName];
-          } else {
-            // For less common formats, normalize the note name
-            const noteFirstChar = noteName.charAt(0);
-            const accidental = noteName.substring(1);
-            
-            // Get the base note without accidental
-            const baseNote = noteFirstChar;
-            
-            // Start with the base note MIDI number
-            midiNoteNumber = noteToMidiBaseC4[baseNote];
-            
-            // Apply accidental
-            if (accidental === '#') {
-              midiNoteNumber += 1;
-            } else if (accidental === 'b') {
-              midiNoteNumber -= 1;
-            }
-          }
-          
-          // Adjust for octave (each octave is 12 semitones)
-          midiNoteNumber += (octave - 4) * 12;
-          
-          // Add note
-          track.addNote({
-            midi: midiNoteNumber,
-            time: currentTime,
-            duration: 0.5,
-            velocity: 0.8
-          });
-          
-          notesAdded++;
-          
-          // Move time forward
-          currentTime += 0.5;
-        }
-      } catch (error) {
-        console.error(`Error processing note ${noteStr}:`, error);
-      }
-    }
-    
-    console.log(`Added ${notesAdded} notes to MIDI track`);
+    isStreaming = false;
+    waitingForNotes = false;
+    loadIntoPlayer(noteSequence);
     
-    if (notesAdded === 0) {
-      throw new Error("No valid notes could be added to the MIDI");
-    }
-    
-    // Convert to base64 string for the MIDI player
-    const midiArray = midi.toArray();
-    const midiBase64 = arrayBufferToBase64(midiArray);
-    
-    console.log('MIDI data created, loading into player...');
-    
-    try {
-      // Load the MIDI data
-      midiPlayer.loadDataUri(`data:audio/midi;base64,${midiBase64}`);
-      
-      // Set tempo
-      midiPlayer.tempo = noteSequence.tempo;
-      
-      console.log('Note sequence loaded successfully, tempo:', noteSequence.tempo);
-    } catch (loadError) {
-      console.error('Error loading MIDI data:', loadError);
-      throw loadError;
-    }
+    console.log('Note sequence loaded successfully, tempo:', noteSequence.tempo);
   } catch (error) {
     console.error('Error in loadNoteSequence:', error);
     throw error;
   }
 };
 
+/**
+ * Convert a note sequence to MIDI and load it into the existing player
+ * @param noteSequence The note sequence to load
+ */
+const loadIntoPlayer = (noteSequence: NoteSequence): void => {
+  if (!midiPlayer) {
+    throw new Error('MIDI player not initialized');
+  }
+
+  // Convert the humanized performance of the note sequence to MIDI
+  const performance = renderPerformance(noteSequence, performanceOptions);
+  const { midi, notesAdded } = buildMidiFromNoteSequence(performance.sequence);
+  
+  console.log(`Added ${notesAdded} notes to MIDI track`);
+  
+  if (notesAdded === 0) {
+    throw new Error("No valid notes could be added to the MIDI");
+  }
+  
+  // Convert to base64 string for the MIDI player
+  const midiArray = encodeMidi(midi);
+  const midiBase64 = arrayBufferToBase64(midiArray);
+  
+  try {
+    // Load the MIDI data
+    midiPlayer.loadDataUri(`data:audio/midi;base64,${midiBase64}`);
+    
+    // Keep the current tempo, which may have been changed by the user
+    midiPlayer.tempo = currentTempo;
+    loadedSequence = noteSequence;
+    loadedPerformance = performance;
+  } catch (loadError) {
+    console.error('Error loading MIDI data:', loadError);
+    throw loadError;
+  }
+};
+
+/**
+ * Convert a tick of the loaded performance to a beat of the score
+ * @param tick Position in the loaded MIDI file
+ */
+const toScoreBeat = (tick: number): number => {
+  if (!midiPlayer || !midiPlayer.division) return 0;
+  const beat = ticksToBeats(tick, midiPlayer.division);
+  return loadedPerformance ? loadedPerformance.toScoreBeat(beat) : beat;
+};
+
+/**
+ * Reload the player with a changed sequence without interrupting playback.
+ * Playback continues from the same position, or resumes if it was waiting
+ * for streamed notes.
+ * @param noteSequence The updated note sequence
+ */
+const reloadPreservingPosition = (noteSequence: NoteSequence): void => {
+  if (!midiPlayer) return;
+
+  const wasPlaying = midiPlayer.isPlaying() || waitingForNotes;
+  // The position is kept in beats of the score, as the new performance
+  // may be timed differently
+  const scoreBeat = toScoreBeat(waitingForNotes ? waitingAtTick : midiPlayer.getCurrentTick());
+
+  if (midiPlayer.isPlaying()) {
+    midiPlayer.pause();
+  }
+
+  loadIntoPlayer(noteSequence);
+
+  const tick = loadedPerformance
+    ? beatsToTicks(loadedPerformance.toPerformedBeat(scoreBeat), midiPlayer.division)
+    : 0;
+  if (tick > 0) {
+    midiPlayer.skipToTick(tick);
+  }
+  if (wasPlaying) {
+    waitingForNotes = false;
+    midiPlayer.play();
+  }
+};
+
+/**
+ * Load the first notes of a sequence that keeps growing while it plays.
+ * Add notes with appendNotes and close it with finishStreamingSequence.
+ * @param noteSequence The notes received so far
+ */
+export const beginStreamingSequence = async (noteSequence: NoteSequence): Promise<void> => {
+  await loadNoteSequence(noteSequence);
+  isStreaming = true;
+};
+
+/**
+ * Append notes to the loaded sequence, even while it is playing
+ * @param notes The notes to add
+ */
+export const appendNotes = (notes: Note[]): void => {
+  if (!loadedSequence || notes.length === 0) return;
+
+  try {
+    reloadPreservingPosition({
+      ...loadedSequence,
+      notes: sortNotes([...loadedSequence.notes, ...notes]),
+    });
+  } catch (error) {
+    console.error('Error appending notes:', error);
+  }
+};
+
+/**
+ * Mark a streaming sequence as complete
+ * @param finalSequence Optional final version of the sequence, which replaces
+ * the streamed notes if it differs from them
+ */
+export const finishStreamingSequence = (finalSequence?: NoteSequence): void => {
+  isStreaming = false;
+
+  try {
+    if (finalSequence && finalSequence.notes.length > 0) {
+      // Adopt the final tempo if validation changed it
+      if (loadedSequence && finalSequence.tempo !== loadedSequence.tempo) {
+        currentTempo = finalSequence.tempo;
+      }
+      reloadPreservingPosition(finalSequence);
+    }
+  } catch (error) {
+    console.error('Error loading final sequence:', error);
+  }
+
+  // Nothing more is coming; a player still waiting for notes is done
+  if (waitingForNotes) {
+    waitingForNotes = false;
+    stopMidi();
+  }
+};
 /**
  * Play the loaded MIDI
  */
@@ -279,8 +389,17 @@ export const playMidi = async (): Promise<void> => {
  * Pause the MIDI playback
  */
 export const pauseMidi = (): void => {
+  if (midiPlayer && waitingForNotes) {
+    // Stay at the end of the streamed notes so playback resumes from there
+    waitingForNotes = false;
+    midiPlayer.skipToTick(waitingAtTick);
+    console.log('MIDI playback paused while waiting for notes');
+    return;
+  }
+
   if (midiPlayer && midiPlayer.isPlaying()) {
     midiPlayer.pause();
+    releaseAllNotes();
     console.log('MIDI playback paused');
   }
 };
@@ -291,9 +410,8 @@ export const pauseMidi = (): void => {
 export const stopMidi = (): void => {
   if (midiPlayer) {
     midiPlayer.stop();
-    if (noteCallback) {
-      noteCallback(null); // Clear the current note
-    }
+    waitingForNotes = false;
+    releaseAllNotes(); // Clear the sounding notes
     console.log('MIDI playback stopped');
   }
 };
@@ -315,7 +433,48 @@ export const setMidiTempo = (tempo: number): void => {
  * @returns True if MIDI is currently playing
  */
 export const isMidiPlaying = (): boolean => {
-  return midiPlayer ? midiPlayer.isPlaying() : false;
+  // Waiting for streamed notes counts as playing
+  return midiPlayer ? midiPlayer.isPlaying() || waitingForNotes : false;
+};
+
+/**
+ * Get the playback position, in beats from the start of the piece. It
+ * stays where playback was paused and returns to 0 when it is stopped.
+ * @returns The current beat, or 0 if nothing is loaded
+ */
+export const getPlaybackBeat = (): number => {
+  if (!midiPlayer || !midiPlayer.division) return 0;
+  return toScoreBeat(midiPlayer.getCurrentTick());
+};
+
+/**
+ * Set how much human expression playback adds to the score (phrase
+ * dynamics, accents, timing deviations, ritardandos and legato) and the
+ * seed of its random deviations. The loaded sequence is re-rendered
+ * without interrupting playback.
+ * @param options Amount from 0.0 (exactly as written) to 1.0, and seed
+ */
+export const setPerformanceOptions = (options: PerformanceOptions): void => {
+  performanceOptions = {
+    amount: Math.max(0, Math.min(1, options.amount)),
+    seed: options.seed ?? DEFAULT_PERFORMANCE_SEED,
+  };
+
+  if (midiPlayer && loadedSequence) {
+    try {
+      reloadPreservingPosition(loadedSequence);
+    } catch (error) {
+      console.error('Error applying humanize settings:', error);
+    }
+  }
+};
+
+/**
+ * Get the human expression added to playback
+ * @returns Current amount (0.0 to 1.0) and seed
+ */
+export const getPerformanceOptions = (): PerformanceOptions => {
+  return performanceOptions;
 };
 
 /**
@@ -333,6 +492,10 @@ export const cleanupMidiPlayer = (): void => {
   }
   
   instrument = null;
+  activeNotes.clear();
+  loadedSequence = null;
+  isStreaming = false;
+  waitingForNotes = false;
   isInitialized = false;
   noteCallback = null;
   console.log('MIDI player resources cleaned up');
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CompletionResult, LLMProvider } from "./providers";
+import { requestComposition, type GeneratedComposition } from "./openai";
+
+// Answers of the fake provider, one per request
+const answers: string[] = [];
+const complete = vi.fn(async (): Promise<CompletionResult> => ({ content: answers.shift() ?? "" }));
+
+const provider = {
+  id: "demo",
+  name: "Demo",
+  defaultModel: "demo-model",
+  complete,
+} as unknown as LLMProvider;
+
+vi.mock("./providers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./providers")>()),
+  getActiveProvider: () => provider,
+  getActiveProviderId: () => "demo",
+  getProviderCredentials: () => ({}),
+  isProviderConfigured: () => true,
+}));
+
+// IndexedDB and crypto.subtle stand-ins: the cache is a map keyed by request
+const cache = new Map<string, GeneratedComposition>();
+vi.mock("./generationCache", () => ({
+  isHashingAvailable: () => true,
+  isGenerationCacheAvailable: () => true,
+  getSystemPromptVersion: async () => "v1",
+  computeCacheKey: async (request: unknown) => JSON.stringify(request),
+  getCachedComposition: async (key: string) => cache.get(key) ?? null,
+  cacheComposition: async (key: string, composition: GeneratedComposition) => {
+    cache.set(key, composition);
+  },
+}));
+
+const answer = (pitch: string) =>
+  JSON.stringify({
+    tempo: 90,
+    events: [{ hand: "right", pitches: [pitch], start: 0, duration: 1, velocity: 0.7 }],
+  });
+
+const MESSAGES = [
+  { role: "system" as const, content: "Write piano music" },
+  { role: "user" as const, content: "A short motif" },
+];
+
+describe("requestComposition cache", () => {
+  beforeEach(() => {
+    answers.length = 0;
+    cache.clear();
+    complete.mockClear();
+    vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  });
+
+  it("answers a repeated request from the cache", async () => {
+    answers.push(answer("C4"));
+    await requestComposition(MESSAGES);
+    const repeated = await requestComposition(MESSAGES);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(repeated.report.cacheHit).toBe(true);
+    expect(repeated.notes.map((note) => note.pitch)).toEqual(["C4"]);
+  });
+
+  it("replaces the cached answer with a bypassed one", async () => {
+    answers.push(answer("C4"), answer("G4"));
+    await requestComposition(MESSAGES);
+    const bypassed = await requestComposition(MESSAGES, { bypassCache: true });
+    const repeated = await requestComposition(MESSAGES);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(bypassed.report.cacheHit).toBe(false);
+    expect(bypassed.notes.map((note) => note.pitch)).toEqual(["G4"]);
+    expect(repeated.report.cacheHit).toBe(true);
+    expect(repeated.notes.map((note) => note.pitch)).toEqual(["G4"]);
+  });
+});
@@ -1,81 +1,223 @@
-// OpenAI API service for music generation
-import { Midi } from '@tonejs/midi';
+// Music generation service. Requests go through the active LLM provider
+// (see ./providers).
+import { buildMidiFromNoteSequence, encodeMidi } from './midiBuilder';
+import {
+  ChatMessage,
+  RequestStatus,
+  getActiveProvider,
+  getActiveProviderId,
+  getProviderCredentials,
+  isProviderConfigured,
+} from './providers';
+import { createAbortError } from './providers/http';
+import {
+  InvalidApiKeyError,
+  InvalidNotesError,
+  UnparsableResponseError,
+} from './generationErrors';
+import {
+  cacheComposition,
+  computeCacheKey,
+  getCachedComposition,
+  getSystemPromptVersion,
+  isGenerationCacheAvailable,
+  isHashingAvailable,
+} from './generationCache';
+import {
+  CompositionRecipe,
+  RECIPE_FORMAT,
+  RECIPE_VERSION,
+  RecipeParameters,
+  describePostProcessing,
+} from './recipes';
+import {
+  COMPOSITION_JSON_SCHEMA,
+  CompositionCheck,
+  MAX_TEMPO,
+  MIN_TEMPO,
+  buildRepairPrompt,
+  checkAbcComposition,
+  checkComposition,
+} from './compositionSchema';
+import {
+  UsageRecord,
+  UsageTotals,
+  assertWithinSpendingCap,
+  recordUsage,
+  sumUsage,
+} from './usage';
+import {
+  CompositionConstraints,
+  buildConstraintRepairPrompt,
+  checkConstraints,
+  describeConstraints,
+  enforceConstraints,
+  hasConstraints,
+} from './generationConstraints';
+import {
+  formatKey,
+  formatTimeSignature,
+  getBeatsPerBar,
+  getSequenceLengthInBeats,
+  inferKey,
+  sortNotes,
+  validateNoteSequence,
+  validateNotes,
+} from '@/lib/musicUtils';
+import { COMPACT_ENCODING_LEGEND, encodeNotesCompact } from '@/lib/scoreEncoding';
+import { createCompositionStreamParser } from '@/lib/streamingJson';
+import { PerformanceOptions, renderPerformance } from '@/lib/performance';
 
-export interface OpenAIConfig {
-  apiKey: string;
-}
+// Which hand plays a note. Each voice is written to its own MIDI track.
+export type Voice = 'right' | 'left';
+
+export const VOICES: Voice[] = ['right', 'left'];
 
 export interface Note {
   pitch: string;
-  duration: number;
-  velocity: number;
+  start: number; // Onset in beats from the beginning of the piece
+  duration: number; // Length in beats (1 = quarter note)
+  velocity: number; // Loudness from 0.0 to 1.0
+  voice: Voice;
 }
 
+// Start of a named section of a longer piece. A section may change the
+// tempo; "tempo" on the sequence is the tempo at the beginning.
+export interface SectionMarker {
+  name: string;
+  start: number; // Beat at which the section begins
+  key?: string;
+  tempo?: number;
+}
+
+// Meter as [beats per bar, beat unit], e.g. [3, 4] or [6, 8]
+export type TimeSignature = [number, number];
+
+// A score: notes from both hands, ordered by start time. Notes sharing a
+// start time sound together as a chord. Without a time signature the
+// piece is in 4/4.
 export interface NoteSequence {
-  notes: Note[] | string[];
+  notes: Note[];
   tempo: number;
+  sections?: SectionMarker[];
+  timeSignature?: TimeSignature;
 }
 
-// For backward compatibility with existing code
-export interface SimpleNoteSequence {
-  notes: string[];
-  tempo: number;
+// A single event as returned by the model. Chords list several pitches;
+// a lone "pitch" is accepted for single notes.
+export interface RawNoteEvent {
+  hand?: Voice;
+  pitches?: string[];
+  pitch?: string;
+  start?: number;
+  duration?: number;
+  velocity?: number;
+}
+
+// Raw response from the model, before validation. Events of both hands come
+// in one time-ordered list. Older formats are still accepted: per-hand
+// "voices" lists, and a flat "notes" list (note objects or plain pitch
+// strings) treated as the right hand.
+export interface RawNoteSequence {
+  events?: RawNoteEvent[];
+  voices?: Partial<Record<Voice, Array<RawNoteEvent | string>>>;
+  notes?: Array<RawNoteEvent | string>;
+  tempo?: number;
 }
 
+// How the model writes its answer: JSON events, or an ABC notation tune,
+// which is shorter and carries bars, key and meter
+export type ResponseFormat = 'json' | 'abc';
+
 export interface GenerateOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  // How many times the model may be asked to fix an invalid answer
+  maxRepairAttempts?: number;
+  // Musical settings the answer must follow
+  constraints?: CompositionConstraints;
+  // Cancels the generation, including repair attempts and retries
+  signal?: AbortSignal;
+  // Longest wait for the provider to start answering, per request
+  timeoutMs?: number;
+  // Retries after rate limiting, server errors or timeouts, per request
+  maxRetries?: number;
+  // Reports whether the request is waiting, streaming or retrying
+  onStatus?: (status: RequestStatus) => void;
+  // Ask the model even if an identical request is cached; the fresh
+  // answer replaces the cached one
+  bypassCache?: boolean;
+  // Answer format; ABC answers are not played while they stream
+  responseFormat?: ResponseFormat;
+  // When set, the answer is streamed and notes are passed here as soon as
+  // each event is complete, along with the tempo once it is known. Only the
+  // first answer is streamed; the returned composition is authoritative.
+  onPartialNotes?: (notes: Note[], tempo: number | undefined) => void;
 }
 
-// Default configuration values
-const DEFAULT_MODEL = "gpt-4o";
-const DEFAULT_TEMPERATURE = 0.2;
-const DEFAULT_MAX_TOKENS = 1000;
-
-// Store API key in memory (not persisted to localStorage)
-let apiKeyInMemory: string | null = null;
-
-export const setApiKey = (key: string): void => {
-  apiKeyInMemory = key;
-};
-
-export const getApiKey = (): string | null => {
-  return apiKeyInMemory;
-};
-
-export const clearApiKey = (): void => {
-  apiKeyInMemory = null;
-};
+// A correction or removal made while validating the model's answer
+export interface ValidationIssue {
+  path: string;
+  action: 'fixed' | 'dropped';
+  message: string;
+}
 
-// Check if API key is set
-export const hasApiKey = (): boolean => {
-  return !!apiKeyInMemory;
-};
+// What happened while turning the model's answer into a playable score
+export interface GenerationReport {
+  attempts: number; // Model calls made, including repair retries
+  repairs: Array<{ attempt: number; errors: string[] }>;
+  // True if the final answer still failed the schema and was salvaged
+  salvaged: boolean;
+  fixed: ValidationIssue[];
+  dropped: ValidationIssue[];
+  // Tokens and estimated cost of every call made, repairs included
+  usage: UsageTotals;
+  // True if the result was loaded from the generation cache
+  cacheHit: boolean;
+}
 
-// Generate music from a prompt using OpenAI's API
-export const generateMusicFromPrompt = async (
-  prompt: string,
-  options?: GenerateOptions
-): Promise<NoteSequence> => {
-  if (!apiKeyInMemory) {
-    throw new Error("OpenAI API key is not set");
-  }
+export interface GeneratedComposition extends NoteSequence {
+  report: GenerationReport;
+  // How to reproduce or audit this result
+  recipe: CompositionRecipe;
+}
 
-  // Use provided options or defaults
-  const model = options?.model || DEFAULT_MODEL;
-  const temperature = options?.temperature ?? DEFAULT_TEMPERATURE;
-  const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS;
+// Default configuration values
+export const DEFAULT_TEMPERATURE = 0.2;
+export const DEFAULT_MAX_TOKENS = 1000;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const FALLBACK_TEMPO = 100;
 
-  const systemPrompt = `You are a world-class composer and concert pianist with deep expertise in music theory, composition techniques, and emotional expression through piano performance. Your task is to create captivating, emotionally resonant piano compositions that showcase both technical brilliance and artistic sensitivity.
+// Composer instructions shared by every generation request
+export const SYSTEM_PROMPT = `You are a world-class composer and concert pianist with deep expertise in music theory, composition techniques, and emotional expression through piano performance. Your task is to create captivating, emotionally resonant piano compositions that showcase both technical brilliance and artistic sensitivity.
 
   RESPONSE FORMAT:
   Return ONLY a valid JSON object with the following structure:
   {
-    "notes": ["C4", "E4", "G4", ...],
-    "tempo": 120
+    "tempo": 120,
+    "events": [
+      { "hand": "right", "pitches": ["E5"], "start": 0, "duration": 1, "velocity": 0.7 },
+      { "hand": "left", "pitches": ["C3", "G3"], "start": 0, "duration": 2, "velocity": 0.5 },
+      { "hand": "right", "pitches": ["D5"], "start": 1, "duration": 0.5, "velocity": 0.6 },
+      ...
+    ]
   }
 
+  EVENT FIELDS:
+  - "hand": "right" or "left"
+  - "pitches": one pitch for a single note, or several for a chord, in scientific pitch notation (e.g., C4, F#5, Bb3)
+  - "start": onset time in beats from the beginning of the piece (quarter note = 1 beat)
+  - "duration": length in beats (e.g., 0.25 sixteenth, 0.5 eighth, 1 quarter, 1.5 dotted quarter, 2 half, 4 whole)
+  - "velocity": loudness from 0.0 (silent) to 1.0 (fortissimo); pianissimo ~0.3, mezzo ~0.6, forte ~0.85
+
+  TWO-HAND WRITING:
+  - The right hand carries the melody and upper harmony, mostly from C4 upward
+  - The left hand carries the bass line and accompaniment (chords, arpeggios, broken chords), mostly below C4
+  - List events of both hands together, ordered by "start"; events with the same "start" sound together
+  - Write "tempo" before "events"
+  - Keep each chord playable by one hand (within an octave or so, at most 4-5 notes)
+
   MUSICAL COMPOSITION GUIDELINES:
   - Incorporate proper musical phrasing with tension and resolution
   - Create clear melodic themes with development and variation
@@ -87,7 +229,7 @@ export const generateMusicFromPrompt = async (
 
   TECHNICAL SPECIFICATIONS:
   - Notes must use scientific pitch notation (e.g., C4, F#5, Bb3)
-  - Generate 32-128 notes to create a complete musical idea with development and resolution
+  - Generate 32-128 events across both hands to create a complete musical idea with development and resolution
   - Select an appropriate tempo that enhances the mood:
     * Grave/Very slow: 40-60 BPM (profound, solemn)
     * Adagio/Slow: 60-72 BPM (expressive, contemplative)
@@ -99,288 +241,564 @@ export const generateMusicFromPrompt = async (
   EXPRESSIVE ELEMENTS:
   - Consider the emotional intent of the request (joyful, melancholic, dramatic, etc.)
   - Use register contrast (high vs. low notes) for expressive effect
-  - Incorporate varied note durations to create rhythmic interest
+  - Incorporate varied note durations to create rhythmic interest; avoid streams of equal note lengths
+  - Shape dynamics with velocity: crescendo into climaxes, soften phrase endings, accent strong beats
+  - Use "start" to place rests between phrases and let long notes ring
   - Think in terms of musical gestures that convey specific emotions
   - Create a satisfying beginning, middle, and end to the musical phrase
 
-  IMPORTANT: Return only the JSON object with notes as an array of strings in scientific pitch notation (e.g., ["C4", "E4", "G4", ...]) without explanations, comments, or markdown formatting.`;
+  IMPORTANT: Return only the JSON object with "tempo" and "events" (events of both hands with hand, pitches, start, duration, velocity, ordered by start) without explanations, comments, or markdown formatting.`;
+
+// Replaces SYSTEM_PROMPT when the model is asked to answer in ABC notation
+export const ABC_SYSTEM_PROMPT = `You are a world-class composer and concert pianist with deep expertise in music theory, composition techniques, and emotional expression through piano performance. Your task is to create captivating, emotionally resonant piano compositions that showcase both technical brilliance and artistic sensitivity.
+
+  RESPONSE FORMAT:
+  Return ONLY a tune in ABC notation (standard 2.1), with two voices for the two hands:
+  X:1
+  T:Title
+  M:4/4
+  L:1/8
+  Q:1/4=120
+  K:Am
+  V:R clef=treble
+  !mp! e2 dc B2 A2 | [Ace]4 e>d c2 | ...
+  V:L clef=bass
+  A,,2 E,2 A,2 E,2 | [A,,E,]8 | ...
+
+  NOTATION:
+  - Header fields in this order: X, T, M (meter), L (unit note length), Q (tempo as 1/4=BPM), K (key)
+  - V:R is the right hand, V:L the left hand; write all bars of V:R, then all bars of V:L
+  - C is middle C (C4), c is C5, c' is C6, C, is C3 and C,, is C2
+  - ^ sharp, _ flat, = natural; accidentals last until the end of the bar, and the key signature applies
+  - Lengths are multiples of L: A2 is twice the unit, A/2 or A/ half of it, A3/2 one and a half
+  - z is a rest; [CEG] is a chord; a hyphen ties a note into the next (c2-|c2)
+  - Dynamics go before a note as !pp! !p! !mp! !mf! !f! !ff!
+  - Every bar of a voice must add up to the meter, and both voices must have the same number of bars
+  - Do not use repeats, numbered endings, grace notes or voice overlays (&); write everything out
+
+  TWO-HAND WRITING:
+  - The right hand carries the melody and upper harmony, mostly from C4 upward
+  - The left hand carries the bass line and accompaniment (chords, arpeggios, broken chords), mostly below C4
+  - Keep each chord playable by one hand (within an octave or so, at most 4-5 notes)
+
+  MUSICAL COMPOSITION GUIDELINES:
+  - Incorporate proper musical phrasing with tension and resolution
+  - Create clear melodic themes with development and variation
+  - Balance repetition and novelty to maintain interest
+  - Ensure harmonic coherence with meaningful chord progressions
+  - Design dynamic contours that enhance emotional expression
+  - Consider voice leading principles for smooth melodic lines
+
+  TECHNICAL SPECIFICATIONS:
+  - Write 8-32 bars with a complete musical idea, development and resolution
+  - Select a tempo that suits the mood: 40-60 BPM grave, 60-72 adagio, 73-108 andante, 109-132 allegro, 133-168 vivace, 169-200 presto
+  - When a request describes timings in beats ("start", "duration"), one beat is a quarter note, and the tune starts at beat 0 of the requested passage
+
+  EXPRESSIVE ELEMENTS:
+  - Consider the emotional intent of the request (joyful, melancholic, dramatic, etc.)
+  - Use register contrast, varied note lengths, rests between phrases and dynamics for expressive effect
+  - Create a satisfying beginning, middle, and end to the musical phrase
+
+  IMPORTANT: Return only the ABC tune, without explanations, comments, or markdown formatting.`;
+
+/**
+ * Switch the system prompt of a request to the one for the answer format.
+ * The required settings appended to it are kept.
+ * @param messages Request messages, written for the JSON format
+ * @param format The answer format to ask for
+ */
+const useResponseFormat = (messages: ChatMessage[], format: ResponseFormat): ChatMessage[] => {
+  if (format === 'json') return messages;
+  return messages.map((message) =>
+    message.role === 'system'
+      ? { ...message, content: message.content.replace(SYSTEM_PROMPT, ABC_SYSTEM_PROMPT) }
+      : message,
+  );
+};
+
+/**
+ * The system prompt, followed by the user's required settings if any
+ * @param constraints Settings chosen by the user
+ */
+export const buildSystemPrompt = (constraints?: CompositionConstraints): string => {
+  const required = describeConstraints(constraints);
+  return required ? `${SYSTEM_PROMPT}\n\n  ${required}` : SYSTEM_PROMPT;
+};
+
+/**
+ * Turn a schema-checked or salvaged answer into a validated score
+ */
+const toComposition = (
+  raw: RawNoteSequence,
+  report: GenerationReport
+): Omit<GeneratedComposition, 'recipe'> => {
+  const issues: ValidationIssue[] = [];
+  const notes = validateNoteSequence(raw, issues);
+
+  let tempo = raw.tempo;
+  if (typeof tempo !== 'number' || !isFinite(tempo)) {
+    tempo = FALLBACK_TEMPO;
+    issues.push({ path: 'tempo', action: 'fixed', message: `Missing tempo; set to ${tempo} BPM` });
+  } else if (tempo < MIN_TEMPO || tempo > MAX_TEMPO) {
+    const clamped = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, tempo));
+    issues.push({ path: 'tempo', action: 'fixed', message: `Tempo ${tempo} clamped to ${clamped} BPM` });
+    tempo = clamped;
+  }
+
+  return {
+    notes,
+    tempo: Math.round(tempo),
+    report: {
+      ...report,
+      fixed: issues.filter((issue) => issue.action === 'fixed'),
+      dropped: issues.filter((issue) => issue.action === 'dropped'),
+    },
+  };
+};
+
+/**
+ * Apply the settings that can be enforced mechanically, recording every
+ * change in the report
+ */
+const applyConstraints = (
+  composition: Omit<GeneratedComposition, 'recipe'>,
+  constraints?: CompositionConstraints
+): Omit<GeneratedComposition, 'recipe'> => {
+  if (!constraints) return composition;
+
+  const issues: ValidationIssue[] = [];
+  const { report, ...sequence } = composition;
+  const enforced = enforceConstraints(sequence, constraints, issues);
+
+  return {
+    ...enforced,
+    report: {
+      ...report,
+      fixed: [...report.fixed, ...issues.filter((issue) => issue.action === 'fixed')],
+      dropped: [...report.dropped, ...issues.filter((issue) => issue.action === 'dropped')],
+    },
+  };
+};
+
+/**
+ * Ask the active provider for a composition and validate it against the
+ * schema and the requested settings. Invalid answers are sent back with
+ * their errors for a bounded number of repair attempts; if the last answer
+ * is still invalid, whatever can be salvaged from it is kept and reported.
+ * Results are cached by request, so an identical request is answered from
+ * the cache unless options.bypassCache is set or the page cannot cache.
+ * @param messages Conversation to send, starting with the system prompt
+ * @param options Generation options
+ */
+export const requestComposition = async (
+  messages: ChatMessage[],
+  options?: GenerateOptions
+): Promise<GeneratedComposition> => {
+  const provider = getActiveProvider();
+  if (!isProviderConfigured(provider.id)) {
+    throw new InvalidApiKeyError(provider.name);
+  }
+
+  // Use provided options or defaults
+  const model = options?.model || provider.defaultModel;
+  const temperature = options?.temperature ?? DEFAULT_TEMPERATURE;
+  const maxTokens = options?.maxTokens || DEFAULT_MAX_TOKENS;
+  const maxRepairAttempts = options?.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const responseFormat = options?.responseFormat ?? 'json';
+  const requestMessages = useResponseFormat(messages, responseFormat);
+
+  const conversation = [...requestMessages];
+  const usageRecords: UsageRecord[] = [];
+  const report: GenerationReport = {
+    attempts: 0,
+    repairs: [],
+    salvaged: false,
+    fixed: [],
+    dropped: [],
+    usage: sumUsage(usageRecords),
+    cacheHit: false,
+  };
+
+  const parameters: RecipeParameters = {
+    temperature,
+    maxTokens,
+    maxRepairAttempts,
+    constraints: options?.constraints,
+    responseFormat,
+  };
+  // Hashing needs crypto.subtle, which plain-http pages do not have
+  const systemPromptVersion = isHashingAvailable()
+    ? await getSystemPromptVersion(requestMessages[0]?.role === 'system' ? requestMessages[0].content : '')
+    : undefined;
+  const cacheKey = isGenerationCacheAvailable()
+    ? await computeCacheKey({
+        providerId: provider.id,
+        model,
+        systemPromptVersion,
+        messages: requestMessages.slice(1),
+        parameters,
+      })
+    : undefined;
+
+  // A bypassed request skips the lookup but still stores its answer below
+  if (cacheKey && !options?.bypassCache) {
+    const cached = await getCachedComposition(cacheKey);
+    if (cached) {
+      return {
+        ...cached,
+        report: { ...cached.report, usage: sumUsage([]), cacheHit: true },
+      };
+    }
+  }
+
+  // Every answer the model gives, for the recipe
+  const rawOutputs: string[] = [];
+
+  // Attach the recipe and cache the result
+  const finish = async (
+    composition: Omit<GeneratedComposition, 'recipe'>
+  ): Promise<GeneratedComposition> => {
+    const recipe: CompositionRecipe = {
+      format: RECIPE_FORMAT,
+      version: RECIPE_VERSION,
+      kind: 'composition',
+      createdAt: new Date().toISOString(),
+      providerId: provider.id,
+      model,
+      systemPromptVersion,
+      cacheKey,
+      messages: requestMessages,
+      parameters,
+      rawOutputs,
+      postProcessing: [
+        ...describePostProcessing(composition.report),
+        ...(hasConstraints(options?.constraints)
+          ? [`Required settings enforced: ${describeConstraints(options?.constraints)}`]
+          : []),
+      ],
+      result: { notes: composition.notes.length, tempo: composition.tempo },
+    };
+    const result = { ...composition, recipe };
+    if (cacheKey) await cacheComposition(cacheKey, result);
+    return result;
+  };
 
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKeyInMemory}`,
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: prompt },
-        ],
-        temperature: temperature,
-        max_tokens: maxTokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(
-        `OpenAI API error: ${errorData.error?.message || response.statusText}`,
+    for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+      report.attempts = attempt;
+      assertWithinSpendingCap();
+
+      // Parse events out of the first answer while it streams in
+      const streamParser = options?.onPartialNotes && attempt === 1 && responseFormat === 'json'
+        ? createCompositionStreamParser()
+        : null;
+      let streaming = false;
+      const onToken = streamParser
+        ? (delta: string) => {
+            if (!streaming) {
+              streaming = true;
+              options?.onStatus?.({ state: 'streaming' });
+            }
+            const events = streamParser.push(delta) as RawNoteEvent[];
+            if (events.length === 0) return;
+            const notes = validateNotes(events, 'right', [], 'events');
+            if (notes.length > 0) {
+              options?.onPartialNotes?.(notes, streamParser.getTempo());
+            }
+          }
+        : undefined;
+
+      const { content, usage } = await provider.complete(
+        {
+          model,
+          messages: conversation,
+          temperature,
+          maxTokens,
+          // ABC answers are plain text
+          responseSchema: responseFormat === 'json'
+            ? { name: 'composition', schema: COMPOSITION_JSON_SCHEMA }
+            : undefined,
+          onToken,
+          signal: options?.signal,
+          timeoutMs: options?.timeoutMs,
+          maxRetries: options?.maxRetries,
+          onStatus: options?.onStatus,
+        },
+        getProviderCredentials(getActiveProviderId()),
       );
-    }
+      usageRecords.push(recordUsage(provider.id, model, usage));
+      report.usage = sumUsage(usageRecords);
+      rawOutputs.push(content || '');
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+      const check = !content
+        ? { errors: [`No content in ${provider.name} response`] } as CompositionCheck
+        : responseFormat === 'abc'
+          ? checkAbcComposition(content)
+          : checkComposition(content);
 
-    if (!content) {
-      throw new Error("No content in OpenAI response");
-    }
+      if (check.composition) {
+        const composition = toComposition(check.composition, report);
+        const constraintErrors = checkConstraints(composition, options?.constraints);
 
-    // Extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Could not parse JSON from OpenAI response");
-    }
+        if (constraintErrors.length === 0 || attempt > maxRepairAttempts) {
+          return finish(applyConstraints(composition, options?.constraints));
+        }
+
+        // Valid, but it ignores the requested settings
+        console.warn(`Attempt ${attempt} ignored the requested settings:`, constraintErrors);
+        report.repairs.push({ attempt, errors: constraintErrors });
+        conversation.push(
+          { role: 'assistant', content: content || '' },
+          { role: 'user', content: buildConstraintRepairPrompt(constraintErrors, responseFormat) },
+        );
+        continue;
+      }
 
-    const parsedResponse = JSON.parse(jsonMatch[0]);
-    console.log("Parsed response:", parsedResponse);
+      console.warn(`Attempt ${attempt} failed validation:`, check.errors);
 
-    // Validate the response format
-    if (
-      !Array.isArray(parsedResponse.notes) ||
-      typeof parsedResponse.tempo !== "number"
-    ) {
-      throw new Error("Invalid response format from OpenAI");
+      if (attempt <= maxRepairAttempts) {
+        // Send the errors back so the model can correct its answer
+        report.repairs.push({ attempt, errors: check.errors });
+        conversation.push(
+          { role: 'assistant', content: content || '' },
+          { role: 'user', content: buildRepairPrompt(check.errors, responseFormat) },
+        );
+        continue;
+      }
+
+      // Out of retries: keep whatever can be salvaged from the last answer
+      const parsed = check.parsed as RawNoteSequence | undefined;
+      if (
+        parsed &&
+        typeof parsed === 'object' &&
+        (Array.isArray(parsed.events) || parsed.voices || Array.isArray(parsed.notes))
+      ) {
+        const composition = toComposition(parsed, { ...report, salvaged: true });
+        if (composition.notes.length > 0) {
+          return finish(applyConstraints(composition, options?.constraints));
+        }
+      }
+
+      // No JSON at all, or JSON without a single usable note
+      const detail = check.errors.slice(0, 3).join('; ');
+      throw parsed === undefined
+        ? new UnparsableResponseError(provider.name, detail)
+        : new InvalidNotesError(provider.name, detail);
     }
 
-    return {
-      notes: parsedResponse.notes,
-      tempo: parsedResponse.tempo,
-    };
+    throw new UnparsableResponseError(provider.name);
   } catch (error) {
     console.error("Error generating music:", error);
     throw error;
   }
 };
 
+// Generate music from a prompt using the active LLM provider
+export const generateMusicFromPrompt = async (
+  prompt: string,
+  options?: GenerateOptions
+): Promise<GeneratedComposition> => {
+  // Budget enough tokens for a requested length
+  const lengthBars = options?.constraints?.lengthBars;
+  const maxTokens = options?.maxTokens ||
+    (lengthBars ? Math.max(DEFAULT_MAX_TOKENS, lengthBars * TOKENS_PER_BAR) : undefined);
+
+  return requestComposition(
+    [
+      { role: 'system', content: buildSystemPrompt(options?.constraints) },
+      { role: 'user', content: prompt },
+    ],
+    { ...options, maxTokens },
+  );
+};
+
+/**
+ * Generate several takes on one prompt as concurrent requests. Each take is
+ * numbered in its request so the model (and the seeded demo provider)
+ * produces distinct results. Streaming is not used for candidates.
+ * @param prompt The user's description of the piece
+ * @param count Number of takes to request
+ * @param options Generation options
+ * @returns One settled result per take, in order
+ */
+export const generateCandidates = async (
+  prompt: string,
+  count: number,
+  options?: GenerateOptions
+): Promise<PromiseSettledResult<GeneratedComposition>[]> => {
+  const takes = Array.from({ length: count }, (_, index) =>
+    generateMusicFromPrompt(
+      `${prompt}\n\n(Take ${index + 1} of ${count}: give this take its own distinct melody and texture.)`,
+      { ...options, onPartialNotes: undefined },
+    ),
+  );
+
+  const results = await Promise.allSettled(takes);
+  if (options?.signal?.aborted) throw createAbortError();
+  return results;
+};
+
+export interface ContinueOptions extends GenerateOptions {
+  bars?: number; // Number of bars to add, in the piece's time signature
+}
+
+const DEFAULT_CONTINUATION_BARS = 8;
+// Bar length of pieces written in 4/4, such as long-form sections
+export const BEATS_PER_BAR = 4;
+// Rough answer size per bar, used to scale the token budget
+export const TOKENS_PER_BAR = 200;
+
+/**
+ * Ask the model for the next bars of an existing piece, in the same style,
+ * and splice them onto the end of it. The new material starts on the first
+ * bar line after the last note ends.
+ * @param noteSequence The piece so far
+ * @param options Generation options and the number of bars to add
+ * @returns The whole piece, with the continuation appended
+ */
+export const continueComposition = async (
+  noteSequence: NoteSequence,
+  options?: ContinueOptions
+): Promise<GeneratedComposition> => {
+  const bars = options?.bars ?? DEFAULT_CONTINUATION_BARS;
+  const beatsPerBar = getBeatsPerBar(noteSequence.timeSignature);
+  const offset =
+    Math.ceil(getSequenceLengthInBeats(noteSequence.notes) / beatsPerBar) * beatsPerBar;
+  const key = formatKey(inferKey(noteSequence.notes));
+
+  const prompt = `Continue this piano piece with the next ${bars} bars in the same style, key and character. Develop its themes rather than starting something new, and make the continuation flow naturally from the last bar.
+
+Tempo: ${noteSequence.tempo} BPM
+Key: ${key}
+Time signature: ${formatTimeSignature(noteSequence.timeSignature)}
+Length so far: ${offset / beatsPerBar} bars
+
+The piece so far (${COMPACT_ENCODING_LEGEND}):
+${encodeNotesCompact(noteSequence.notes)}
+
+Return only the ${bars} new bars (${bars * beatsPerBar} beats), with "start" measured from the beginning of the continuation (0 = first beat after the existing music). Keep the tempo at ${noteSequence.tempo}.`;
+
+  const continuation = await requestComposition(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    {
+      ...options,
+      maxTokens: options?.maxTokens || Math.max(DEFAULT_MAX_TOKENS, bars * TOKENS_PER_BAR),
+    },
+  );
+
+  // Shift the new notes after the existing music and keep the original tempo
+  const appended = continuation.notes.map((note) => ({ ...note, start: note.start + offset }));
+
+  return {
+    notes: sortNotes([...noteSequence.notes, ...appended]),
+    tempo: noteSequence.tempo,
+    sections: noteSequence.sections,
+    timeSignature: noteSequence.timeSignature,
+    report: continuation.report,
+    recipe: {
+      ...continuation.recipe,
+      postProcessing: [
+        ...continuation.recipe.postProcessing,
+        `Shifted by ${offset} beats and appended to the existing ${noteSequence.notes.length} notes`,
+      ],
+    },
+  };
+};
+
+/**
+ * Revise an existing piece following a conversational instruction such as
+ * "slower and sadder" or "add a bass line". Earlier turns of the
+ * conversation are sent along so the model can build on them.
+ * @param noteSequence The current version of the piece
+ * @param instruction What the user wants changed
+ * @param history Earlier refinement turns, oldest first
+ * @param options Generation options
+ * @returns The complete revised piece
+ */
+export const refineComposition = async (
+  noteSequence: NoteSequence,
+  instruction: string,
+  history: ChatMessage[] = [],
+  options?: GenerateOptions
+): Promise<GeneratedComposition> => {
+  const bars = Math.ceil(
+    getSequenceLengthInBeats(noteSequence.notes) / getBeatsPerBar(noteSequence.timeSignature),
+  );
+  const key = formatKey(inferKey(noteSequence.notes));
+
+  const prompt = `Here is the current version of the piece.
+
+Tempo: ${noteSequence.tempo} BPM
+Key: ${key}
+Time signature: ${formatTimeSignature(noteSequence.timeSignature)}
+Length: ${bars} bars
+
+Score (${COMPACT_ENCODING_LEGEND}):
+${encodeNotesCompact(noteSequence.notes)}
+
+Revise it as follows: ${instruction}
+
+Keep everything the request does not ask to change. Return the complete revised piece, not just the changed part.`;
+
+  const revision = await requestComposition(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...history,
+      { role: 'user', content: prompt },
+    ],
+    {
+      ...options,
+      maxTokens: options?.maxTokens || Math.max(DEFAULT_MAX_TOKENS, bars * TOKENS_PER_BAR),
+    },
+  );
+
+  return { ...revision, timeSignature: noteSequence.timeSignature };
+};
+
 /**
  * Convert a note sequence to a MIDI file and trigger download
  * @param noteSequence The note sequence to convert
  * @param fileName Optional file name for the downloaded MIDI file
+ * @param performance Optional humanization, so the file sounds as played
  */
 export const downloadMidiFromNoteSequence = (
-  noteSequence: NoteSequence | SimpleNoteSequence,
-  fileName: string = 'ai-piano-performer'
+  noteSequence: NoteSequence,
+  fileName: string = 'ai-piano-performer',
+  performance?: PerformanceOptions
 ): void => {
   try {
     console.log("Starting MIDI file creation with notes:", noteSequence.notes);
-    
-    // Create a new MIDI file
-    const midi = new Midi();
-    console.log("MIDI object created");
-    
-    // Add a track
-    const track = midi.addTrack();
-    track.instrument.name = "Piano";
-    console.log("Track added");
-    
-    // Set tempo
-    midi.header.setTempo(noteSequence.tempo);
-    midi.header.timeSignatures = [{
-      ticks: 0,
-      timeSignature: [4, 4]
-    }];
-    console.log("Tempo and time signature set");
-    
-    // Map of note names to MIDI note numbers (for middle C octave)
-    const noteToMidiBaseC4: Record<string, number> = {
-      'C': 60, 'C#': 61, 'Db': 61,
-      'D': 62, 'D#': 63, 'Eb': 63,
-      'E': 64,
-      'F': 65, 'F#': 66, 'Gb': 66,
-      'G': 67, 'G#': 68, 'Ab': 68,
-      'A': 69, 'A#': 70, 'Bb': 70,
-      'B': 71
-    };
-    
-    let currentTime = 0;
-    let notesAdded = 0;
-    
-    // Check if each note is a string or an object
-    const firstNote = noteSequence.notes[0];
-    console.log("First note type:", typeof firstNote);
-    console.log("First note:", firstNote);
-    
-    if (typeof firstNote === 'string') {
-      // Process string-based notes
-      const stringNotes = noteSequence.notes as string[];
-      console.log("Processing string-based notes, count:", stringNotes.length);
-      
-      stringNotes.forEach((noteStr, index) => {
-        try {
-          console.log(`Processing note ${index + 1}/${stringNotes.length}: ${noteStr}`);
-          
-          // Parse scientific notation with regex
-          const match = noteStr.match(/^([A-G][#b]?)(\d+)$/);
-          
-          if (match) {
-            const [, noteName, octaveStr] = match;
-            const octave = parseInt(octaveStr, 10);
-            
-            let midiNoteNumber: number;
-            
-            // Handle direct mapping for common notes
-            if (noteName in noteToMidiBaseC4) {
-              midiNoteNumber = noteToMidiBaseC4[noteName];
-            } else {
-              // For less common formats, normalize the note name
-              const noteFirstChar = noteName.charAt(0);
-              const accidental = noteName.substring(1);
-              
-              // Get the base note without accidental
-              const baseNote = noteFirstChar;
-              
-              // Start with the base note MIDI number
-              midiNoteNumber = noteToMidiBaseC4[baseNote];
-              
-              // Apply accidental
-              if (accidental === '#') {
-                midiNoteNumber += 1;
-              } else if (accidental === 'b') {
-                midiNoteNumber -= 1;
-              }
-            }
-            
-            // Adjust for octave (each octave is 12 semitones)
-            midiNoteNumber += (octave - 4) * 12;
-            
-            console.log(`Converted ${noteStr} to MIDI note number: ${midiNoteNumber}`);
-            
-            // Add note using midi note number directly
-            track.addNote({
-              midi: midiNoteNumber,
-              time: currentTime,
-              duration: 0.5,
-              velocity: 0.8
-            });
-            
-            notesAdded++;
-            console.log(`Added note: ${noteStr} (MIDI: ${midiNoteNumber})`);
-            
-            // Move time forward
-            currentTime += 0.5;
-          } else {
-            console.warn(`Could not parse note: ${noteStr}, skipping`);
-          }
-        } catch (noteError) {
-          console.error(`Error processing note ${noteStr}:`, noteError);
-        }
-      });
-    } else if (typeof firstNote === 'object' && firstNote !== null) {
-      // Process object-based notes
-      console.log("Processing object-based notes");
-      
-      // Check if we're dealing with the proper structure
-      // @ts-ignore
-      if (firstNote.pitch) {
-        // Process notes with pitch, duration, velocity
-        noteSequence.notes.forEach((note: any, index) => {
-          try {
-            const pitch = note.pitch;
-            const duration = typeof note.duration === 'number' ? note.duration : 0.5;
-            const velocity = typeof note.velocity === 'number' ? Math.max(0, Math.min(1, note.velocity)) : 0.8;
-            
-            console.log(`Processing note ${index + 1}/${noteSequence.notes.length}: ${pitch} (duration: ${duration}, velocity: ${velocity})`);
-            
-            // Parse scientific notation
-            const match = pitch.match(/^([A-G][#b]?)(\d+)$/);
-            
-            if (match) {
-              const [, noteName, octaveStr] = match;
-              const octave = parseInt(octaveStr, 10);
-              
-              let midiNoteNumber: number;
-              
-              // Handle direct mapping for common notes
-              if (noteName in noteToMidiBaseC4) {
-                midiNoteNumber = noteToMidiBaseC4[noteName];
-              } else {
-                // For less common formats, normalize the note name
-                const noteFirstChar = noteName.charAt(0);
-                const accidental = noteName.substring(1);
-                
-                // Get the base note without accidental
-                const baseNote = noteFirstChar;
-                
-                // Start with the base note MIDI number
-                midiNoteNumber = noteToMidiBaseC4[baseNote];
-                
-                // Apply accidental
-                if (accidental === '#') {
-                  midiNoteNumber += 1;
-                } else if (accidental === 'b') {
-                  midiNoteNumber -= 1;
-                }
-              }
-              
-              // Adjust for octave (each octave is 12 semitones)
-              midiNoteNumber += (octave - 4) * 12;
-              
-              console.log(`Converted ${pitch} to MIDI note number: ${midiNoteNumber}`);
-              
-              // Add note with specified duration and velocity
-              track.addNote({
-                midi: midiNoteNumber,
-                time: currentTime,
-                duration: duration,
-                velocity: velocity
-              });
-              
-              notesAdded++;
-              console.log(`Added note: ${pitch} (MIDI: ${midiNoteNumber})`);
-              
-              // Move time forward by this note's duration
-              currentTime += duration;
-            } else {
-              console.warn(`Could not parse note: ${pitch}, skipping`);
-            }
-          } catch (noteError) {
-            console.error(`Error processing note:`, noteError);
-          }
-        });
-      } else {
-        throw new Error("Notes have an unexpected object format");
-      }
-    } else {
-      throw new Error(`Unexpected note format: ${typeof firstNote}`);
-    }
-    
+
+    const performed = performance ? renderPerformance(noteSequence, performance).sequence : noteSequence;
+    const { midi, notesAdded } = buildMidiFromNoteSequence(performed);
     console.log(`Total notes added: ${notesAdded} out of ${noteSequence.notes.length}`);
-    
+
     if (notesAdded === 0) {
       throw new Error("No valid notes were generated");
     }
-    
+
     // Convert to array buffer
     console.log("Converting MIDI to array buffer");
-    const midiArrayBuffer = midi.toArray();
-    
+    const midiArrayBuffer = encodeMidi(midi);
+
     // Create a blob
     const blob = new Blob([midiArrayBuffer], { type: 'audio/midi' });
     console.log("MIDI blob created");
-    
+
     // Create a download link
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
     a.download = `${fileName}.mid`;
-    
+
     console.log("Triggering download");
     // Trigger download
     document.body.appendChild(a);
     a.click();
-    
+
     // Clean up
     document.body.removeChild(a);
     window.URL.revokeObjectURL(url);
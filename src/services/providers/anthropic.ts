@@ -0,0 +1,134 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ProviderCredentials,
+  TokenUsage,
+} from './types';
+import { fetchWithRetry } from './http';
+import { ContentFilteredError, createResponseError } from '../generationErrors';
+import { readServerSentEvents } from './sse';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const PROVIDER_NAME = 'Anthropic';
+
+/**
+ * Send a request to Anthropic's Messages API. The system prompt is passed
+ * separately from the conversation turns. A response schema is enforced by
+ * forcing a call to a tool whose input is the answer.
+ */
+const complete = async (
+  request: CompletionRequest,
+  credentials: ProviderCredentials
+): Promise<CompletionResult> => {
+  const system = request.messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  const response = await fetchWithRetry(ANTHROPIC_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': credentials.apiKey ?? '',
+      'anthropic-version': ANTHROPIC_VERSION,
+      // Required for calls made directly from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      system,
+      messages: request.messages
+        .filter((message) => message.role !== 'system')
+        .map(({ role, content }) => ({ role, content })),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: request.onToken ? true : undefined,
+      ...(request.responseSchema && {
+        tools: [{
+          name: `submit_${request.responseSchema.name}`,
+          description: 'Submit the answer in the required format',
+          input_schema: request.responseSchema.schema,
+        }],
+        tool_choice: { type: 'tool', name: `submit_${request.responseSchema.name}` },
+      }),
+    }),
+  }, request, PROVIDER_NAME);
+
+  if (!response.ok) {
+    throw await createResponseError(PROVIDER_NAME, response, request.model);
+  }
+
+  if (request.onToken) {
+    // Text arrives as text deltas; a tool call's input as partial JSON
+    let text = '';
+    let toolInput = '';
+    // Input tokens come with message_start, output tokens with message_delta
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+    let refused = false;
+    await readServerSentEvents(response, (data) => {
+      const event = JSON.parse(data);
+      if (event.type === 'message_start') {
+        usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+      }
+      if (event.type === 'message_delta') {
+        usage.completionTokens = event.usage?.output_tokens ?? usage.completionTokens;
+        refused ||= event.delta?.stop_reason === 'refusal';
+      }
+      if (event.type !== 'content_block_delta') return;
+
+      const delta = event.delta?.type === 'input_json_delta'
+        ? event.delta.partial_json
+        : event.delta?.text;
+      if (!delta) return;
+
+      if (event.delta.type === 'input_json_delta') {
+        toolInput += delta;
+      } else {
+        text += delta;
+      }
+      request.onToken?.(delta);
+    });
+    if (refused && !toolInput && !text) {
+      throw new ContentFilteredError(PROVIDER_NAME);
+    }
+    return { content: toolInput || text, usage };
+  }
+
+  const data = await response.json();
+  const usage: TokenUsage | undefined = data.usage
+    ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+    : undefined;
+
+  if (data.stop_reason === 'refusal') {
+    throw new ContentFilteredError(PROVIDER_NAME);
+  }
+
+  // A forced tool call carries the answer as its input
+  const toolUse = (data.content ?? []).find(
+    (block: { type: string }) => block.type === 'tool_use'
+  );
+  if (toolUse) {
+    return { content: JSON.stringify(toolUse.input), usage };
+  }
+
+  const content = (data.content ?? [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+
+  return { content, usage };
+};
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: PROVIDER_NAME,
+  defaultModel: 'claude-3-5-sonnet-latest',
+  suggestedModels: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest'],
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  keyPrefix: 'sk-ant-',
+  keyPlaceholder: 'sk-ant-...',
+  complete,
+};
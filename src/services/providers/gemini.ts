@@ -0,0 +1,140 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ProviderCredentials,
+  TokenUsage,
+} from './types';
+import { fetchWithRetry } from './http';
+import { ContentFilteredError, createResponseError } from '../generationErrors';
+import { readServerSentEvents } from './sse';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const PROVIDER_NAME = 'Google Gemini';
+
+// Reasons Gemini gives for withholding an answer
+const BLOCK_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'OTHER']);
+
+// The parts of a generateContent response (or stream chunk) that are read
+interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+  promptFeedback?: { blockReason?: string };
+}
+
+/**
+ * Send a request to the Gemini generateContent API. Assistant turns use the
+ * "model" role and the system prompt goes in systemInstruction. Gemini's
+ * schema dialect differs from JSON Schema, so a response schema only switches
+ * on JSON mode; the answer is still validated by the caller.
+ */
+const complete = async (
+  request: CompletionRequest,
+  credentials: ProviderCredentials
+): Promise<CompletionResult> => {
+  const systemText = request.messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  const endpoint = request.onToken
+    ? 'streamGenerateContent?alt=sse'
+    : 'generateContent';
+
+  const response = await fetchWithRetry(
+    `${GEMINI_API_URL}/${encodeURIComponent(request.model)}:${endpoint}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': credentials.apiKey ?? '',
+      },
+      body: JSON.stringify({
+        systemInstruction: systemText ? { parts: [{ text: systemText }] } : undefined,
+        contents: request.messages
+          .filter((message) => message.role !== 'system')
+          .map((message) => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: message.content }],
+          })),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          responseMimeType: request.responseSchema ? 'application/json' : undefined,
+        },
+      }),
+    },
+    request,
+    PROVIDER_NAME
+  );
+
+  if (!response.ok) {
+    throw await createResponseError(PROVIDER_NAME, response, request.model);
+  }
+
+  // Each streamed chunk has the same shape as a full response
+  const textOf = (data: GeminiResponse): string =>
+    (data.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? '')
+      .join('');
+
+  // Streamed chunks carry running totals; the last one is final
+  const usageOf = (data: GeminiResponse): TokenUsage | undefined =>
+    data.usageMetadata
+      ? {
+          promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+          completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+        }
+      : undefined;
+
+  // Why the prompt or the answer was blocked, if it was
+  const blockReasonOf = (data: GeminiResponse): string | undefined => {
+    const reason = data.promptFeedback?.blockReason ?? data.candidates?.[0]?.finishReason;
+    return BLOCK_REASONS.has(reason) ? reason : undefined;
+  };
+
+  if (request.onToken) {
+    let content = '';
+    let usage: TokenUsage | undefined;
+    let blockReason: string | undefined;
+    await readServerSentEvents(response, (data) => {
+      const chunk: GeminiResponse = JSON.parse(data);
+      usage = usageOf(chunk) ?? usage;
+      blockReason = blockReasonOf(chunk) ?? blockReason;
+      const delta = textOf(chunk);
+      if (delta) {
+        content += delta;
+        request.onToken?.(delta);
+      }
+    });
+    if (blockReason && !content) {
+      throw new ContentFilteredError(PROVIDER_NAME, blockReason);
+    }
+    return { content, usage };
+  }
+
+  const data: GeminiResponse = await response.json();
+  const content = textOf(data);
+  const blockReason = blockReasonOf(data);
+  if (blockReason && !content) {
+    throw new ContentFilteredError(PROVIDER_NAME, blockReason);
+  }
+  return { content, usage: usageOf(data) };
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  name: PROVIDER_NAME,
+  defaultModel: 'gemini-1.5-pro',
+  suggestedModels: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-2.0-flash'],
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  keyPlaceholder: 'AIza...',
+  complete,
+};
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RequestStatus } from "./types";
+import { MAX_RETRY_AFTER_MS, fetchWithRetry } from "./http";
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+describe("fetchWithRetry", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("fails at once when a 429 reports exhausted quota", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(429, { error: { message: "You exceeded your current quota", code: "insufficient_quota" } }),
+    );
+    const response = await fetchWithRetry("https://example.test", {}, {}, "OpenAI");
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(429);
+    // The body is still there for the error classification
+    expect((await response.json()).error.code).toBe("insufficient_quota");
+  });
+
+  it("retries a rate limit, waiting no longer than the Retry-After cap", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, { error: { message: "Slow down" } }, { "Retry-After": "3600" }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+    const statuses: RequestStatus[] = [];
+
+    const pending = fetchWithRetry("https://example.test", {}, { onStatus: (status) => statuses.push(status) }, "OpenAI");
+    await vi.advanceTimersByTimeAsync(MAX_RETRY_AFTER_MS);
+    const response = await pending;
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(statuses).toContainEqual({
+      state: "retrying",
+      reason: "rate-limited",
+      retry: 1,
+      maxRetries: 3,
+      delayMs: MAX_RETRY_AFTER_MS,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { CompletionRequest, RetryReason } from './types';
+import { createNetworkError } from '../generationErrors';
+
+// Defaults for requests that do not set their own limits
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 3;
+
+// Exponential backoff: 1s, 2s, 4s... with jitter, capped
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Longest wait honored from Retry-After; servers sometimes ask for hours
+export const MAX_RETRY_AFTER_MS = 60_000;
+
+// Statuses worth retrying: rate limiting and transient server failures
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+// 429 answers that mean the account is out of quota or credit (OpenAI's
+// insufficient_quota, Gemini's daily limits, the proxy's daily quota)
+// rather than sending too fast; retrying them cannot succeed
+const QUOTA_EXHAUSTED_PATTERN = /insufficient_quota|billing_hard_limit_reached|perday/i;
+
+/**
+ * Whether an error comes from an aborted request
+ * @param error Any thrown value
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const createAbortError = (): Error => {
+  const error = new Error('The request was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Delay requested by the server, from Retry-After (seconds or an HTTP
+ * date) or OpenAI's retry-after-ms header
+ * @param response The failed response
+ * @returns The delay in milliseconds, or null if none was given
+ */
+const getRetryAfterMs = (response: Response): number | null => {
+  const retryAfterMs = Number(response.headers.get('retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = response.headers.get('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Whether a 429 response reports exhausted quota, read from a copy of its
+// body so the caller can still classify the error
+const isQuotaExhausted = async (response: Response): Promise<boolean> => {
+  const body = await response.clone().text().catch(() => '');
+  return QUOTA_EXHAUSTED_PATTERN.test(body);
+};
+
+const getBackoffMs = (retry: number): number => {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** (retry - 1);
+  return Math.min(MAX_RETRY_DELAY_MS, delay * (0.75 + Math.random() * 0.5));
+};
+
+// Wait, unless the request is aborted first
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Fetch with cancellation, a per-attempt timeout and retries. Rate limits
+ * (429), transient server errors, network failures and timeouts are
+ * retried with exponential backoff, waiting as long as Retry-After asks
+ * (up to MAX_RETRY_AFTER_MS). A 429 for exhausted quota is not retried.
+ * Other responses, including errors, are returned to the caller. A request
+ * that never gets an answer fails with a NetworkError.
+ * @param url Request URL
+ * @param init Fetch options
+ * @param request The completion request, for its signal, limits and status callback
+ * @param providerName Provider name for error messages
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  request: Pick<CompletionRequest, 'signal' | 'timeoutMs' | 'maxRetries' | 'onStatus'>,
+  providerName: string
+): Promise<Response> => {
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let retry = 0; ; retry++) {
+    if (request.signal?.aborted) throw createAbortError();
+    request.onStatus?.({ state: 'waiting' });
+
+    // Abort this attempt on timeout or when the caller cancels. The caller's
+    // signal stays linked so cancelling also stops reading the body.
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let reason: RetryReason;
+    let retryAfterMs: number | null = null;
+    let failure: Error;
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      clearTimeout(timer);
+
+      if (!RETRYABLE_STATUSES.has(response.status) || retry >= maxRetries) {
+        return response;
+      }
+      if (response.status === 429 && (await isQuotaExhausted(response))) {
+        return response;
+      }
+
+      request.signal?.removeEventListener('abort', onAbort);
+      reason = response.status === 429 ? 'rate-limited' : 'server-error';
+      retryAfterMs = getRetryAfterMs(response);
+      failure = new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+      if (request.signal?.aborted) throw createAbortError();
+
+      if (timedOut) {
+        reason = 'timeout';
+        failure = new Error(`No response after ${Math.round(timeoutMs / 1000)} seconds`);
+      } else {
+        reason = 'network';
+        failure = error instanceof Error ? error : new Error(String(error));
+      }
+      if (retry >= maxRetries) throw createNetworkError(providerName, failure.message);
+    }
+
+    const delayMs = Math.round(
+      retryAfterMs === null ? getBackoffMs(retry + 1) : Math.min(retryAfterMs, MAX_RETRY_AFTER_MS),
+    );
+    console.warn(`Request failed (${reason}: ${failure.message}); retry ${retry + 1} of ${maxRetries} in ${delayMs}ms`);
+    request.onStatus?.({ state: 'retrying', reason, retry: retry + 1, maxRetries, delayMs });
+    await sleep(delayMs, request.signal);
+  }
+};
@@ -0,0 +1,66 @@
+// LLM provider registry and per-provider connection settings
+import { anthropicProvider } from './anthropic';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAIProvider } from './openai';
+import { openAICompatibleProvider } from './openaiCompatible';
+import { proxyProvider } from './proxy';
+import { LLMProvider, ProviderCredentials, ProviderId } from './types';
+
+export * from './types';
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+// Active provider and credentials are kept in memory only (not persisted)
+let activeProviderId: ProviderId = 'openai';
+const credentialsInMemory: Partial<Record<ProviderId, ProviderCredentials>> = {};
+
+export const getProvider = (id: ProviderId): LLMProvider => {
+  return PROVIDERS[id];
+};
+
+export const getActiveProviderId = (): ProviderId => {
+  return activeProviderId;
+};
+
+export const getActiveProvider = (): LLMProvider => {
+  return PROVIDERS[activeProviderId];
+};
+
+export const setActiveProvider = (id: ProviderId): void => {
+  activeProviderId = id;
+};
+
+export const setProviderCredentials = (
+  id: ProviderId,
+  credentials: ProviderCredentials
+): void => {
+  credentialsInMemory[id] = { ...credentials };
+};
+
+export const getProviderCredentials = (id: ProviderId): ProviderCredentials => {
+  return credentialsInMemory[id] ?? {};
+};
+
+export const clearProviderCredentials = (id: ProviderId): void => {
+  delete credentialsInMemory[id];
+};
+
+// Check whether a provider has everything it needs to make requests
+export const isProviderConfigured = (id: ProviderId): boolean => {
+  const provider = PROVIDERS[id];
+  const credentials = getProviderCredentials(id);
+
+  if (provider.requiresApiKey && !credentials.apiKey) return false;
+  if (provider.requiresBaseUrl && !credentials.baseUrl) return false;
+  return true;
+};
@@ -0,0 +1,117 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from './types';
+import { createAbortError } from './http';
+import { composeWithRules } from '../ruleComposer';
+import { formatAbc } from '@/lib/abcNotation';
+import { createRandom, hashString } from '@/lib/random';
+
+// Deterministic offline provider. It needs no network or key and always
+// answers the same prompt with the same piece, written by the rule-based
+// composer, which makes it useful for demos and for exercising the app end
+// to end.
+
+/**
+ * Compose a short two-hand piece from the prompt text with the rule-based
+ * composer, as an answer in the composition format
+ */
+const composeFromPrompt = (prompt: string) => {
+  const { notes, tempo } = composeWithRules(prompt);
+  return {
+    tempo,
+    events: notes.map(({ pitch, voice, start, duration, velocity }) => ({
+      hand: voice,
+      pitches: [pitch],
+      start,
+      duration,
+      velocity,
+    })),
+  };
+};
+
+/**
+ * Outline an AABA form for a long-form request
+ */
+const planFromPrompt = (prompt: string) => {
+  const random = createRandom(hashString(prompt));
+  const isMinor = /sad|melanchol|minor|dark|lonely|rain/.test(prompt.toLowerCase());
+  const key = isMinor ? 'A minor' : 'C major';
+  const bridgeKey = isMinor ? 'C major' : 'G major';
+  const tempo = 72 + Math.floor(random() * 40);
+
+  return {
+    title: 'Demo piece',
+    form: 'AABA',
+    sections: [
+      { name: 'A', description: 'Main theme', key, tempo, bars: 8 },
+      { name: 'A', description: 'Main theme, varied', key, tempo, bars: 8 },
+      { name: 'B', description: 'Contrasting bridge', key: bridgeKey, tempo: tempo + 12, bars: 8 },
+      { name: 'A', description: 'Return of the main theme', key, tempo, bars: 8 },
+    ],
+  };
+};
+
+/**
+ * The same piece written as an ABC tune, for requests without a JSON schema
+ */
+const composeAbcFromPrompt = (prompt: string): string => {
+  const { tempo, events } = composeFromPrompt(prompt);
+  const notes = events.flatMap(({ hand, pitches, ...timing }) =>
+    pitches.map((pitch) => ({ ...timing, pitch, voice: hand })),
+  );
+  return formatAbc({ notes, tempo }, 'Demo piece');
+};
+
+// Rough token count of a text, for simulated usage figures
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Size and pacing of simulated stream fragments
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+  if (request.signal?.aborted) throw createAbortError();
+  request.onStatus?.({ state: 'waiting' });
+
+  const userMessages = request.messages.filter((message) => message.role === 'user');
+  const prompt = userMessages[userMessages.length - 1]?.content ?? '';
+  let content: string;
+  if (!request.responseSchema) {
+    content = composeAbcFromPrompt(prompt);
+  } else {
+    content = JSON.stringify(
+      request.responseSchema.name === 'form_plan'
+        ? planFromPrompt(prompt)
+        : composeFromPrompt(prompt),
+    );
+  }
+
+  if (request.onToken) {
+    // Simulate a streamed answer arriving in small fragments
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      if (request.signal?.aborted) throw createAbortError();
+      request.onToken(content.slice(i, i + STREAM_CHUNK_SIZE));
+    }
+  }
+
+  return {
+    content,
+    usage: {
+      promptTokens: estimateTokens(request.messages.map((message) => message.content).join('')),
+      completionTokens: estimateTokens(content),
+    },
+  };
+};
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  name: 'Offline demo (no API)',
+  defaultModel: 'mock-composer',
+  suggestedModels: ['mock-composer'],
+  requiresApiKey: false,
+  requiresBaseUrl: false,
+  complete,
+};
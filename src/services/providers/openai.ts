@@ -0,0 +1,130 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  ProviderCredentials,
+  TokenUsage,
+} from './types';
+import { fetchWithRetry } from './http';
+import { ContentFilteredError, createResponseError } from '../generationErrors';
+import { readServerSentEvents } from './sse';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Usage block of an OpenAI-style response or final stream chunk
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// Token counts from an OpenAI-style usage block
+const toTokenUsage = (usage?: OpenAIUsage | null): TokenUsage | undefined =>
+  usage
+    ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+
+/**
+ * Chat completions endpoint of an OpenAI-style API
+ * @param baseUrl API base URL, such as https://api.openai.com/v1
+ */
+export const getChatCompletionsUrl = (baseUrl: string): string =>
+  `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+/**
+ * Send a request to an OpenAI-style chat completions endpoint
+ * @param url Endpoint URL, see getChatCompletionsUrl
+ * @param request The completion request
+ * @param apiKey Optional bearer token
+ * @param strictSchema Whether the server enforces the response schema strictly
+ * @param providerName Provider name for error messages
+ */
+export const requestChatCompletion = async (
+  url: string,
+  request: CompletionRequest,
+  apiKey?: string,
+  strictSchema: boolean = true,
+  providerName: string = 'OpenAI'
+): Promise<CompletionResult> => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetchWithRetry(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: request.onToken ? true : undefined,
+      // Ask for token counts in the last streamed chunk; not every
+      // compatible server accepts this option
+      stream_options: request.onToken && strictSchema ? { include_usage: true } : undefined,
+      response_format: request.responseSchema
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseSchema.name,
+              schema: request.responseSchema.schema,
+              strict: strictSchema,
+            },
+          }
+        : undefined,
+    }),
+  }, request, providerName);
+
+  if (!response.ok) {
+    throw await createResponseError(providerName, response, request.model);
+  }
+
+  if (request.onToken) {
+    let content = '';
+    let usage: TokenUsage | undefined;
+    let filtered = false;
+    await readServerSentEvents(response, (data) => {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      usage = toTokenUsage(chunk.usage) ?? usage;
+      const choice = chunk.choices?.[0];
+      filtered ||= choice?.finish_reason === 'content_filter' || Boolean(choice?.delta?.refusal);
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        request.onToken?.(delta);
+      }
+    });
+    if (filtered && !content) {
+      throw new ContentFilteredError(providerName);
+    }
+    return { content, usage };
+  }
+
+  const data = await response.json();
+  const choice = data.choices?.[0];
+  // Refusals and filtered answers come back with no content
+  if (!choice?.message?.content && (choice?.finish_reason === 'content_filter' || choice?.message?.refusal)) {
+    throw new ContentFilteredError(providerName, choice?.message?.refusal);
+  }
+  return {
+    content: choice?.message?.content ?? '',
+    usage: toTokenUsage(data.usage),
+  };
+};
+
+export const openAIProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  defaultModel: 'gpt-4o',
+  suggestedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  requiresApiKey: true,
+  requiresBaseUrl: false,
+  keyPrefix: 'sk-',
+  keyPlaceholder: 'sk-...',
+  complete: (request: CompletionRequest, credentials: ProviderCredentials) =>
+    requestChatCompletion(getChatCompletionsUrl(OPENAI_BASE_URL), request, credentials.apiKey),
+};
@@ -0,0 +1,33 @@
+import { getChatCompletionsUrl, requestChatCompletion } from './openai';
+import { CompletionRequest, LLMProvider, ProviderCredentials } from './types';
+import { InvalidApiKeyError } from '../generationErrors';
+
+const PROVIDER_NAME = 'OpenAI-compatible (local)';
+
+// Any server that speaks the OpenAI chat completions API: Ollama
+// (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1),
+// llama.cpp server (http://localhost:8080/v1), and similar.
+export const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  name: PROVIDER_NAME,
+  defaultModel: 'llama3.1',
+  suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+  requiresApiKey: false,
+  requiresBaseUrl: true,
+  baseUrlPlaceholder: 'http://localhost:11434/v1',
+  baseUrlHelp: 'Any OpenAI-compatible server, such as Ollama, LM Studio or llama.cpp server.',
+  keyPlaceholder: 'Optional',
+  complete: (request: CompletionRequest, credentials: ProviderCredentials) => {
+    if (!credentials.baseUrl) {
+      throw new InvalidApiKeyError(PROVIDER_NAME);
+    }
+    // Local servers support json_schema output but not always strict mode
+    return requestChatCompletion(
+      getChatCompletionsUrl(credentials.baseUrl),
+      request,
+      credentials.apiKey,
+      false,
+      PROVIDER_NAME,
+    );
+  },
+};
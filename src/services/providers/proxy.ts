@@ -0,0 +1,38 @@
+import { requestChatCompletion } from './openai';
+import { CompletionRequest, LLMProvider, ProviderCredentials } from './types';
+
+const PROVIDER_NAME = 'Team proxy server';
+
+// Model name that lets the proxy pick its configured default
+export const PROXY_DEFAULT_MODEL = 'default';
+
+/**
+ * Endpoint of the bundled proxy server (see server/index.js). Without a
+ * base URL the proxy is assumed to serve the app itself, on the same origin.
+ * @param baseUrl Proxy address, such as http://localhost:8787
+ */
+export const getProxyGenerateUrl = (baseUrl?: string): string =>
+  `${(baseUrl ?? '').replace(/\/+$/, '')}/api/generate`;
+
+// The proxy speaks the OpenAI chat completions format and holds the real
+// provider keys; the browser only sends an optional per-user access token.
+export const proxyProvider: LLMProvider = {
+  id: 'proxy',
+  name: PROVIDER_NAME,
+  defaultModel: PROXY_DEFAULT_MODEL,
+  suggestedModels: [PROXY_DEFAULT_MODEL],
+  requiresApiKey: false,
+  requiresBaseUrl: false,
+  baseUrlPlaceholder: 'http://localhost:8787',
+  baseUrlHelp: 'Address of the proxy server. Leave empty when the proxy also serves this app.',
+  keyLabel: 'Access token',
+  keyPlaceholder: 'Optional, if the proxy requires one',
+  complete: (request: CompletionRequest, credentials: ProviderCredentials) =>
+    requestChatCompletion(
+      getProxyGenerateUrl(credentials.baseUrl),
+      request,
+      credentials.apiKey,
+      true,
+      PROVIDER_NAME,
+    ),
+};
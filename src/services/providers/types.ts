@@ -0,0 +1,93 @@
+// Shared types for the LLM provider layer
+
+export type ProviderId =
+  | 'openai'
+  | 'anthropic'
+  | 'gemini'
+  | 'openai-compatible'
+  | 'proxy'
+  | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON schema the answer must follow, for providers that support
+// structured output or tool calling
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// Why a request is being retried
+export type RetryReason = 'rate-limited' | 'server-error' | 'network' | 'timeout';
+
+// Progress of a request, for display while the user waits
+export type RequestStatus =
+  | { state: 'waiting' } // Sent; waiting for the provider to answer
+  | { state: 'streaming' } // The answer is arriving
+  | {
+      state: 'retrying';
+      reason: RetryReason;
+      retry: number; // 1 for the first retry
+      maxRetries: number;
+      delayMs: number; // Time until the retry is sent
+    };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  responseSchema?: ResponseSchema;
+  // When set, the answer is streamed and each text fragment is passed here
+  // as it arrives. The full answer is still returned at the end.
+  onToken?: (delta: string) => void;
+  // Aborts the request, including any pending retry
+  signal?: AbortSignal;
+  // Longest wait for the provider to start answering, per attempt
+  timeoutMs?: number;
+  // Retries after rate limiting, server errors, network errors or timeouts
+  maxRetries?: number;
+  onStatus?: (status: RequestStatus) => void;
+}
+
+// Tokens billed for one request, when the provider reports them
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage?: TokenUsage;
+}
+
+// Per-provider connection settings entered in the API key modal
+export interface ProviderCredentials {
+  apiKey?: string;
+  baseUrl?: string; // Only used by OpenAI-compatible servers and the proxy
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  name: string;
+  defaultModel: string;
+  // Offered in the model picker; any other model name may be typed in
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  // Shown for providers with an optional base URL too
+  baseUrlPlaceholder?: string;
+  baseUrlHelp?: string;
+  // Label of the key field, "API Key" unless set
+  keyLabel?: string;
+  // Expected key prefix, used for a quick format check before saving
+  keyPrefix?: string;
+  keyPlaceholder?: string;
+  complete: (
+    request: CompletionRequest,
+    credentials: ProviderCredentials
+  ) => Promise<CompletionResult>;
+}
@@ -0,0 +1,125 @@
+// Recipes: everything needed to reproduce or audit a composition. A recipe
+// records the exact request (provider, model, system prompt version,
+// messages and parameters), every raw answer the model gave, and the
+// post-processing applied to turn the last answer into the score.
+import type { FormPlan } from './formPlanner';
+import type { GenerationReport, ResponseFormat } from './openai';
+import { CompositionConstraints } from './generationConstraints';
+import { ChatMessage, ProviderId } from './providers';
+import type { PerformanceOptions } from '@/lib/performance';
+
+export const RECIPE_FORMAT = 'ai-piano-performer-recipe';
+export const RECIPE_VERSION = 1;
+
+export interface RecipeParameters {
+  temperature: number;
+  maxTokens: number;
+  maxRepairAttempts: number;
+  constraints?: CompositionConstraints;
+  responseFormat?: ResponseFormat;
+}
+
+// One model request and what became of its answer
+export interface CompositionRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: typeof RECIPE_VERSION;
+  kind: 'composition';
+  createdAt: string;
+  providerId: ProviderId;
+  model: string;
+  // Hash of the system prompt, so a changed prompt shows up in the recipe;
+  // absent when the page cannot hash (plain http)
+  systemPromptVersion?: string;
+  // Cache key of the request (see generationCache); absent when the
+  // cache was bypassed or unavailable
+  cacheKey?: string;
+  // The request as first sent, system prompt included
+  messages: ChatMessage[];
+  parameters: RecipeParameters;
+  // Every answer in order: the first, then one per repair attempt
+  rawOutputs: string[];
+  postProcessing: string[];
+  result: { notes: number; tempo: number };
+  // Humanize amount and seed the piece was played with when exported
+  performance?: PerformanceOptions;
+}
+
+// A long-form piece: its plan and the recipe of each section
+export interface LongFormRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: typeof RECIPE_VERSION;
+  kind: 'long-form';
+  createdAt: string;
+  prompt: string;
+  plan: FormPlan;
+  sections: Array<CompositionRecipe | null>;
+  postProcessing: string[];
+  // Humanize amount and seed the piece was played with when exported
+  performance?: PerformanceOptions;
+}
+
+export type Recipe = CompositionRecipe | LongFormRecipe;
+
+/**
+ * Describe, step by step, how the model's answers became the final score
+ * @param report Validation and repair report of the generation
+ */
+export const describePostProcessing = (report: GenerationReport): string[] => {
+  const steps: string[] = [];
+  for (const repair of report.repairs) {
+    steps.push(`Answer ${repair.attempt} sent back for repair: ${repair.errors.join('; ')}`);
+  }
+  steps.push(
+    report.salvaged
+      ? `Answer ${report.attempts} still failed validation; usable events were salvaged`
+      : `Answer ${report.attempts} validated against the composition schema`,
+  );
+  for (const issue of report.fixed) {
+    steps.push(`Fixed ${issue.path}: ${issue.message}`);
+  }
+  for (const issue of report.dropped) {
+    steps.push(`Dropped ${issue.path}: ${issue.message}`);
+  }
+  return steps;
+};
+
+/**
+ * Combine the recipes of a long-form piece's sections
+ * @param prompt The user's description of the piece
+ * @param plan The form outline
+ * @param sections Recipe of each section, or null if it was not written
+ */
+export const buildLongFormRecipe = (
+  prompt: string,
+  plan: FormPlan,
+  sections: Array<CompositionRecipe | null>
+): LongFormRecipe => ({
+  format: RECIPE_FORMAT,
+  version: RECIPE_VERSION,
+  kind: 'long-form',
+  createdAt: new Date().toISOString(),
+  prompt,
+  plan,
+  sections,
+  postProcessing: [
+    'Sections placed at their planned starting beats; notes running past the end of a section were cut',
+    'Section markers, keys and tempos written from the plan',
+  ],
+});
+
+/**
+ * Save a recipe as a JSON file
+ * @param recipe The recipe to save
+ * @param fileName File name without extension
+ */
+export const downloadRecipe = (recipe: Recipe, fileName: string = 'ai-piano-performer-recipe'): void => {
+  const blob = new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
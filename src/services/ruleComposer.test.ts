@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { hashString } from "@/lib/random";
+import { noteToMidiNumber } from "@/lib/pitch";
+import { composeWithRules, readPromptOptions, resolveRuleOptions } from "./ruleComposer";
+
+const PROMPT = "A calm lullaby for a rainy evening";
+
+describe("composeWithRules", () => {
+  it("writes the same piece for the same prompt and seed", () => {
+    expect(composeWithRules(PROMPT, { seed: 42 })).toEqual(composeWithRules(PROMPT, { seed: 42 }));
+  });
+
+  it("seeds from the prompt when no seed is given", () => {
+    expect(composeWithRules(PROMPT)).toEqual(composeWithRules(PROMPT, { seed: hashString(PROMPT) }));
+    expect(composeWithRules(PROMPT)).not.toEqual(composeWithRules("A calm lullaby for a snowy night"));
+  });
+
+  it("writes a different piece for another seed", () => {
+    const first = composeWithRules(PROMPT, { seed: 1 });
+    const second = composeWithRules(PROMPT, { seed: 2 });
+    expect(second.notes.map((note) => note.pitch)).not.toEqual(first.notes.map((note) => note.pitch));
+  });
+
+  it("keeps the choices it is given and fills whole phrases with both hands", () => {
+    const piece = composeWithRules(PROMPT, { seed: 7, tonic: "D", mode: "major", tempo: 84, bars: 6, timeSignature: [3, 4] });
+    expect(piece.tempo).toBe(84);
+    expect(piece.timeSignature).toEqual([3, 4]);
+    expect(new Set(piece.notes.map((note) => note.voice))).toEqual(new Set(["right", "left"]));
+    // Six bars are rounded up to two four-bar phrases
+    expect(Math.max(...piece.notes.map((note) => note.start + note.duration))).toBeLessThanOrEqual(8 * 3);
+    // Every note is in D major
+    const pitchClasses = new Set(piece.notes.map((note) => (noteToMidiNumber(note.pitch) ?? -1) % 12));
+    pitchClasses.forEach((pitchClass) => expect([2, 4, 6, 7, 9, 11, 1]).toContain(pitchClass));
+  });
+});
+
+describe("resolveRuleOptions", () => {
+  it("takes options first, then the prompt", () => {
+    expect(readPromptOptions("A waltz in F# minor at 90 bpm")).toMatchObject({ tonic: "F#", mode: "minor", tempo: 90 });
+    expect(resolveRuleOptions("A waltz in F# minor at 90 bpm", { tempo: 120 })).toMatchObject({
+      tonic: "F#",
+      mode: "minor",
+      tempo: 120,
+    });
+  });
+});
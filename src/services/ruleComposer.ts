@@ -0,0 +1,519 @@
+// Rule-based composer that needs no model, key or network. Harmony comes
+// from a small phrase grammar over tonic, predominant and dominant chords,
+// the melody from a Markov chain over scale steps pinned to chord tones on
+// strong beats, and every phrase closes on a half or authentic cadence.
+// The same prompt, options and seed always give the same piece.
+import { Note, NoteSequence, TimeSignature } from './openai';
+import { MAX_TEMPO, MIN_TEMPO } from './compositionSchema';
+import {
+  KEY_TONIC_NAMES,
+  MAJOR_SCALE_STEPS,
+  MINOR_SCALE_STEPS,
+  getBeatsPerBar,
+  sortNotes,
+} from '@/lib/musicUtils';
+import { getKeySpelling, midiNumberToNote, noteToMidiNumber } from '@/lib/pitch';
+import { Random, createRandom, hashString, pickWeighted } from '@/lib/random';
+
+export type Mood = 'happy' | 'calm' | 'sad' | 'energetic' | 'mysterious' | 'romantic';
+
+type AccompanimentPattern = 'block' | 'alberti' | 'arpeggio' | 'oom-pah';
+
+interface MoodProfile {
+  label: string;
+  // Words in a prompt that suggest the mood
+  keywords: RegExp;
+  mode: 'major' | 'minor';
+  tempo: [number, number];
+  // Chance that a melody beat is divided into shorter notes
+  motion: number;
+  velocity: number;
+  accompaniment: AccompanimentPattern;
+}
+
+export const MOODS: Record<Mood, MoodProfile> = {
+  happy: {
+    label: 'Happy',
+    keywords: /happy|cheer|joy|bright|sunny|playful|fun/,
+    mode: 'major',
+    tempo: [104, 132],
+    motion: 0.4,
+    velocity: 0.75,
+    accompaniment: 'alberti',
+  },
+  calm: {
+    label: 'Calm',
+    keywords: /calm|peace|gentle|relax|seren|quiet|lullaby|soft|dream/,
+    mode: 'major',
+    tempo: [60, 80],
+    motion: 0.15,
+    velocity: 0.55,
+    accompaniment: 'block',
+  },
+  sad: {
+    label: 'Sad',
+    keywords: /sad|melanchol|sorrow|grief|lonely|rain|tear|mourn/,
+    mode: 'minor',
+    tempo: [56, 76],
+    motion: 0.15,
+    velocity: 0.55,
+    accompaniment: 'arpeggio',
+  },
+  energetic: {
+    label: 'Energetic',
+    keywords: /energ|fast|upbeat|lively|dance|excit|march|triumph/,
+    mode: 'major',
+    tempo: [132, 160],
+    motion: 0.55,
+    velocity: 0.85,
+    accompaniment: 'oom-pah',
+  },
+  mysterious: {
+    label: 'Mysterious',
+    keywords: /myster|dark|spooky|eerie|haunt|suspense|shadow/,
+    mode: 'minor',
+    tempo: [72, 96],
+    motion: 0.3,
+    velocity: 0.6,
+    accompaniment: 'arpeggio',
+  },
+  romantic: {
+    label: 'Romantic',
+    keywords: /roman|love|tender|warm|nostalg|wistful|longing/,
+    mode: 'major',
+    tempo: [66, 88],
+    motion: 0.3,
+    velocity: 0.65,
+    accompaniment: 'arpeggio',
+  },
+};
+
+export interface RuleComposerOptions {
+  // Defaults to a hash of the prompt, so a prompt always gives one piece
+  seed?: number;
+  tonic?: string; // One of KEY_TONIC_NAMES
+  mode?: 'major' | 'minor';
+  mood?: Mood;
+  tempo?: number;
+  // Rounded up to whole four-bar phrases
+  bars?: number;
+  timeSignature?: TimeSignature;
+}
+
+const PHRASE_BARS = 4;
+const DEFAULT_BARS = 8;
+const MAX_BARS = 64;
+
+// Keys picked when neither the prompt nor the options name one
+const COMMON_TONICS: Record<'major' | 'minor', string[]> = {
+  major: ['C', 'G', 'F', 'D', 'Bb', 'Eb', 'A'],
+  minor: ['A', 'D', 'E', 'G', 'C', 'B'],
+};
+
+/**
+ * Read the key, mood, tempo, length and meter a prompt asks for, where it
+ * names them. Anything not mentioned is left out.
+ * @param prompt The user's prompt
+ */
+export const readPromptOptions = (prompt: string): RuleComposerOptions => {
+  const options: RuleComposerOptions = {};
+  const lowerPrompt = prompt.toLowerCase();
+
+  const key = prompt.match(/\b([A-G])(#|♯|b|♭|[ -]sharp|[ -]flat)?[ -]?(major|minor)\b/i);
+  // A lone lowercase "a" is an article ("a minor key"), not a tonic
+  if (key && !(key[1] === 'a' && !key[2])) {
+    const accidental = key[2] ? (/#|♯|sharp/i.test(key[2]) ? '#' : 'b') : '';
+    const midiNumber = noteToMidiNumber(`${key[1].toUpperCase()}${accidental}4`);
+    if (midiNumber !== null) options.tonic = KEY_TONIC_NAMES[midiNumber % 12];
+    options.mode = key[3].toLowerCase() as 'major' | 'minor';
+  } else if (/\bminor\b/.test(lowerPrompt)) {
+    options.mode = 'minor';
+  } else if (/\bmajor\b/.test(lowerPrompt)) {
+    options.mode = 'major';
+  }
+
+  options.mood = (Object.keys(MOODS) as Mood[]).find((mood) => MOODS[mood].keywords.test(lowerPrompt));
+
+  const tempo = lowerPrompt.match(/(\d{2,3})\s*bpm/);
+  if (tempo) options.tempo = Number(tempo[1]);
+
+  const bars = lowerPrompt.match(/(\d{1,2})[ -]bars?\b/);
+  if (bars) options.bars = Number(bars[1]);
+
+  const meter = lowerPrompt.match(/\b([2-9]|12)\/(2|4|8)\b/);
+  if (meter) {
+    options.timeSignature = [Number(meter[1]), Number(meter[2])];
+  } else if (/waltz|minuet/.test(lowerPrompt)) {
+    options.timeSignature = [3, 4];
+  } else if (/\bjig\b|barcarolle|siciliano/.test(lowerPrompt)) {
+    options.timeSignature = [6, 8];
+  }
+
+  return options;
+};
+
+// Harmonic functions: tonic, predominant and dominant
+type HarmonicFunction = 'T' | 'PD' | 'D';
+type Cadence = 'half' | 'authentic';
+
+// Chords (0-based scale degrees of their roots) that can fill each function
+const FUNCTION_CHORDS: Record<HarmonicFunction, Array<[number, number]>> = {
+  T: [[0, 4], [5, 2], [2, 1]],
+  PD: [[3, 3], [1, 2]],
+  D: [[4, 4], [6, 1]],
+};
+
+// Phrase grammar: the functions of a four-bar phrase, by how it ends. A
+// half cadence stops on the dominant; an authentic one resolves to the tonic.
+const PHRASE_RULES: Record<Cadence, Array<[HarmonicFunction[], number]>> = {
+  half: [
+    [['T', 'PD', 'T', 'D'], 3],
+    [['T', 'T', 'PD', 'D'], 3],
+    [['T', 'D', 'T', 'D'], 2],
+    [['T', 'PD', 'PD', 'D'], 1],
+  ],
+  authentic: [
+    [['T', 'PD', 'D', 'T'], 4],
+    [['T', 'T', 'D', 'T'], 2],
+  ],
+};
+
+interface PhrasePlan {
+  chords: number[]; // Root scale degree of each bar
+  cadence: Cadence;
+  // Index of an earlier phrase whose opening this phrase repeats
+  echoes?: number;
+}
+
+// Phrases pair into periods (a half cadence answered by an authentic one),
+// and the piece always ends on an authentic cadence
+const planPhrases = (random: Random, phraseCount: number): PhrasePlan[] => {
+  const phrases: PhrasePlan[] = [];
+  for (let i = 0; i < phraseCount; i++) {
+    const isLast = i === phraseCount - 1;
+    const cadence: Cadence = isLast || i % 2 === 1 ? 'authentic' : 'half';
+    const functions = pickWeighted(random, PHRASE_RULES[cadence]);
+    const chords = functions.map((fn) => pickWeighted(random, FUNCTION_CHORDS[fn]));
+
+    // Cadence rules: phrases open on the tonic chord, and an authentic
+    // cadence is V to I
+    chords[0] = 0;
+    if (cadence === 'authentic') {
+      chords[PHRASE_BARS - 2] = 4;
+      chords[PHRASE_BARS - 1] = 0;
+    }
+
+    // The answering phrase of a period starts like the question
+    const echoes = cadence === 'authentic' && i % 2 === 1 ? i - 1 : undefined;
+    if (echoes !== undefined) chords[1] = phrases[echoes].chords[1];
+
+    phrases.push({ chords, cadence, echoes });
+  }
+  return phrases;
+};
+
+// Melody motion after each kind of interval, in scale steps. Steps tend to
+// continue in their direction; leaps are followed by a step back.
+type Motion = 'repeat' | 'step-up' | 'step-down' | 'leap-up' | 'leap-down';
+
+const MOTION_AFTER_UPWARD: Record<'repeat' | 'step' | 'leap', Array<[number, number]>> = {
+  repeat: [[1, 4], [-1, 4], [0, 1], [2, 2], [-2, 2], [3, 1], [-3, 1], [4, 0.5], [-4, 0.5]],
+  step: [[1, 5], [-1, 3], [0, 1], [2, 2], [-2, 1], [3, 1], [-3, 0.5]],
+  leap: [[-1, 6], [-2, 2], [1, 1], [0, 1]],
+};
+
+const mirror = (options: Array<[number, number]>): Array<[number, number]> =>
+  options.map(([interval, weight]) => [-interval, weight]);
+
+const MELODIC_TRANSITIONS: Record<Motion, Array<[number, number]>> = {
+  repeat: MOTION_AFTER_UPWARD.repeat,
+  'step-up': MOTION_AFTER_UPWARD.step,
+  'step-down': mirror(MOTION_AFTER_UPWARD.step),
+  'leap-up': MOTION_AFTER_UPWARD.leap,
+  'leap-down': mirror(MOTION_AFTER_UPWARD.leap),
+};
+
+const classifyMotion = (interval: number): Motion => {
+  if (interval === 0) return 'repeat';
+  if (Math.abs(interval) === 1) return interval > 0 ? 'step-up' : 'step-down';
+  return interval > 0 ? 'leap-up' : 'leap-down';
+};
+
+// Melody range in scale degrees around its tonic
+const MELODY_TONIC_FLOOR = 64; // E4
+const LOWEST_DEGREE = -5;
+const HIGHEST_DEGREE = 7;
+
+// Lowest root of the left hand (C2)
+const BASS_FLOOR = 36;
+
+const isChordTone = (degree: number, root: number): boolean =>
+  [0, 2, 4].includes((((degree - root) % 7) + 7) % 7);
+
+// Nearest chord tone to a degree, preferring the one below on a tie
+const nearestChordTone = (degree: number, root: number): number => {
+  for (let distance = 0; distance < 4; distance++) {
+    if (isChordTone(degree - distance, root)) return degree - distance;
+    if (isChordTone(degree + distance, root)) return degree + distance;
+  }
+  return degree;
+};
+
+// Closest of some degrees to another
+const closest = (degree: number, targets: number[]): number =>
+  targets.reduce((best, target) => (Math.abs(target - degree) < Math.abs(best - degree) ? target : best));
+
+interface Meter {
+  beatsPerBar: number;
+  // Length of one pulse: a beat, or a dotted beat in compound meters
+  pulse: number;
+}
+
+const getMeter = (timeSignature: TimeSignature): Meter => {
+  const [numerator, denominator] = timeSignature;
+  const beatsPerBar = getBeatsPerBar(timeSignature);
+  if (denominator === 8) {
+    return { beatsPerBar, pulse: numerator % 3 === 0 ? 1.5 : 0.5 };
+  }
+  return { beatsPerBar, pulse: 4 / denominator };
+};
+
+// Note lengths filling a bar, one pulse (or two) at a time
+const chooseRhythm = (random: Random, meter: Meter, motion: number): number[] => {
+  const { beatsPerBar, pulse } = meter;
+  const compound = pulse === 1.5;
+  const rhythm: number[] = [];
+  let position = 0;
+
+  while (position < beatsPerBar - 1e-9) {
+    const remaining = beatsPerBar - position;
+    const onStrongPulse = Math.round(position / pulse) % 2 === 0;
+    const cell = pickWeighted<number[]>(random, [
+      [[pulse], 1 - motion],
+      [compound ? [1, 0.5] : [pulse / 2, pulse / 2], motion],
+      [compound ? [0.5, 0.5, 0.5] : [pulse * 0.75, pulse * 0.25], pulse >= 1 ? motion * 0.4 : 0],
+      [[pulse * 2], onStrongPulse && remaining >= pulse * 2 ? (1 - motion) * 0.5 : 0],
+    ]);
+    rhythm.push(...cell);
+    position += cell.reduce((sum, length) => sum + length, 0);
+  }
+  return rhythm;
+};
+
+// Settle every choice: explicit options first, then the prompt, then the
+// seed. The seeded draws are made either way, so fixing one choice doesn't
+// change the rest of the piece.
+const resolveChoices = (
+  prompt: string,
+  options: RuleComposerOptions,
+  random: Random,
+): Required<Omit<RuleComposerOptions, 'seed'>> => {
+  const fromPrompt = readPromptOptions(prompt);
+  const [moodDraw, tonicDraw, tempoDraw] = [random(), random(), random()];
+
+  const requestedMode = options.mode ?? fromPrompt.mode;
+  const moods = (Object.keys(MOODS) as Mood[]).filter(
+    (candidate) => !requestedMode || MOODS[candidate].mode === requestedMode,
+  );
+  const mood = options.mood ?? fromPrompt.mood ?? moods[Math.floor(moodDraw * moods.length)];
+  const profile = MOODS[mood];
+  const mode = requestedMode ?? profile.mode;
+  const tonics = COMMON_TONICS[mode];
+  const tonic = options.tonic ?? fromPrompt.tonic ?? tonics[Math.floor(tonicDraw * tonics.length)];
+  const [minTempo, maxTempo] = profile.tempo;
+  const tempo = options.tempo ?? fromPrompt.tempo ?? minTempo + tempoDraw * (maxTempo - minTempo);
+  const timeSignature = options.timeSignature ?? fromPrompt.timeSignature ?? [4, 4];
+  const bars = Math.min(MAX_BARS, Math.max(PHRASE_BARS, options.bars ?? fromPrompt.bars ?? DEFAULT_BARS));
+
+  return {
+    tonic,
+    mode,
+    mood,
+    tempo: Math.round(Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, tempo))),
+    bars: Math.ceil(bars / PHRASE_BARS) * PHRASE_BARS,
+    timeSignature,
+  };
+};
+
+/**
+ * The key, mood, tempo, length and meter a piece will be composed with
+ * @param prompt The user's prompt
+ * @param options Explicit choices, and the seed
+ */
+export const resolveRuleOptions = (
+  prompt: string,
+  options: RuleComposerOptions = {},
+): Required<Omit<RuleComposerOptions, 'seed'>> =>
+  resolveChoices(prompt, options, createRandom(options.seed ?? hashString(prompt)));
+
+/**
+ * Compose a two-hand piece from a prompt without a model. Options given
+ * here take precedence over what the prompt says; anything neither sets is
+ * chosen from the seed.
+ * @param prompt The user's prompt, read for key, mood, tempo, length and meter
+ * @param options Explicit choices, and the seed
+ * @returns The piece, in the same format as a generated one
+ */
+export const composeWithRules = (prompt: string, options: RuleComposerOptions = {}): NoteSequence => {
+  const random = createRandom(options.seed ?? hashString(prompt));
+  const { tonic, mode, mood, tempo, bars, timeSignature } = resolveChoices(prompt, options, random);
+  const profile = MOODS[mood];
+  const phraseCount = bars / PHRASE_BARS;
+
+  const meter = getMeter(timeSignature);
+  const scale = mode === 'major' ? MAJOR_SCALE_STEPS : MINOR_SCALE_STEPS;
+  const spelling = getKeySpelling(tonic, mode);
+  // Tonic between E4 and D#5, so the melody sits above the accompaniment
+  const tonicMidi = MELODY_TONIC_FLOOR + (((noteToMidiNumber(`${tonic}4`) ?? 60) - MELODY_TONIC_FLOOR) % 12 + 12) % 12;
+
+  // MIDI number of a scale degree (0 is the tonic). Over dominant chords in
+  // minor the seventh degree is raised to a leading tone.
+  const degreeToMidi = (degree: number, chordRoot: number): number => {
+    const step = ((degree % 7) + 7) % 7;
+    const raised = mode === 'minor' && step === 6 && (chordRoot === 4 || chordRoot === 6) ? 1 : 0;
+    return tonicMidi + scale[step] + raised + 12 * Math.floor(degree / 7);
+  };
+
+  const notes: Note[] = [];
+  const phrases = planPhrases(random, phraseCount);
+  // Melody of each phrase's opening two bars, for the phrases that echo it
+  const openings: Array<Array<{ degree: number; start: number; duration: number }>> = [];
+  let degree = pickWeighted(random, [[0, 2], [2, 2], [4, 1]]);
+  let lastInterval = 0;
+
+  phrases.forEach((phrase, phraseIndex) => {
+    const phraseStart = phraseIndex * PHRASE_BARS * meter.beatsPerBar;
+    const opening: Array<{ degree: number; start: number; duration: number }> = [];
+    const isLastPhrase = phraseIndex === phrases.length - 1;
+
+    phrase.chords.forEach((root, barIndex) => {
+      const barStart = phraseStart + barIndex * meter.beatsPerBar;
+      const isCadenceBar = barIndex === PHRASE_BARS - 1;
+      const isPenultimate = barIndex === PHRASE_BARS - 2;
+      // Phrases swell toward their middle and relax into the cadence
+      const shape = [0.9, 1, 1.05, 0.95][barIndex];
+      const velocity = Math.min(1, profile.velocity * shape);
+
+      // Melody
+      const echoed = phrase.echoes !== undefined && barIndex < 2 ? openings[phrase.echoes] : null;
+      if (echoed) {
+        echoed
+          .filter((note) => note.start >= barIndex * meter.beatsPerBar && note.start < (barIndex + 1) * meter.beatsPerBar)
+          .forEach((note) => {
+            notes.push({
+              pitch: midiNumberToNote(degreeToMidi(note.degree, root), spelling),
+              start: phraseStart + note.start,
+              duration: note.duration,
+              velocity: Math.round(velocity * 100) / 100,
+              voice: 'right',
+            });
+            lastInterval = note.degree - degree;
+            degree = note.degree;
+          });
+      } else if (isCadenceBar) {
+        // Cadence rules: the melody comes to rest on the tonic over I, or on
+        // a note of the dominant chord at a half cadence
+        const target = phrase.cadence === 'authentic'
+          ? closest(degree, [0, 7])
+          : closest(degree, [-1, 1, 4, 6]);
+        const length = isLastPhrase || phrase.cadence === 'authentic'
+          ? meter.beatsPerBar
+          : meter.beatsPerBar - meter.pulse;
+        notes.push({
+          pitch: midiNumberToNote(degreeToMidi(target, root), spelling),
+          start: barStart,
+          duration: length,
+          velocity: Math.round(velocity * 0.9 * 100) / 100,
+          voice: 'right',
+        });
+        lastInterval = target - degree;
+        degree = target;
+      } else {
+        const rhythm = chooseRhythm(random, meter, profile.motion);
+        let position = 0;
+        rhythm.forEach((duration, noteIndex) => {
+          const isLastNote = noteIndex === rhythm.length - 1;
+          let next = degree + pickWeighted(random, MELODIC_TRANSITIONS[classifyMotion(lastInterval)]);
+          if (next < LOWEST_DEGREE || next > HIGHEST_DEGREE) next = degree - (next - degree);
+          next = Math.min(HIGHEST_DEGREE, Math.max(LOWEST_DEGREE, next));
+
+          // Strong beats carry chord tones
+          const onStrongBeat = position === 0 || (meter.beatsPerBar === 4 && position === 2);
+          if (onStrongBeat) next = nearestChordTone(next, root);
+          // Before an authentic cadence, lead into the tonic by step
+          if (isPenultimate && isLastNote && phrase.cadence === 'authentic') {
+            next = closest(next, [1, -1, 6, 8]);
+          }
+
+          notes.push({
+            pitch: midiNumberToNote(degreeToMidi(next, root), spelling),
+            start: barStart + position,
+            duration,
+            velocity: Math.round(Math.min(1, velocity * (position === 0 ? 1.05 : 0.95)) * 100) / 100,
+            voice: 'right',
+          });
+          if (barIndex < 2) opening.push({ degree: next, start: barIndex * meter.beatsPerBar + position, duration });
+          lastInterval = next - degree;
+          degree = next;
+          position += duration;
+        });
+      }
+
+      // Accompaniment
+      // Root in the octave below the bass clef's middle line, chord above it
+      const rootMidi = degreeToMidi(root, root);
+      const bass = BASS_FLOOR + ((rootMidi - BASS_FLOOR) % 12 + 12) % 12;
+      const third = degreeToMidi(root + 2, root) - rootMidi;
+      const fifth = degreeToMidi(root + 4, root) - rootMidi;
+      const accompanimentVelocity = Math.round(velocity * 0.7 * 100) / 100;
+      const pushLeft = (midiNumber: number, start: number, duration: number, accent = 1) =>
+        notes.push({
+          pitch: midiNumberToNote(midiNumber, spelling),
+          start: barStart + start,
+          duration,
+          velocity: Math.round(Math.min(1, accompanimentVelocity * accent) * 100) / 100,
+          voice: 'left',
+        });
+
+      // The final bar is a held chord whatever the pattern
+      const pattern = isLastPhrase && isCadenceBar ? 'block' : profile.accompaniment;
+      const eighths = Math.round(meter.beatsPerBar / 0.5);
+      switch (pattern) {
+        case 'block':
+          [bass, bass + 12 + third, bass + 12 + fifth].forEach((midiNumber) =>
+            pushLeft(midiNumber, 0, meter.beatsPerBar),
+          );
+          break;
+        case 'alberti': {
+          const figure = [bass + 12, bass + 12 + fifth, bass + 12 + third, bass + 12 + fifth];
+          for (let i = 0; i < eighths; i++) pushLeft(figure[i % 4], i * 0.5, 0.5, i === 0 ? 1.1 : 1);
+          break;
+        }
+        case 'arpeggio': {
+          const figure = [bass, bass + fifth, bass + 12, bass + 12 + third, bass + 12, bass + fifth];
+          for (let i = 0; i < eighths; i++) pushLeft(figure[i % 6], i * 0.5, 0.5, i === 0 ? 1.1 : 1);
+          break;
+        }
+        case 'oom-pah': {
+          const pulses = Math.round(meter.beatsPerBar / meter.pulse);
+          for (let i = 0; i < pulses; i++) {
+            const start = i * meter.pulse;
+            if (i % 2 === 0) {
+              // Alternate the root and the fifth below it in the bass
+              pushLeft(i % 4 === 2 ? bass + fifth - 12 : bass, start, meter.pulse, 1.15);
+            } else {
+              [bass + 12, bass + 12 + third, bass + 12 + fifth].forEach((midiNumber) =>
+                pushLeft(midiNumber, start, meter.pulse * 0.75),
+              );
+            }
+          }
+          break;
+        }
+      }
+    });
+
+    openings.push(opening);
+  });
+
+  return { notes: sortNotes(notes), tempo, timeSignature };
+};
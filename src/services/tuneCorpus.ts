@@ -0,0 +1,323 @@
+// Bundled corpus of well-known public-domain melodies. Models often get
+// famous tunes slightly wrong, so when a prompt names one of these the
+// melody is taken from here: either kept note for note while the model
+// only writes the accompaniment, or sent to the model as a reference.
+import { GenerateOptions, GeneratedComposition, NoteSequence, TimeSignature } from './openai';
+import { AccompanimentStyle, generateAccompaniment } from './accompaniment';
+import { parseMelody } from '@/lib/melodyNotation';
+import { COMPACT_ENCODING_LEGEND, encodeNotesCompact } from '@/lib/scoreEncoding';
+
+export interface CorpusTune {
+  id: string;
+  title: string;
+  // Other names the tune is asked for by, including songs sharing its melody
+  aliases: string[];
+  origin: string;
+  key: string;
+  tempo: number;
+  timeSignature: TimeSignature;
+  // Accompaniment pattern used when the tune is arranged
+  style: AccompanimentStyle;
+  // Right-hand melody in the melodyNotation token format. Bar lines are
+  // for reading only; a pickup is written as a rest filling its bar.
+  melody: string;
+}
+
+// How a tune named in a prompt is used
+export type KnownTuneMode = 'arrange' | 'reference' | 'off';
+
+export const TUNE_CORPUS: CorpusTune[] = [
+  {
+    id: 'twinkle-twinkle',
+    title: 'Twinkle, Twinkle, Little Star',
+    aliases: ['twinkle twinkle', 'ah vous dirai-je maman', 'baa baa black sheep', 'alphabet song', 'abc song'],
+    origin: 'French folk melody, 18th century',
+    key: 'C major',
+    tempo: 100,
+    timeSignature: [4, 4],
+    style: 'block-chords',
+    melody: `C4 C4 G4 G4 | A4 A4 G4:2 | F4:1 F4 E4 E4 | D4 D4 C4:2 |
+      G4:1 G4 F4 F4 | E4 E4 D4:2 | G4:1 G4 F4 F4 | E4 E4 D4:2 |
+      C4:1 C4 G4 G4 | A4 A4 G4:2 | F4:1 F4 E4 E4 | D4 D4 C4:2`,
+  },
+  {
+    id: 'happy-birthday',
+    title: 'Happy Birthday to You',
+    aliases: ['happy birthday', 'birthday song', 'good morning to all'],
+    origin: 'Patty and Mildred Hill, 1893',
+    key: 'C major',
+    tempo: 100,
+    timeSignature: [3, 4],
+    style: 'stride',
+    melody: `R:2 G4:0.75 G4:0.25 | A4:1 G4 C5 | B4:2 G4:0.75 G4:0.25 | A4:1 G4 D5 |
+      C5:2 G4:0.75 G4:0.25 | G5:1 E5 C5 | B4 A4 F5:0.75 F5:0.25 | E5:1 C5 D5 | C5:3`,
+  },
+  {
+    id: 'ode-to-joy',
+    title: 'Ode to Joy',
+    aliases: ['ode to joy', 'an die freude', 'beethoven 9', 'ninth symphony', 'hymn to joy', 'anthem of europe'],
+    origin: 'Ludwig van Beethoven, Symphony No. 9, 1824',
+    key: 'C major',
+    tempo: 108,
+    timeSignature: [4, 4],
+    style: 'block-chords',
+    melody: `E4 E4 F4 G4 | G4 F4 E4 D4 | C4 C4 D4 E4 | E4:1.5 D4:0.5 D4:2 |
+      E4:1 E4 F4 G4 | G4 F4 E4 D4 | C4 C4 D4 E4 | D4:1.5 C4:0.5 C4:2 |
+      D4:1 D4 E4 C4 | D4 E4:0.5 F4 E4:1 C4 | D4 E4:0.5 F4 E4:1 D4 | C4 D4 G3:2 |
+      E4:1 E4 F4 G4 | G4 F4 E4 D4 | C4 C4 D4 E4 | D4:1.5 C4:0.5 C4:2`,
+  },
+  {
+    id: 'mary-had-a-little-lamb',
+    title: 'Mary Had a Little Lamb',
+    aliases: ['mary had a little lamb', 'little lamb'],
+    origin: 'American nursery rhyme, 1830s',
+    key: 'C major',
+    tempo: 110,
+    timeSignature: [4, 4],
+    style: 'alberti',
+    melody: `E4 D4 C4 D4 | E4 E4 E4:2 | D4:1 D4 D4:2 | E4:1 G4 G4:2 |
+      E4:1 D4 C4 D4 | E4 E4 E4 E4 | D4 D4 E4 D4 | C4:4`,
+  },
+  {
+    id: 'frere-jacques',
+    title: 'Frère Jacques',
+    aliases: ['frere jacques', 'brother john', 'are you sleeping', 'bruder jakob'],
+    origin: 'French nursery round, 18th century',
+    key: 'C major',
+    tempo: 104,
+    timeSignature: [4, 4],
+    style: 'arpeggio',
+    melody: `C4 D4 E4 C4 | C4 D4 E4 C4 | E4 F4 G4:2 | E4:1 F4 G4:2 |
+      G4:0.5 A4 G4 F4 E4:1 C4 | G4:0.5 A4 G4 F4 E4:1 C4 | C4 G3 C4:2 | C4:1 G3 C4:2`,
+  },
+  {
+    id: 'jingle-bells',
+    title: 'Jingle Bells',
+    aliases: ['jingle bells', 'one horse open sleigh'],
+    origin: 'James Lord Pierpont, 1857',
+    key: 'C major',
+    tempo: 120,
+    timeSignature: [4, 4],
+    style: 'stride',
+    melody: `E4 E4 E4:2 | E4:1 E4 E4:2 | E4:1 G4 C4:1.5 D4:0.5 | E4:4 |
+      F4:1 F4 F4:1.5 F4:0.5 | F4:1 E4 E4 E4:0.5 E4 | E4:1 D4 D4 E4 | D4:2 G4:2 |
+      E4:1 E4 E4:2 | E4:1 E4 E4:2 | E4:1 G4 C4:1.5 D4:0.5 | E4:4 |
+      F4:1 F4 F4 F4 | F4 E4 E4 E4:0.5 E4 | G4:1 G4 F4 D4 | C4:4`,
+  },
+  {
+    id: 'london-bridge',
+    title: 'London Bridge Is Falling Down',
+    aliases: ['london bridge', 'london bridge is falling down'],
+    origin: 'English nursery rhyme, 17th century',
+    key: 'C major',
+    tempo: 112,
+    timeSignature: [4, 4],
+    style: 'alberti',
+    melody: `G4:1.5 A4:0.5 G4:1 F4 | E4 F4 G4:2 | D4:1 E4 F4:2 | E4:1 F4 G4:2 |
+      G4:1.5 A4:0.5 G4:1 F4 | E4 F4 G4:2 | D4:2 G4 | E4:1 C4:3`,
+  },
+  {
+    id: 'row-your-boat',
+    title: 'Row, Row, Row Your Boat',
+    aliases: ['row row row your boat', 'row your boat'],
+    origin: 'American nursery rhyme, 1852',
+    key: 'C major',
+    tempo: 100,
+    timeSignature: [6, 8],
+    style: 'arpeggio',
+    melody: `C4:1.5 C4 | C4:1 D4:0.5 E4:1.5 | E4:1 D4:0.5 E4:1 F4:0.5 | G4:3 |
+      C5:0.5 C5 C5 G4 G4 G4 | E4 E4 E4 C4 C4 C4 | G4:1 F4:0.5 E4:1 D4:0.5 | C4:3`,
+  },
+  {
+    id: 'amazing-grace',
+    title: 'Amazing Grace',
+    aliases: ['amazing grace', 'new britain'],
+    origin: 'American hymn tune "New Britain", 1829',
+    key: 'G major',
+    tempo: 80,
+    timeSignature: [3, 4],
+    style: 'block-chords',
+    melody: `R:2 D4:1 | G4:2 B4:0.5 G4 | B4:2 A4:1 | G4:2 E4:1 | D4:2 D4:1 |
+      G4:2 B4:0.5 G4 | B4:2 A4:1 | D5:3 | D5:2 B4:1 |
+      D5:2 B4:0.5 G4 | B4:2 A4:1 | G4:2 E4:1 | D4:2 D4:1 |
+      G4:2 B4:0.5 G4 | B4:2 A4:1 | G4:3`,
+  },
+  {
+    id: 'old-macdonald',
+    title: 'Old MacDonald Had a Farm',
+    aliases: ['old macdonald', 'old mcdonald', 'e i e i o'],
+    origin: 'English folk song, 18th century',
+    key: 'G major',
+    tempo: 120,
+    timeSignature: [4, 4],
+    style: 'stride',
+    melody: `G4 G4 G4 D4 | E4 E4 D4:2 | B4:1 B4 A4 A4 | G4:3 D4:1 |
+      G4 G4 G4 D4 | E4 E4 D4:2 | B4:1 B4 A4 A4 | G4:4`,
+  },
+  {
+    id: 'yankee-doodle',
+    title: 'Yankee Doodle',
+    aliases: ['yankee doodle'],
+    origin: 'American folk song, 18th century',
+    key: 'C major',
+    tempo: 112,
+    timeSignature: [2, 4],
+    style: 'stride',
+    melody: `C4:0.5 C4 D4 E4 | C4 E4 D4 G3 | C4 C4 D4 E4 | C4:1 B3 |
+      C4:0.5 C4 D4 E4 | F4 E4 D4 C4 | B3 G3 A3 B3 | C4:1 C4`,
+  },
+  {
+    id: 'silent-night',
+    title: 'Silent Night',
+    aliases: ['silent night', 'stille nacht'],
+    origin: 'Franz Xaver Gruber, 1818',
+    key: 'C major',
+    tempo: 66,
+    timeSignature: [6, 8],
+    style: 'arpeggio',
+    melody: `G4:1.5 A4:0.5 G4:1 | E4:3 | G4:1.5 A4:0.5 G4:1 | E4:3 |
+      D5:2 D5:1 | B4:3 | C5:2 C5:1 | G4:3 |
+      A4:2 A4:1 | C5:1.5 B4:0.5 A4:1 | G4:1.5 A4:0.5 G4:1 | E4:3 |
+      A4:2 A4:1 | C5:1.5 B4:0.5 A4:1 | G4:1.5 A4:0.5 G4:1 | E4:3 |
+      D5:2 D5:1 | F5:1.5 D5:0.5 B4:1 | C5:3 | E5:3 |
+      C5:1 G4 E4 | G4:1.5 F4:0.5 D4:1 | C4:3`,
+  },
+  {
+    id: 'au-clair-de-la-lune',
+    title: 'Au Clair de la Lune',
+    aliases: ['au clair de la lune', 'by the light of the moon'],
+    origin: 'French folk song, 18th century',
+    key: 'C major',
+    tempo: 96,
+    timeSignature: [4, 4],
+    style: 'alberti',
+    melody: `C4 C4 C4 D4 | E4:2 D4:2 | C4:1 E4 D4 D4 | C4:4 |
+      C4:1 C4 C4 D4 | E4:2 D4:2 | C4:1 E4 D4 D4 | C4:4 |
+      D4:1 D4 D4 D4 | A3:2 A3:2 | D4:1 C4 B3 A3 | G3:4 |
+      C4:1 C4 C4 D4 | E4:2 D4:2 | C4:1 E4 D4 D4 | C4:4`,
+  },
+  {
+    id: 'hot-cross-buns',
+    title: 'Hot Cross Buns',
+    aliases: ['hot cross buns'],
+    origin: 'English street cry, 18th century',
+    key: 'C major',
+    tempo: 100,
+    timeSignature: [4, 4],
+    style: 'block-chords',
+    melody: `E4 D4 C4:2 | E4:1 D4 C4:2 | C4:0.5 C4 C4 C4 D4 D4 D4 D4 | E4:1 D4 C4:2`,
+  },
+  {
+    id: 'when-the-saints',
+    title: 'When the Saints Go Marching In',
+    aliases: ['when the saints', 'saints go marching in', 'oh when the saints'],
+    origin: 'American spiritual',
+    key: 'C major',
+    tempo: 132,
+    timeSignature: [4, 4],
+    style: 'stride',
+    melody: `R:1 C4:1 E4 F4 | G4:4 | R:1 C4:1 E4 F4 | G4:4 |
+      R:1 C4:1 E4 F4 | G4:2 E4:2 | C4:2 E4:2 | D4:4 |
+      R:1 E4:1 E4 D4 | C4:3 C4:1 | E4:2 G4:2 | G4:1 F4:3 |
+      R:1 C4:1 E4 F4 | G4:2 E4:2 | C4:2 D4:2 | C4:4`,
+  },
+];
+
+// Lowercase, without accents or punctuation, single-spaced
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export interface TuneMatch {
+  tune: CorpusTune;
+  score: number;
+}
+
+/**
+ * Search the corpus by title, alias or origin. A name found whole in the
+ * query ranks first; otherwise tunes sharing words with the query are
+ * ranked by how many they share.
+ * @param query Search text or a full prompt
+ * @param limit Most results to return
+ */
+export const searchTunes = (query: string, limit: number = 5): TuneMatch[] => {
+  const text = ` ${normalize(query)} `;
+  const words = new Set(text.split(' ').filter((word) => word.length > 2));
+  if (words.size === 0) return [];
+
+  return TUNE_CORPUS.map((tune) => {
+    const names = [tune.title, ...tune.aliases].map(normalize);
+    // Whole names, longer ones counting more
+    const phraseScore = Math.max(
+      0,
+      ...names.map((name) => (text.includes(` ${name} `) ? 10 + name.split(' ').length : 0)),
+    );
+    const tuneWords = new Set(
+      normalize(`${names.join(' ')} ${tune.origin}`).split(' ').filter((word) => word.length > 2),
+    );
+    const shared = [...words].filter((word) => tuneWords.has(word)).length;
+    return { tune, score: phraseScore + shared };
+  })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * The tune a prompt asks for by name, if any. Only a whole title or alias
+ * counts, so prompts that merely share a word with a tune are left alone.
+ * @param prompt The user's prompt
+ */
+export const findTuneInPrompt = (prompt: string): CorpusTune | null => {
+  const [best] = searchTunes(prompt, 1);
+  return best && best.score >= 10 ? best.tune : null;
+};
+
+/**
+ * The melody of a tune as a score, right hand only
+ * @param tune Tune from the corpus
+ */
+export const getTuneSequence = (tune: CorpusTune): NoteSequence => {
+  const { notes, errors } = parseMelody(tune.melody);
+  if (errors.length > 0) {
+    throw new Error(`The melody of "${tune.title}" could not be read: ${errors[0]}`);
+  }
+  return { notes, tempo: tune.tempo, timeSignature: tune.timeSignature };
+};
+
+/**
+ * Add a tune's exact melody to a prompt, so the model arranges the real
+ * tune instead of writing it from memory
+ * @param prompt The user's prompt
+ * @param tune The tune the prompt names
+ */
+export const buildTuneReferencePrompt = (prompt: string, tune: CorpusTune): string => {
+  const melody = getTuneSequence(tune);
+  return `${prompt}
+
+Reference melody of "${tune.title}" (${tune.key}, ${tune.timeSignature.join('/')}, ${COMPACT_ENCODING_LEGEND}):
+${encodeNotesCompact(melody.notes)}
+
+Keep this melody note for note in the right hand, in this rhythm (the key, register and tempo may change if the request asks), and build the arrangement around it.`;
+};
+
+/**
+ * Keep a tune's melody exactly and have the model write only the
+ * accompaniment, following the prompt where it describes the arrangement
+ * @param tune The tune to arrange
+ * @param prompt The user's prompt
+ * @param options Generation options
+ */
+export const arrangeTune = (
+  tune: CorpusTune,
+  prompt: string,
+  options?: GenerateOptions
+): Promise<GeneratedComposition> =>
+  generateAccompaniment(getTuneSequence(tune), tune.style, {
+    ...options,
+    instructions: `This is "${tune.title}". The listener asked for: ${prompt}`,
+  });
@@ -0,0 +1,281 @@
+// Token usage and cost tracking. Every model call is recorded here: the
+// session totals live in memory, the lifetime totals, custom prices and the
+// spending cap are kept in localStorage.
+import { ProviderId, TokenUsage } from './providers';
+
+// Prices in US dollars per million tokens
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Prices per provider and model; "*" applies to any model of the provider
+export type PricingTable = Partial<Record<ProviderId, Record<string, ModelPricing>>>;
+
+// One model call
+export interface UsageRecord {
+  timestamp: number;
+  providerId: ProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null; // null when no price is known for the model
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // Requests whose cost could not be priced
+  unpricedRequests: number;
+}
+
+export class SpendingCapError extends Error {
+  constructor(public cap: number, public spent: number) {
+    super(`Spending cap of ${formatCost(cap)} reached (${formatCost(spent)} spent). Raise or clear the cap to keep generating.`);
+    this.name = 'SpendingCapError';
+  }
+}
+
+export const DEFAULT_PRICING: PricingTable = {
+  openai: {
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  },
+  anthropic: {
+    'claude-3-5-sonnet-latest': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-haiku-latest': { inputPerMillion: 0.8, outputPerMillion: 4 },
+    'claude-3-opus-latest': { inputPerMillion: 15, outputPerMillion: 75 },
+  },
+  gemini: {
+    'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+    'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  },
+  // Local servers and the offline demo cost nothing
+  'openai-compatible': { '*': { inputPerMillion: 0, outputPerMillion: 0 } },
+  mock: { '*': { inputPerMillion: 0, outputPerMillion: 0 } },
+};
+
+const PRICING_STORAGE_KEY = 'ai-piano-performer.pricing';
+const LIFETIME_STORAGE_KEY = 'ai-piano-performer.usage';
+const CAP_STORAGE_KEY = 'ai-piano-performer.spending-cap';
+
+const EMPTY_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  unpricedRequests: 0,
+};
+
+const sessionRecords: UsageRecord[] = [];
+let sessionTotals: UsageTotals = { ...EMPTY_TOTALS };
+const listeners = new Set<() => void>();
+
+const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.warn(`Could not read ${key} from storage:`, error);
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown): void => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch (error) {
+    console.warn(`Could not write ${key} to storage:`, error);
+  }
+};
+
+const notify = (): void => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Be told whenever usage, prices or the cap change
+ * @param listener Called after every change
+ * @returns Function that removes the listener
+ */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The user's custom prices, which take precedence over DEFAULT_PRICING
+ */
+export const getCustomPricing = (): PricingTable => readStorage(PRICING_STORAGE_KEY, {});
+
+/**
+ * Default prices merged with the user's custom prices
+ */
+export const getPricingTable = (): PricingTable => {
+  const custom = getCustomPricing();
+  const merged: PricingTable = {};
+  for (const providerId of new Set([...Object.keys(DEFAULT_PRICING), ...Object.keys(custom)])) {
+    const id = providerId as ProviderId;
+    merged[id] = { ...DEFAULT_PRICING[id], ...custom[id] };
+  }
+  return merged;
+};
+
+/**
+ * Set or remove the custom price of a model
+ * @param providerId Provider of the model
+ * @param model Model name, or "*" for every model of the provider
+ * @param pricing New price, or null to go back to the default
+ */
+export const setModelPricing = (
+  providerId: ProviderId,
+  model: string,
+  pricing: ModelPricing | null
+): void => {
+  const custom = getCustomPricing();
+  const providerPrices = { ...custom[providerId] };
+  if (pricing) {
+    providerPrices[model] = pricing;
+  } else {
+    delete providerPrices[model];
+  }
+  custom[providerId] = providerPrices;
+  writeStorage(PRICING_STORAGE_KEY, custom);
+  notify();
+};
+
+/**
+ * Price of a model, falling back to the provider's "*" entry
+ * @param providerId Provider of the model
+ * @param model Model name
+ */
+export const getModelPricing = (providerId: ProviderId, model: string): ModelPricing | null => {
+  const prices = getPricingTable()[providerId];
+  return prices?.[model] ?? prices?.['*'] ?? null;
+};
+
+/**
+ * Estimated cost of a call in US dollars, or null if the model has no price
+ */
+export const estimateCost = (
+  providerId: ProviderId,
+  model: string,
+  usage: TokenUsage
+): number | null => {
+  const pricing = getModelPricing(providerId, model);
+  if (!pricing) return null;
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) / 1_000_000
+  );
+};
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord): UsageTotals => ({
+  requests: totals.requests + 1,
+  promptTokens: totals.promptTokens + record.promptTokens,
+  completionTokens: totals.completionTokens + record.completionTokens,
+  cost: totals.cost + (record.cost ?? 0),
+  unpricedRequests: totals.unpricedRequests + (record.cost === null ? 1 : 0),
+});
+
+/**
+ * Record the tokens used by a model call. Calls whose provider did not
+ * report usage are counted with zero tokens.
+ * @param providerId Provider that answered
+ * @param model Model that answered
+ * @param usage Reported token counts, if any
+ * @returns The stored record
+ */
+export const recordUsage = (
+  providerId: ProviderId,
+  model: string,
+  usage: TokenUsage | undefined
+): UsageRecord => {
+  const tokens = usage ?? { promptTokens: 0, completionTokens: 0 };
+  const record: UsageRecord = {
+    timestamp: Date.now(),
+    providerId,
+    model,
+    ...tokens,
+    cost: estimateCost(providerId, model, tokens),
+  };
+
+  sessionRecords.push(record);
+  sessionTotals = addToTotals(sessionTotals, record);
+  writeStorage(LIFETIME_STORAGE_KEY, addToTotals(getLifetimeUsage(), record));
+  notify();
+  return record;
+};
+
+export const getSessionRecords = (): UsageRecord[] => [...sessionRecords];
+
+export const getSessionUsage = (): UsageTotals => ({ ...sessionTotals });
+
+export const getLifetimeUsage = (): UsageTotals =>
+  ({ ...EMPTY_TOTALS, ...readStorage<Partial<UsageTotals>>(LIFETIME_STORAGE_KEY, {}) });
+
+export const resetLifetimeUsage = (): void => {
+  writeStorage(LIFETIME_STORAGE_KEY, null);
+  notify();
+};
+
+/**
+ * Spending cap on lifetime cost in US dollars, or null for no cap
+ */
+export const getSpendingCap = (): number | null => readStorage<number | null>(CAP_STORAGE_KEY, null);
+
+export const setSpendingCap = (cap: number | null): void => {
+  writeStorage(CAP_STORAGE_KEY, cap);
+  notify();
+};
+
+/**
+ * Throw a SpendingCapError if lifetime spending has reached the cap
+ */
+export const assertWithinSpendingCap = (): void => {
+  const cap = getSpendingCap();
+  if (cap === null) return;
+
+  const spent = getLifetimeUsage().cost;
+  if (spent >= cap) {
+    throw new SpendingCapError(cap, spent);
+  }
+};
+
+/**
+ * Format a cost in US dollars, with more digits for small amounts
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * One-line description of the tokens and cost of a generation
+ * @param usage Totals for the generation
+ */
+export const formatUsage = (usage: UsageTotals): string => {
+  const tokens = usage.promptTokens + usage.completionTokens;
+  if (tokens === 0) return '';
+
+  let cost = `~${formatCost(usage.cost)}`;
+  if (usage.cost === 0) {
+    cost = usage.unpricedRequests > 0 ? 'cost unknown' : 'free';
+  }
+  return `${tokens.toLocaleString()} tokens (${cost})`;
+};
+
+/**
+ * Totals of a set of usage records
+ */
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce(addToTotals, { ...EMPTY_TOTALS });
@@ -22,5 +22,9 @@ export default defineConfig({
   server: {
     // @ts-ignore
     allowedHosts: true,
+    // Send API calls to the proxy server (npm run proxy) during development
+    proxy: {
+      "/api": process.env.PROXY_URL || "http://localhost:8787",
+    },
   }
 });